@@ -1,21 +1,186 @@
 "use client";
 import React, { useEffect, useRef, useState } from "react";
-import Rubiks from "../rubiks";
+import Rubiks, { MAX_ORDER, MIN_ORDER } from "../rubiks";
+import { createSeed, DAILY_SEED, resolveSeed } from "../rubiks/random";
+import { SolveMode } from "../rubiks/cubeState";
+import { formatResult } from "../rubiks/solveTimer";
+import {
+    LeaderboardEntry,
+    LeaderboardSort,
+    loadLeaderboard,
+    sortLeaderboard,
+} from "../rubiks/leaderboard";
+import {
+    AVERAGES,
+    formatStat,
+    getSession,
+    getSolveStats,
+    loadSolves,
+    SolveRecord,
+    StatValue,
+    startSession,
+} from "../rubiks/solveHistory";
+import { getPhaseAverages, PHASE_LABELS, PHASES } from "../rubiks/splits";
 import { useRouter } from "next/navigation";
 
+/** Cube orders offered in the order picker. */
+const ORDERS = Array.from(
+    { length: MAX_ORDER - MIN_ORDER + 1 },
+    (_, i) => MIN_ORDER + i
+);
+
+/** Difficulty modes offered in the difficulty picker, with their labels. */
+const DIFFICULTIES: Record<SolveMode, string> = {
+    standard: "Standard",
+    supercube: "Supercube",
+};
+
+/** Ways of sorting the leaderboard offered in the sort picker, with their labels. */
+const LEADERBOARD_SORTS: Record<LeaderboardSort, string> = {
+    time: "Fastest",
+    date: "Newest",
+    moves: "Fewest moves",
+    tps: "Highest TPS",
+};
+
+/**
+ * Writes the seed, the cube order and the difficulty into the page URL, so the link can be shared as-is.
+ * @param {string} seed - The seed as written in the URL (e.g. "daily").
+ * @param {number} order - The cube order.
+ * @param {SolveMode} mode - The difficulty; left out of the URL when standard.
+ */
+const writeChallengeUrl = (seed: string, order: number, mode: SolveMode) => {
+    window.history.replaceState(
+        null,
+        "",
+        `?seed=${encodeURIComponent(seed)}&order=${order}` +
+            (mode !== "standard" ? `&mode=${mode}` : "")
+    );
+};
+
+/**
+ * Reads the cube order from the "?order=" query parameter.
+ * @param {URLSearchParams} params - The query parameters of the page.
+ * @returns {number} The order, or 3 if it is missing or out of range.
+ */
+const readOrder = (params: URLSearchParams) => {
+    const order = Number(params.get("order"));
+    return Number.isInteger(order) && order >= MIN_ORDER && order <= MAX_ORDER
+        ? order
+        : 3;
+};
+
+/**
+ * Reads the difficulty from the "?mode=" query parameter.
+ * @param {URLSearchParams} params - The query parameters of the page.
+ * @returns {SolveMode} The difficulty, or "standard" if it is missing or unknown.
+ */
+const readMode = (params: URLSearchParams): SolveMode => {
+    const mode = params.get("mode");
+    return mode && mode in DIFFICULTIES ? (mode as SolveMode) : "standard";
+};
+
+/**
+ * Props for the StatsPanel component.
+ * @typedef {object} StatsPanelProps
+ * @property {SolveRecord[]} solves - Every solve of the puzzle being solved, oldest first.
+ * @property {number} session - The current session.
+ * @property {() => void} onNewSession - Called when the user starts a new session.
+ */
+type StatsPanelProps = {
+    solves: SolveRecord[];
+    session: number;
+    onNewSession: () => void;
+};
+
 /**
- * Defines the structure for an entry in the leaderboard.
- * @typedef {object} LeaderboardEntry
- * @property {number} time - The time taken to solve the cube in seconds.
- * @property {string} date - The date the record was set (ISO string format).
- * @property {string} image - The URL of the image used on the cube face for this record.
+ * Panel with the statistics of the current session (single, mo3, ao5, ao12, ao50, ao100, mean,
+ * standard deviation, and the mean time of each phase) next to the personal bests over every session.
+ *
+ * @component
+ * @param {StatsPanelProps} props - The solves and the session.
+ * @returns {React.ReactElement} The rendered panel.
  */
-type LeaderboardEntry = { time: number; date: string; image: string };
+function StatsPanel({ solves, session, onNewSession }: StatsPanelProps) {
+    const sessionSolves = solves.filter((solve) => solve.session === session);
+    const sessionStats = getSolveStats(sessionSolves);
+    // Mean time of each phase over the finished solves of the session
+    const phaseAverages = getPhaseAverages(
+        sessionSolves
+            .filter((solve) => solve.penalty !== "DNF")
+            .map((solve) => solve.splits)
+    );
+    const allStats = getSolveStats(solves);
+    // One row per statistic: its name, its session values and its personal best
+    const rows: [string, StatValue, number | null][] = [
+        ["single", sessionStats.single, allStats.single.best],
+        ...AVERAGES.map(({ name }): [string, StatValue, number | null] => [
+            name,
+            sessionStats.averages[name],
+            allStats.averages[name].best,
+        ]),
+    ];
+
+    return (
+        <div className="absolute bottom-4 right-4 z-10 bg-black bg-opacity-10 text-white p-4 rounded text-sm">
+            <div className="flex items-center justify-between mb-2 space-x-4">
+                <span className="font-bold">Session {session}</span>
+                <button
+                    onClick={onNewSession}
+                    className="px-2 py-1 bg-gray-500 text-white rounded"
+                >
+                    New session
+                </button>
+            </div>
+            <table className="min-w-full font-mono">
+                <thead>
+                    <tr>
+                        <th className="px-1" />
+                        <th className="px-1">Current</th>
+                        <th className="px-1">Best</th>
+                        <th className="px-1">PB</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(([name, value, pb]) => (
+                        <tr key={name} className="border-t border-gray-600">
+                            <td className="px-1">{name}</td>
+                            <td className="px-1">
+                                {formatStat(value.current)}
+                            </td>
+                            <td className="px-1">{formatStat(value.best)}</td>
+                            <td className="px-1">{formatStat(pb)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            {/* Spread of the session's finished solves */}
+            <div className="mt-2">
+                Solves: {sessionStats.count} (DNF: {sessionStats.dnf}) · Mean:{" "}
+                {formatStat(sessionStats.mean)} · σ:{" "}
+                {formatStat(sessionStats.deviation)} · Worst:{" "}
+                {formatStat(sessionStats.worst)}
+            </div>
+            {/* Where the time goes, to know which step to practice (3x3x3 only) */}
+            {phaseAverages.cross !== null && (
+                <div className="mt-1">
+                    {PHASES.map(
+                        (phase) =>
+                            `${PHASE_LABELS[phase]}: ${formatStat(
+                                phaseAverages[phase]
+                            )}`
+                    ).join(" · ")}
+                </div>
+            )}
+        </div>
+    );
+}
 
 /**
  * Renders the main Rubik's cube challenge page.
  * This component initializes the Rubik's cube visualization, manages game state (timer, image),
- * handles user interaction (back button), and displays the leaderboard specific to the selected image.
+ * handles user interaction (back button, order picker), and displays the leaderboard specific to the
+ * selected image and cube order.
  *
  * @component
  * @returns {React.ReactElement} The rendered challenge page component.
@@ -29,12 +194,29 @@ export default function Page() {
     const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
     // State to store the URL of the currently selected image for the cube face, persisted in localStorage.
     const [selectedImage, setSelectedImage] = useState<string>("");
+    // State holding the seed of the current scramble, as written in the URL (e.g. "daily").
+    const [seed, setSeed] = useState<string>("");
+    // State holding the order of the cube being solved, as written in the URL.
+    const [order, setOrder] = useState(3);
+    // State holding the difficulty: whether the centers must also end up upright.
+    const [mode, setMode] = useState<SolveMode>("standard");
+    // State holding every timed solve, loaded from localStorage and reloaded after each solve.
+    const [solves, setSolves] = useState<SolveRecord[]>([]);
+    // State holding the session new solves belong to.
+    const [session, setSession] = useState(1);
+    // State holding the difficulty whose records the leaderboard shows, or "all".
+    const [modeFilter, setModeFilter] = useState<SolveMode | "all">("all");
+    // State holding whether the leaderboard shows the records of every image, not only the selected one.
+    const [allImages, setAllImages] = useState(false);
+    // State holding what the leaderboard is sorted by.
+    const [sort, setSort] = useState<LeaderboardSort>("time");
 
     // Effect hook to load the leaderboard data from localStorage when the component mounts.
     // If no data is found, it initializes with an empty array.
     useEffect(() => {
-        const data = localStorage.getItem("rubiksLeaderboard") || "[]";
-        setLeaderboard(JSON.parse(data));
+        setLeaderboard(loadLeaderboard());
+        setSolves(loadSolves());
+        setSession(getSession());
     }, []); // Empty dependency array ensures this runs only once on mount.
 
     // Effect hook to initialize the Rubik's cube instance when the container ref is available.
@@ -42,7 +224,27 @@ export default function Page() {
     useEffect(() => {
         // Check if the container element exists and if the rubik instance hasn't been created yet.
         if (containerRef.current && !rubik) {
-            const instance = new Rubiks(containerRef.current);
+            // Read the shared seed from the "?seed=" query parameter, or start a new one.
+            const params = new URLSearchParams(window.location.search);
+            const urlSeed = params.get("seed") || createSeed();
+            const urlOrder = readOrder(params);
+            const urlMode = readMode(params);
+            // Keep the seed, order and difficulty in the URL so the page link can be shared as-is.
+            writeChallengeUrl(urlSeed, urlOrder, urlMode);
+            setSeed(urlSeed);
+            setOrder(urlOrder);
+            setMode(urlMode);
+            const instance = new Rubiks(
+                containerRef.current,
+                resolveSeed(urlSeed),
+                urlOrder
+            );
+            instance.setSolveMode(urlMode);
+            // Show the new solve in the statistics and the leaderboard.
+            instance.onSolve = () => {
+                setSolves(loadSolves());
+                setLeaderboard(loadLeaderboard());
+            };
             setRubik(instance); // Store the created instance in state.
         }
         // Dependency array includes 'rubik' to prevent re-running if the instance already exists.
@@ -62,15 +264,69 @@ export default function Page() {
         // Dependency array includes 'rubik' to ensure this runs after the instance is ready.
     }, [rubik]);
 
-    // Filters the leaderboard to show only entries matching the currently selected image.
-    // This provides context-specific high scores.
-    const filteredLeaderboard = leaderboard.filter(
-        (entry) => entry.image === selectedImage
+    // The records of the order being solved; times of other orders are never ranked together.
+    const orderLeaderboard = leaderboard.filter(
+        (entry) => entry.order === order
+    );
+    // Filters the records by difficulty and image, and sorts them as picked.
+    const filteredLeaderboard = sortLeaderboard(
+        orderLeaderboard.filter(
+            (entry) =>
+                (modeFilter === "all" || entry.mode === modeFilter) &&
+                (allImages || entry.image === selectedImage)
+        ),
+        sort
+    );
+
+    // The solve history of the order being solved, for the statistics.
+    const orderSolves = solves.filter(
+        (solve) => solve.puzzle === String(order)
     );
 
     // useRouter hook from Next.js for programmatic navigation.
     const router = useRouter();
 
+    /**
+     * Scrambles the cube with the given seed and records it in the URL.
+     * @param {string} newSeed - The seed as written in the URL (e.g. "daily").
+     */
+    const scrambleWithSeed = (newSeed: string) => {
+        writeChallengeUrl(newSeed, order, mode);
+        setSeed(newSeed);
+        rubik?.disorder(resolveSeed(newSeed));
+    };
+
+    /**
+     * Switches to a cube of another order and scrambles it with the current seed.
+     * @param {number} newOrder - The new cube order.
+     */
+    const handleOrderChange = (newOrder: number) => {
+        if (!rubik) return;
+        writeChallengeUrl(seed, newOrder, mode);
+        setOrder(newOrder);
+        rubik.setOrder(newOrder);
+        rubik.disorder(resolveSeed(seed));
+    };
+
+    /**
+     * Switches to another difficulty and starts over from the same scramble.
+     * @param {SolveMode} newMode - The new difficulty.
+     */
+    const handleModeChange = (newMode: SolveMode) => {
+        if (!rubik) return;
+        writeChallengeUrl(seed, order, newMode);
+        setMode(newMode);
+        rubik.setSolveMode(newMode);
+        rubik.disorder(resolveSeed(seed));
+    };
+
+    /** Copies a link to the current scramble so teammates can race the same cube. */
+    const handleCopyLink = () => {
+        navigator.clipboard
+            .writeText(window.location.href)
+            .catch((error) => console.error("Failed to copy link:", error));
+    };
+
     return (
         // Main container for the challenge page, using flexbox for layout.
         <div
@@ -78,12 +334,17 @@ export default function Page() {
             // Sets a specific background color for the page.
             style={{ backgroundColor: "#9e7a68" }}
         >
-            {/* Container for the timer display. Positioned absolutely at the top center, behind the cube. */}
-            <div className="absolute inset-0 z-0 flex items-start justify-center text-white">
+            {/* Container for the timer and scramble display. Positioned absolutely at the top center, behind the cube. */}
+            <div className="absolute inset-0 z-0 flex flex-col items-center text-white">
                 {/* Timer display element. Its content is likely updated by the Rubiks instance. */}
                 <span id="timer" className="text-[7vw]">
-                    00:00
+                    00:00.00
                 </span>
+                {/* Scramble display element, filled in by the Rubiks instance when the cube is scrambled. */}
+                <span
+                    id="scramble"
+                    className="px-4 text-lg font-mono text-center max-w-3xl"
+                />
             </div>
             {/* The div element where the Rubik's cube canvas is rendered. Takes up available space. */}
             <div ref={containerRef} className="flex-grow z-1" />
@@ -96,31 +357,142 @@ export default function Page() {
                 >
                     Back
                 </button>
+                {/* Turn the whole cube back to a standard view with U on top */}
+                <button
+                    onClick={() => rubik?.snapToView()}
+                    title="Snap to the nearest standard view"
+                    className="px-3 py-1 bg-gray-500 text-white rounded"
+                >
+                    View
+                </button>
+                {/* Charts of the whole solve history */}
+                <button
+                    onClick={() => router.push("/stats")}
+                    className="px-3 py-1 bg-gray-500 text-white rounded"
+                >
+                    Stats
+                </button>
+            </div>
+            {/* Seed controls, positioned at the top-right: share the scramble or switch to the daily one. */}
+            <div className="absolute top-4 right-4 z-10 flex items-center space-x-2 text-white">
+                {/* Order picker: the same seed gives a different scramble on each order */}
+                <select
+                    value={order}
+                    onChange={(e) => handleOrderChange(Number(e.target.value))}
+                    className="px-2 py-1 bg-gray-700 text-white rounded"
+                >
+                    {ORDERS.map((value) => (
+                        <option key={value} value={value}>
+                            {value}x{value}
+                        </option>
+                    ))}
+                </select>
+                {/* Difficulty picker: a supercube also needs its centers upright */}
+                <select
+                    value={mode}
+                    onChange={(e) =>
+                        handleModeChange(e.target.value as SolveMode)
+                    }
+                    title="Supercube: the centers (every sticker with an image) must also end up upright"
+                    className="px-2 py-1 bg-gray-700 text-white rounded"
+                >
+                    {Object.entries(DIFFICULTIES).map(([value, label]) => (
+                        <option key={value} value={value}>
+                            {label}
+                        </option>
+                    ))}
+                </select>
+                <span className="text-sm font-mono">Seed: {seed}</span>
+                <button
+                    onClick={handleCopyLink}
+                    className="px-3 py-1 bg-gray-500 text-white rounded"
+                >
+                    Copy Link
+                </button>
+                <button
+                    onClick={() => scrambleWithSeed(DAILY_SEED)}
+                    className="px-3 py-1 bg-yellow-600 text-white rounded"
+                >
+                    Daily
+                </button>
+                <button
+                    onClick={() => scrambleWithSeed(createSeed())}
+                    className="px-3 py-1 bg-blue-600 text-white rounded"
+                >
+                    New
+                </button>
             </div>
             {/* Conditional rendering: Display the leaderboard only if there are entries for the selected image. */}
-            {filteredLeaderboard.length > 0 && (
+            {orderLeaderboard.length > 0 && (
                 // Leaderboard container, positioned at the bottom-left with a semi-transparent background.
                 <div className="absolute bottom-4 left-4 z-10 bg-black bg-opacity-10 text-white p-4 rounded max-h-64 overflow-auto">
+                    {/* Filters and sort order of the leaderboard. */}
+                    <div className="flex mb-2 space-x-2 text-sm">
+                        <select
+                            value={modeFilter}
+                            onChange={(e) =>
+                                setModeFilter(
+                                    e.target.value as SolveMode | "all"
+                                )
+                            }
+                            className="px-1 bg-gray-500 text-white rounded"
+                        >
+                            <option value="all">All modes</option>
+                            {Object.entries(DIFFICULTIES).map(
+                                ([value, label]) => (
+                                    <option key={value} value={value}>
+                                        {label}
+                                    </option>
+                                )
+                            )}
+                        </select>
+                        <select
+                            value={allImages ? "all" : "current"}
+                            onChange={(e) =>
+                                setAllImages(e.target.value === "all")
+                            }
+                            className="px-1 bg-gray-500 text-white rounded"
+                        >
+                            <option value="current">This image</option>
+                            <option value="all">All images</option>
+                        </select>
+                        <select
+                            value={sort}
+                            onChange={(e) =>
+                                setSort(e.target.value as LeaderboardSort)
+                            }
+                            className="px-1 bg-gray-500 text-white rounded"
+                        >
+                            {Object.entries(LEADERBOARD_SORTS).map(
+                                ([value, label]) => (
+                                    <option key={value} value={value}>
+                                        {label}
+                                    </option>
+                                )
+                            )}
+                        </select>
+                    </div>
                     {/* Table structure for displaying leaderboard data. */}
                     <table className="min-w-full text-sm">
                         <thead>
                             <tr>
                                 <th className="px-1">#</th>
                                 <th className="px-1">Time</th>
+                                <th className="px-1">Moves</th>
+                                <th className="px-1">TPS</th>
+                                <th className="px-1">Mode</th>
                                 <th className="px-1">Date</th>
+                                <th className="px-1" />
                             </tr>
                         </thead>
                         <tbody>
                             {/* Map through the filtered leaderboard entries to create table rows. */}
                             {filteredLeaderboard.map((entry, i) => {
-                                // Calculate minutes and seconds from the total time in seconds.
-                                const mins = Math.floor(entry.time / 60);
-                                const secs = Math.floor(entry.time % 60);
-                                // Format the time string as MM:SS.
-                                const timeStr = `${String(mins).padStart(
-                                    2,
-                                    "0"
-                                )}:${String(secs).padStart(2, "0")}`;
+                                // Format the time string as MM:SS.cc, marked with "+" for a +2 penalty.
+                                const timeStr = formatResult(
+                                    entry.time * 1000,
+                                    entry.penalty
+                                );
                                 // Format the date string using the locale's default date format.
                                 const dateStr = new Date(
                                     entry.date
@@ -129,13 +501,41 @@ export default function Page() {
                                 return (
                                     // Table row for each leaderboard entry.
                                     <tr
-                                        key={i} // Using index as key, assuming the list order is stable for rendering.
+                                        key={entry.date} // Records are told apart by the time they were set.
                                         className="border-t border-gray-600"
+                                        // Show the scramble of the solve on hover.
+                                        title={entry.scramble}
                                     >
-                                        {/* Display rank, formatted time, and formatted date. */}
+                                        {/* Display rank, formatted time, move count, TPS, mode and formatted date. */}
                                         <td className="px-1">{i + 1}</td>
                                         <td className="px-1">{timeStr}</td>
+                                        <td className="px-1">
+                                            {entry.moves ?? "-"}
+                                        </td>
+                                        <td className="px-1">
+                                            {entry.tps?.toFixed(2) ?? "-"}
+                                        </td>
+                                        <td className="px-1">
+                                            {DIFFICULTIES[entry.mode]}
+                                        </td>
                                         <td className="px-1">{dateStr}</td>
+                                        {/* Link to the replay viewer for solves that were recorded. */}
+                                        <td className="px-1">
+                                            {entry.reconstruction && (
+                                                <button
+                                                    onClick={() =>
+                                                        router.push(
+                                                            `/replay?date=${encodeURIComponent(
+                                                                entry.date
+                                                            )}`
+                                                        )
+                                                    }
+                                                    className="underline"
+                                                >
+                                                    Replay
+                                                </button>
+                                            )}
+                                        </td>
                                     </tr>
                                 );
                             })}
@@ -143,6 +543,12 @@ export default function Page() {
                     </table>
                 </div>
             )}
+            {/* Session statistics and personal bests of the selected order. */}
+            <StatsPanel
+                solves={orderSolves}
+                session={session}
+                onNewSession={() => setSession(startSession())}
+            />
         </div>
     );
 }
@@ -55,6 +55,12 @@ export default function LandingPage() {
                             Sandbox
                         </a>
                     </li>
+                    <li>
+                        {/* Link to the Statistics page. */}
+                        <a href="/stats" className=" hover:text-blue-300">
+                            Stats
+                        </a>
+                    </li>
                     <li>
                         {/* Link to the Settings page. */}
                         <a href="/settings" className=" hover:text-blue-300">
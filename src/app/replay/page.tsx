@@ -0,0 +1,169 @@
+"use client";
+import React, { useEffect, useRef, useState } from "react";
+import Rubiks from "../rubiks";
+import ReplayPlayer from "../rubiks/replayPlayer";
+import { LeaderboardEntry, loadLeaderboard } from "../rubiks/leaderboard";
+import { useRouter } from "next/navigation";
+
+/** Playback speeds offered in the speed selector. */
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+/**
+ * Formats a playback time as seconds with hundredths (e.g. "12.34").
+ * @param {number} ms - The time in milliseconds.
+ * @returns {string} The formatted time.
+ */
+const formatSeconds = (ms: number) => (ms / 1000).toFixed(2);
+
+/**
+ * Renders the solve replay page.
+ * Looks up the leaderboard record given by the "?date=" query parameter and re-animates its
+ * recorded turns on a cube, with play/pause, a scrubbing slider and speed control.
+ *
+ * @component
+ * @returns {React.ReactElement} The rendered replay page component.
+ */
+export default function Page() {
+    // Ref to the container element where the Rubik's cube canvas will be mounted.
+    const containerRef = useRef<HTMLDivElement>(null);
+    // State to hold the Rubik's cube instance. Initialized to null until the component mounts.
+    const [rubik, setRubik] = useState<Rubiks | null>(null);
+    // The leaderboard record being replayed, or null if it was not found.
+    const [entry, setEntry] = useState<LeaderboardEntry | null>(null);
+    // The replay player driving the cube.
+    const [player, setPlayer] = useState<ReplayPlayer | null>(null);
+    // Incremented whenever the player changes, to re-render its controls.
+    const [, setPlayerTick] = useState(0);
+
+    // Effect hook to initialize the Rubik's cube instance and find the record to replay.
+    useEffect(() => {
+        if (containerRef.current && !rubik) {
+            // Find the record given by the "?date=" query parameter.
+            const params = new URLSearchParams(window.location.search);
+            const date = params.get("date");
+            const found =
+                loadLeaderboard().find((item) => item.date === date) || null;
+            setEntry(found);
+            // Replay on a cube of the order the solve was made on, without touching the saved
+            // cube of that order.
+            setRubik(
+                new Rubiks(containerRef.current, undefined, found?.order, false)
+            );
+        }
+    }, [rubik]);
+
+    // Effect hook to start the replay once both the cube and the record are available.
+    useEffect(() => {
+        if (!rubik || !entry?.reconstruction) return;
+        // Show the image the solve was made with.
+        if (entry.image) rubik.setImage(entry.image);
+        const instance = rubik.startReplay(
+            entry.scramble || "",
+            entry.reconstruction,
+            () => setPlayerTick((tick) => tick + 1)
+        );
+        setPlayer(instance);
+        // Stop playback when leaving the page.
+        return () => instance?.dispose();
+    }, [rubik, entry]);
+
+    // useRouter hook from Next.js for programmatic navigation.
+    const router = useRouter();
+
+    return (
+        // Main container for the replay page, using flexbox for layout.
+        <div
+            className="w-screen h-screen relative flex"
+            style={{ backgroundColor: "#9e7a68" }}
+        >
+            {/* Container for the replay time and scramble display. Positioned absolutely at the top center, behind the cube. */}
+            <div className="absolute inset-0 z-0 flex flex-col items-center text-white">
+                <span className="text-[7vw] font-mono">
+                    {formatSeconds(player?.time || 0)}
+                </span>
+                {/* Scramble display element, filled in by the Rubiks instance. */}
+                <span
+                    id="scramble"
+                    className="px-4 text-lg font-mono text-center max-w-3xl"
+                />
+            </div>
+            {/* The div element where the Rubik's cube canvas is rendered. Takes up available space. */}
+            <div ref={containerRef} className="flex-grow z-1" />
+            {/* Container for the 'Back' button, positioned at the top-left. */}
+            <div className="absolute top-4 left-4 z-10 flex space-x-2">
+                <button
+                    onClick={() => router.back()}
+                    className="px-3 py-1 bg-gray-500 text-white rounded"
+                >
+                    Back
+                </button>
+            </div>
+            {/* Message shown when the record is missing or was saved before solves were recorded. */}
+            {rubik && !entry?.reconstruction && (
+                <div className="absolute top-16 left-1/2 -translate-x-1/2 z-10 bg-black bg-opacity-30 text-white px-4 py-2 rounded">
+                    {entry
+                        ? "This solve was saved without a reconstruction."
+                        : "Solve not found."}
+                </div>
+            )}
+            {/* Playback controls, positioned at the bottom center. */}
+            {player && (
+                <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 bg-black bg-opacity-30 text-white p-4 rounded w-[min(90vw,40rem)] flex flex-col space-y-2">
+                    {/* The recorded turns, with the ones already shown highlighted. */}
+                    <div className="font-mono text-sm max-h-24 overflow-auto">
+                        {player.moves.map((move, i) => (
+                            <span
+                                key={i}
+                                className={
+                                    i < player.applied
+                                        ? "text-yellow-300"
+                                        : "text-gray-300"
+                                }
+                                title={`${formatSeconds(move.time)}s`}
+                            >
+                                {move.move}{" "}
+                            </span>
+                        ))}
+                    </div>
+                    {/* Scrubbing slider over the length of the solve. */}
+                    <input
+                        type="range"
+                        min={0}
+                        max={player.duration}
+                        step={10}
+                        value={player.time}
+                        onChange={(e) => player.seek(Number(e.target.value))}
+                    />
+                    <div className="flex items-center space-x-2">
+                        <button
+                            onClick={() =>
+                                player.playing ? player.pause() : player.play()
+                            }
+                            className="px-3 py-1 bg-blue-600 text-white rounded"
+                        >
+                            {player.playing ? "Pause" : "Play"}
+                        </button>
+                        <select
+                            value={player.speed}
+                            onChange={(e) =>
+                                player.setSpeed(Number(e.target.value))
+                            }
+                            className="px-2 py-1 bg-gray-700 text-white rounded"
+                        >
+                            {SPEEDS.map((speed) => (
+                                <option key={speed} value={speed}>
+                                    {speed}x
+                                </option>
+                            ))}
+                        </select>
+                        <span className="text-sm font-mono">
+                            {formatSeconds(player.time)} /{" "}
+                            {formatSeconds(player.duration)}s · {player.applied}
+                            /{player.moves.length} moves
+                        </span>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PerspectiveCamera, Scene, WebGLRenderer } from "three";
+import {
+    DEFAULT_GAMEPAD_MAP,
+    DEFAULT_KEY_MAP,
+    GamepadControl,
+    loadGamepadMap,
+    loadKeyMap,
+} from "./control";
+import { Cube } from "./cube";
+
+/** In-memory stand-in for the browser's localStorage. */
+const store = new Map<string, string>();
+
+beforeEach(() => {
+    store.clear();
+    vi.stubGlobal("localStorage", {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+        removeItem: (key: string) => store.delete(key),
+    });
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe("loadKeyMap", () => {
+    it("reads the saved key map", () => {
+        store.set("rubiksKeyMap", JSON.stringify({ j: "U", f: "U'" }));
+        expect(loadKeyMap()).toEqual({ j: "U", f: "U'" });
+    });
+
+    it.each(["", "null", "{", "[]", '"R"', '{"j":1}'])(
+        "falls back to the default map for %j",
+        (saved) => {
+            store.set("rubiksKeyMap", saved);
+            expect(loadKeyMap()).toBe(DEFAULT_KEY_MAP);
+        }
+    );
+});
+
+describe("loadGamepadMap", () => {
+    it("falls back to the default map when the saved one is corrupt", () => {
+        store.set("rubiksGamepadMap", "{not json");
+        expect(loadGamepadMap()).toBe(DEFAULT_GAMEPAD_MAP);
+    });
+});
+
+describe("GamepadControl.poll", () => {
+    /** The gamepads returned by the mocked `navigator.getGamepads`. */
+    let gamepads: Gamepad[];
+    /** The moves queued on the mocked cube, in order. */
+    let queued: string[];
+
+    /**
+     * Creates a connected gamepad with every button released and the sticks centered.
+     * @param {number} index - The index of the gamepad.
+     * @returns {Gamepad} The gamepad.
+     */
+    const createGamepad = (index: number) =>
+        ({
+            index,
+            connected: true,
+            axes: [0, 0, 0, 0],
+            buttons: Array.from({ length: 16 }, () => ({
+                pressed: false,
+                touched: false,
+                value: 0,
+            })),
+        } as unknown as Gamepad);
+
+    /**
+     * Presses or releases a button of a gamepad.
+     * @param {Gamepad} gamepad - The gamepad.
+     * @param {number} button - The button index.
+     * @param {boolean} pressed - Whether the button is held.
+     */
+    const setButton = (gamepad: Gamepad, button: number, pressed: boolean) => {
+        Object.assign(gamepad.buttons[button], { pressed, value: +pressed });
+    };
+
+    /**
+     * Creates a gamepad control on a mocked cube, without starting its polling loop.
+     * @param {Record<string, string>} [buttonMap] - The button map.
+     * @returns {GamepadControl} The control.
+     */
+    const createControl = (buttonMap?: Record<string, string>) => {
+        const cube = {
+            // Plays every move but the slice moves, as a 2x2x2 would
+            canPlay: (move: string) => !/[MES]/.test(move),
+            queueAlgorithm: (move: string) => {
+                queued.push(move);
+                return Promise.resolve(true);
+            },
+            moves: { flush: vi.fn() },
+            orbit: { rotate: vi.fn(), release: vi.fn() },
+        } as unknown as Cube;
+        return new GamepadControl(
+            new PerspectiveCamera(),
+            new Scene(),
+            { render: vi.fn() } as unknown as WebGLRenderer,
+            cube,
+            buttonMap
+        );
+    };
+
+    beforeEach(() => {
+        gamepads = [createGamepad(0)];
+        queued = [];
+        vi.stubGlobal("navigator", { getGamepads: () => gamepads });
+        // Polls are run by hand, one per simulated frame
+        vi.stubGlobal(
+            "requestAnimationFrame",
+            vi.fn(() => 1)
+        );
+        vi.stubGlobal("cancelAnimationFrame", vi.fn());
+    });
+
+    it("queues the moves of the saved button map", () => {
+        store.set("rubiksGamepadMap", JSON.stringify({ 0: "R", 3: "U2" }));
+        const control = createControl(loadGamepadMap());
+        setButton(gamepads[0], 0, true);
+        setButton(gamepads[0], 3, true);
+        // Button 1 is mapped by default but not in the saved map
+        setButton(gamepads[0], 1, true);
+        control.poll(0);
+        expect(queued).toEqual(["R", "U2"]);
+    });
+
+    it("does not repeat a held button", () => {
+        const control = createControl({ 5: "R" });
+        setButton(gamepads[0], 5, true);
+        for (let frame = 0; frame < 5; frame++) control.poll(frame * 16);
+        expect(queued).toEqual(["R"]);
+    });
+
+    it("queues the move again after the button is released", () => {
+        const control = createControl({ 5: "R" });
+        setButton(gamepads[0], 5, true);
+        control.poll(0);
+        setButton(gamepads[0], 5, false);
+        control.poll(16);
+        setButton(gamepads[0], 5, true);
+        control.poll(32);
+        expect(queued).toEqual(["R", "R"]);
+    });
+
+    it("tracks the buttons of each gamepad separately", () => {
+        gamepads.push(createGamepad(1));
+        const control = createControl({ 0: "F" });
+        setButton(gamepads[0], 0, true);
+        control.poll(0);
+        setButton(gamepads[1], 0, true);
+        control.poll(16);
+        expect(queued).toEqual(["F", "F"]);
+    });
+
+    it("reports layer turns but not whole-cube rotations as turning", async () => {
+        const control = createControl({ 0: "y", 1: "R" });
+        setButton(gamepads[0], 0, true);
+        control.poll(0);
+        expect(queued).toEqual(["y"]);
+        expect(control.turning).toBe(false);
+        setButton(gamepads[0], 1, true);
+        control.poll(16);
+        expect(control.turning).toBe(true);
+        // The mocked cube finishes every move right away
+        await Promise.resolve();
+        expect(control.turning).toBe(false);
+    });
+
+    it("silently skips moves the cube cannot play", () => {
+        const warn = vi.spyOn(console, "warn");
+        const control = createControl({ 0: "M", 1: "R" });
+        setButton(gamepads[0], 0, true);
+        setButton(gamepads[0], 1, true);
+        control.poll(0);
+        expect(queued).toEqual(["R"]);
+        expect(warn).not.toHaveBeenCalled();
+        warn.mockRestore();
+    });
+
+    it("ignores disconnected gamepads", () => {
+        const control = createControl({ 0: "F" });
+        setButton(gamepads[0], 0, true);
+        Object.assign(gamepads[0], { connected: false });
+        control.poll(0);
+        expect(queued).toEqual([]);
+    });
+});
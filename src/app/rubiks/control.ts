@@ -7,12 +7,12 @@ import {
     WebGLRenderer,
 } from "three";
 import { Cube } from "./cube";
-import { rotateAroundWorldAxis } from "./transform";
 import { SquareMesh } from "./square";
 import { setFinish } from "./statusbar";
+import { isRotation, parseAlgorithm } from "./notation";
 
 /**
- * Abstract base class for handling user input (mouse or touch) to interact with the Rubik's Cube.
+ * Abstract base class for handling user input (pointer, keyboard or gamepad) to interact with the Rubik's Cube.
  * It manages the state of interaction, determines the type of interaction (rotating a face or the whole cube),
  * and triggers the corresponding actions on the Cube object.
  */
@@ -39,6 +39,10 @@ abstract class Control {
     }
     /** Raycaster used for detecting intersections between mouse/touch and cube faces. */
     private raycaster = new Raycaster();
+    /** Number of moves from buttons or keys queued on the cube and not finished yet. */
+    private pendingMoves = 0;
+    /** Number of the pending moves that turn some layers rather than the whole cube. */
+    private pendingTurns = 0;
 
     /**
      * Initializes the Control instance.
@@ -59,6 +63,42 @@ abstract class Control {
         this.camera = camera;
     }
 
+    /**
+     * Checks whether a layer turn queued by this control is animating or waiting to be played.
+     * Whole-cube rotations (x, y, z) are not included, and neither are drags; they are tracked by the cube state.
+     * @returns {boolean} True while this control is turning some layers of the cube.
+     */
+    public get turning() {
+        return this.pendingTurns > 0;
+    }
+
+    /**
+     * Queues a move in standard notation on the cube, to be animated once the turns before it have finished.
+     * Used by controls that turn the cube with discrete presses (keys, buttons).
+     * Moves the cube cannot play are ignored, as the same bindings are used for every puzzle.
+     *
+     * @param {string} move - The move to play (e.g. `"R'"` or `"y"`).
+     */
+    protected queueMove(move: string) {
+        // Ignore moves that don't exist on this cube (e.g. a slice move on a 2x2)
+        if (!this.cube.canPlay(move)) return;
+        const queued = this.cube.queueAlgorithm(move);
+        const layerTurn = !parseAlgorithm(move).every(isRotation);
+        this.pendingMoves++;
+        if (layerTurn) this.pendingTurns++;
+        queued.then(() => {
+            this.pendingMoves--;
+            if (layerTurn) this.pendingTurns--;
+        });
+    }
+
+    /**
+     * Completes the moves queued by this control right away, without animation.
+     */
+    protected finishQueuedMoves() {
+        if (this.pendingMoves > 0) this.cube.moves.flush();
+    }
+
     /**
      * Calculates the intersection point between a screen coordinate and the cube's faces.
      * Uses Raycasting to find the closest square mesh under the given screen offset.
@@ -107,7 +147,7 @@ abstract class Control {
     public abstract dispose(): void;
 
     /**
-     * Handles the start of a user interaction (mouse down or touch start).
+     * Handles the start of a user interaction (pointer down).
      * Records the starting position and identifies the interacted square (if any).
      *
      * @param {number} offsetX - The x-coordinate of the interaction start.
@@ -115,9 +155,11 @@ abstract class Control {
      */
     protected operateStart(offsetX: number, offsetY: number) {
         // Prevent starting a new operation if one is already in progress or animating
-        if (this.start || this.lastOperateUnfinish) return;
+        if (this.start || this.lastOperateUnfinish || this.cube.isTurning())
+            return;
 
         this.start = true; // Mark interaction as started
+        this.cube.orbit.stop(); // Catch the cube if it is still gliding
         this.startPos = new Vector2(); // Reset start position
 
         // Find the square intersected at the start position
@@ -132,7 +174,7 @@ abstract class Control {
     }
 
     /**
-     * Handles the dragging motion during a user interaction (mouse move or touch move).
+     * Handles the dragging motion during a user interaction (pointer move).
      * Calculates the rotation angle and axis based on the drag movement.
      * If a square was initially clicked, rotates the corresponding plane.
      * Otherwise, rotates the entire cube.
@@ -166,32 +208,7 @@ abstract class Control {
                 );
             } else {
                 // --- Rotate the whole cube ---
-                const dx = movementX; // Horizontal movement
-                const dy = -movementY; // Vertical movement (inverted Y-axis in screen coordinates)
-                const movementLen = Math.sqrt(dx * dx + dy * dy); // Magnitude of the movement vector
-
-                // Estimate the cube's size on screen to scale rotation speed
-                const cubeSize = this.cube.getCoarseCubeSize(this.camera, {
-                    w: this.domElement.clientWidth,
-                    h: this.domElement.clientHeight,
-                });
-
-                // Calculate rotation angle based on movement length relative to cube size
-                const rotateAngle = (Math.PI * movementLen) / cubeSize;
-
-                // Determine the rotation axis (perpendicular to the movement direction)
-                const moveVect = new Vector2(dx, dy);
-                const rotateDir = moveVect.rotateAround(
-                    new Vector2(0, 0),
-                    Math.PI * 0.5 // Rotate movement vector by 90 degrees
-                );
-
-                // Apply the rotation to the entire cube around the calculated world axis
-                rotateAroundWorldAxis(
-                    this.cube,
-                    new Vector3(rotateDir.x, rotateDir.y, 0),
-                    rotateAngle
-                );
+                this.orbit(movementX, movementY);
             }
             // Re-render the scene to show the rotation
             this.renderer.render(this.scene, this.camera);
@@ -199,7 +216,42 @@ abstract class Control {
     }
 
     /**
-     * Handles the end of a user interaction (mouse up or touch end).
+     * Rotates the whole cube following a movement on the screen, as if rolling it under the finger.
+     *
+     * @param {number} movementX - The horizontal movement in pixels.
+     * @param {number} movementY - The vertical movement in pixels (screen coordinates, pointing down).
+     */
+    protected orbit(movementX: number, movementY: number) {
+        const dx = movementX; // Horizontal movement
+        const dy = -movementY; // Vertical movement (inverted Y-axis in screen coordinates)
+        const movementLen = Math.sqrt(dx * dx + dy * dy); // Magnitude of the movement vector
+        if (movementLen === 0) return;
+
+        // Estimate the cube's size on screen to scale rotation speed
+        const cubeSize = this.cube.getCoarseCubeSize(this.camera, {
+            w: this.domElement.clientWidth,
+            h: this.domElement.clientHeight,
+        });
+
+        // Calculate rotation angle based on movement length relative to cube size
+        const rotateAngle = (Math.PI * movementLen) / cubeSize;
+
+        // Determine the rotation axis (perpendicular to the movement direction)
+        const moveVect = new Vector2(dx, dy);
+        const rotateDir = moveVect.rotateAround(
+            new Vector2(0, 0),
+            Math.PI * 0.5 // Rotate movement vector by 90 degrees
+        );
+
+        // Apply the rotation to the entire cube around the calculated world axis
+        this.cube.orbit.rotate(
+            new Vector3(rotateDir.x, rotateDir.y, 0),
+            rotateAngle
+        );
+    }
+
+    /**
+     * Handles the end of a user interaction (pointer up).
      * If a plane was being rotated, triggers the snapping animation to the nearest 90-degree position.
      * Resets interaction state.
      */
@@ -225,6 +277,9 @@ abstract class Control {
                     }
                 };
                 requestAnimationFrame(animation); // Start the animation loop
+            } else if (this.start) {
+                // If the whole cube was being dragged, let it glide to a stop
+                this.cube.orbit.release();
             }
             // Reset interaction state regardless of whether an animation started
             this.start = false;
@@ -233,13 +288,25 @@ abstract class Control {
     }
 }
 
+/** Smallest camera zoom reachable by pinching. */
+const MIN_ZOOM = 0.5;
+/** Largest camera zoom reachable by pinching. */
+const MAX_ZOOM = 3;
+
 /**
- * Implements user control for the Rubik's Cube using mouse input.
- * Extends the base Control class and adds specific mouse event listeners.
+ * Implements user control for the Rubik's Cube using Pointer Events, for mouse, pen and touch alike.
+ * One pointer turns a layer (or rotates the whole cube when the drag starts on empty space).
+ * Two pointers form a gesture: dragging orbits the whole cube, pinching zooms the camera,
+ * and twisting rotates the cube around the view axis.
  */
-export class MouseControl extends Control {
+export class PointerControl extends Control {
+    /** Current screen position of every pointer that is down, by pointer ID. */
+    private pointers = new Map<number, Vector2>();
+    /** Whether a two-pointer gesture is in progress; single-pointer input is ignored until every pointer is up. */
+    private gesture = false;
+
     /**
-     * Initializes MouseControl, binding event handlers and adding listeners.
+     * Initializes PointerControl, binding event handlers and adding listeners.
      * @param {PerspectiveCamera} camera - The camera viewing the scene.
      * @param {Scene} scene - The scene containing the cube.
      * @param {WebGLRenderer} renderer - The renderer drawing the scene.
@@ -252,149 +319,419 @@ export class MouseControl extends Control {
         cube: Cube
     ) {
         super(camera, scene, renderer, cube);
-        // Bind event handlers to 'this' context to ensure correct scope when called by listeners
-        this.mousedownHandle = this.mousedownHandle.bind(this);
-        this.mouseupHandle = this.mouseupHandle.bind(this);
-        this.mousemoveHandle = this.mousemoveHandle.bind(this);
-        this.mouseoutHandle = this.mouseoutHandle.bind(this);
-        this.init(); // Add event listeners
+        // Bind event handlers
+        this.pointerdownHandle = this.pointerdownHandle.bind(this);
+        this.pointermoveHandle = this.pointermoveHandle.bind(this);
+        this.pointerupHandle = this.pointerupHandle.bind(this);
+        this.init(); // Add listeners
     }
 
-    /** Handles the mouse down event. */
-    public mousedownHandle(event: MouseEvent) {
-        event.preventDefault(); // Prevent default browser actions (e.g., text selection)
-        this.operateStart(event.offsetX, event.offsetY); // Call base class start handler
+    /** Handles the pointer down event. */
+    public pointerdownHandle(event: PointerEvent) {
+        event.preventDefault();
+        // Keep receiving this pointer's events even when it leaves the canvas
+        this.domElement.setPointerCapture(event.pointerId);
+        this.pointers.set(
+            event.pointerId,
+            new Vector2(event.offsetX, event.offsetY)
+        );
+
+        if (this.pointers.size === 1 && !this.gesture) {
+            this.operateStart(event.offsetX, event.offsetY);
+        } else if (this.pointers.size === 2) {
+            // A second finger turns the drag into a gesture; let any layer turn snap into place
+            this.operateEnd();
+            this.gesture = true;
+        }
     }
 
-    /** Handles the mouse up event. */
-    public mouseupHandle(event: MouseEvent) {
+    /** Handles the pointer move event. */
+    public pointermoveHandle(event: PointerEvent) {
+        const last = this.pointers.get(event.pointerId);
+        if (!last) return;
         event.preventDefault();
-        this.operateEnd(); // Call base class end handler
+        const pos = new Vector2(event.offsetX, event.offsetY);
+
+        if (!this.gesture) {
+            this.operateDrag(pos.x, pos.y, pos.x - last.x, pos.y - last.y);
+            this.pointers.set(event.pointerId, pos);
+            return;
+        }
+
+        // Compare the pair of pointers before and after this move
+        const other = [...this.pointers.entries()].find(
+            ([id]) => id !== event.pointerId
+        );
+        this.pointers.set(event.pointerId, pos);
+        if (!other) return;
+        this.applyGesture(last, pos, other[1]);
     }
 
-    /** Handles the mouse out event (when mouse leaves the canvas). */
-    public mouseoutHandle(event: MouseEvent) {
+    /** Handles the pointer up and pointer cancel events. */
+    public pointerupHandle(event: PointerEvent) {
+        if (!this.pointers.delete(event.pointerId)) return;
         event.preventDefault();
-        this.operateEnd(); // Treat mouse out like mouse up to finish any ongoing operation
+        if (!this.gesture) {
+            this.operateEnd();
+        } else if (this.pointers.size === 0) {
+            // The gesture is over; let the cube glide to a stop
+            this.gesture = false;
+            this.cube.orbit.release();
+        }
     }
 
-    /** Handles the mouse move event. */
-    public mousemoveHandle(event: MouseEvent) {
-        event.preventDefault();
-        // Call base class drag handler with current position and movement delta
-        this.operateDrag(
-            event.offsetX,
-            event.offsetY,
-            event.movementX,
-            event.movementY
-        );
+    /**
+     * Applies one step of a two-pointer gesture, in which one pointer moved and the other stayed.
+     *
+     * @param {Vector2} from - The previous position of the pointer that moved.
+     * @param {Vector2} to - The new position of the pointer that moved.
+     * @param {Vector2} other - The position of the other pointer.
+     */
+    private applyGesture(from: Vector2, to: Vector2, other: Vector2) {
+        // Orbit: the midpoint between the pointers moves by half of the movement
+        this.orbit((to.x - from.x) / 2, (to.y - from.y) / 2);
+
+        // Pinch: scale the zoom by the change of distance between the pointers
+        const fromDist = from.distanceTo(other);
+        const toDist = to.distanceTo(other);
+        if (fromDist > 0 && toDist > 0) {
+            this.camera.zoom = Math.min(
+                MAX_ZOOM,
+                Math.max(MIN_ZOOM, (this.camera.zoom * toDist) / fromDist)
+            );
+            this.camera.updateProjectionMatrix();
+        }
+
+        // Twist: rotate around the view axis by the change of angle between the pointers
+        // (screen Y points down, so the angles are negated to be counter-clockwise in world space)
+        const fromAngle = Math.atan2(from.y - other.y, from.x - other.x);
+        const toAngle = Math.atan2(to.y - other.y, to.x - other.x);
+        let twist = fromAngle - toAngle;
+        if (twist > Math.PI) twist -= Math.PI * 2;
+        if (twist < -Math.PI) twist += Math.PI * 2;
+        if (twist !== 0) {
+            this.cube.orbit.rotate(new Vector3(0, 0, 1), twist);
+        }
+
+        this.renderer.render(this.scene, this.camera);
     }
 
-    /** Adds mouse event listeners to the renderer's DOM element. */
+    /** Adds pointer event listeners to the renderer's DOM element. */
     public init(): void {
-        this.domElement.addEventListener("mousedown", this.mousedownHandle);
-        this.domElement.addEventListener("mouseup", this.mouseupHandle);
-        this.domElement.addEventListener("mousemove", this.mousemoveHandle);
-        this.domElement.addEventListener("mouseout", this.mouseoutHandle);
+        // Keep the browser from scrolling or zooming the page on touch gestures
+        this.domElement.style.touchAction = "none";
+        this.domElement.addEventListener("pointerdown", this.pointerdownHandle);
+        this.domElement.addEventListener("pointermove", this.pointermoveHandle);
+        this.domElement.addEventListener("pointerup", this.pointerupHandle);
+        this.domElement.addEventListener("pointercancel", this.pointerupHandle);
     }
 
-    /** Removes mouse event listeners. */
+    /** Removes pointer event listeners. */
     public dispose(): void {
-        this.domElement.removeEventListener("mousedown", this.mousedownHandle);
-        this.domElement.removeEventListener("mouseup", this.mouseupHandle);
-        this.domElement.removeEventListener("mousemove", this.mousemoveHandle);
-        this.domElement.removeEventListener("mouseout", this.mouseoutHandle);
+        this.domElement.removeEventListener(
+            "pointerdown",
+            this.pointerdownHandle
+        );
+        this.domElement.removeEventListener(
+            "pointermove",
+            this.pointermoveHandle
+        );
+        this.domElement.removeEventListener("pointerup", this.pointerupHandle);
+        this.domElement.removeEventListener(
+            "pointercancel",
+            this.pointerupHandle
+        );
+        this.pointers.clear();
+        this.gesture = false;
     }
 }
 
 /**
- * Implements user control for the Rubik's Cube using touch input.
- * Extends the base Control class and adds specific touch event listeners.
+ * Default key-to-move map for `KeyboardControl`, following the qwerty layout used by common
+ * online cube timers: the right hand turns R, U and F on I/K, J/F and H/G, the left hand turns
+ * L, B and D on D/E, W/O and S/L, and the outer keys rotate the whole cube.
+ * Keys are `KeyboardEvent.key` values in lower case.
  */
-export class TouchControl extends Control {
-    /** Stores the position of the last touch event for calculating movement delta. */
-    private lastPos: Vector2 | undefined;
+export const DEFAULT_KEY_MAP: Readonly<Record<string, string>> = {
+    i: "R",
+    k: "R'",
+    d: "L",
+    e: "L'",
+    j: "U",
+    f: "U'",
+    s: "D",
+    l: "D'",
+    h: "F",
+    g: "F'",
+    w: "B",
+    o: "B'",
+    u: "r",
+    m: "r'",
+    v: "l",
+    r: "l'",
+    5: "M",
+    6: "M",
+    x: "M'",
+    ".": "M'",
+    t: "x",
+    y: "x",
+    b: "x'",
+    n: "x'",
+    ";": "y",
+    a: "y'",
+    p: "z",
+    q: "z'",
+};
+
+/**
+ * Reads a map of inputs to moves (e.g. keys or gamepad buttons) from localStorage.
+ * @param {string} storageKey - The localStorage key the map is saved under.
+ * @param {Readonly<Record<string, string>>} defaults - The map used when none is saved or it cannot be read.
+ * @returns {Readonly<Record<string, string>>} The saved map, or the defaults.
+ */
+export const loadBindings = (
+    storageKey: string,
+    defaults: Readonly<Record<string, string>>
+): Readonly<Record<string, string>> => {
+    if (typeof localStorage === "undefined") return defaults;
+    try {
+        const saved = JSON.parse(localStorage.getItem(storageKey) || "null");
+        const valid =
+            !!saved &&
+            typeof saved === "object" &&
+            !Array.isArray(saved) &&
+            Object.values(saved).every((move) => typeof move === "string");
+        return valid ? saved : defaults;
+    } catch {
+        return defaults;
+    }
+};
+
+/**
+ * Reads the keyboard layout from localStorage.
+ * @returns {Readonly<Record<string, string>>} The saved key-to-move map, or `DEFAULT_KEY_MAP`.
+ */
+export const loadKeyMap = () => loadBindings("rubiksKeyMap", DEFAULT_KEY_MAP);
+
+/**
+ * Implements user control for the Rubik's Cube using the keyboard.
+ * Each key in the key map turns the cube by one move in standard notation (layers, wide moves,
+ * slices and whole-cube rotations). Keys pressed while a turn is animating are queued and
+ * played in order, so fast sequences are never dropped.
+ */
+export class KeyboardControl extends Control {
+    /** Maps lower-case `KeyboardEvent.key` values to moves in standard notation. */
+    private keyMap: Record<string, string>;
 
     /**
-     * Initializes TouchControl, binding event handlers and adding listeners.
+     * Initializes KeyboardControl, binding event handlers and adding listeners.
      * @param {PerspectiveCamera} camera - The camera viewing the scene.
      * @param {Scene} scene - The scene containing the cube.
      * @param {WebGLRenderer} renderer - The renderer drawing the scene.
      * @param {Cube} cube - The Rubik's Cube instance.
+     * @param {Record<string, string>} [keyMap=DEFAULT_KEY_MAP] - Maps keys to moves in standard notation.
      */
     constructor(
         camera: PerspectiveCamera,
         scene: Scene,
         renderer: WebGLRenderer,
-        cube: Cube
+        cube: Cube,
+        keyMap: Record<string, string> = DEFAULT_KEY_MAP
     ) {
         super(camera, scene, renderer, cube);
+        this.keyMap = keyMap;
         // Bind event handlers
-        this.touchStart = this.touchStart.bind(this);
-        this.touchMove = this.touchMove.bind(this);
-        this.touchEnd = this.touchEnd.bind(this);
+        this.keydownHandle = this.keydownHandle.bind(this);
         this.init(); // Add listeners
     }
 
-    /** Handles the touch start event. */
-    public touchStart(event: TouchEvent) {
-        event.preventDefault(); // Prevent default browser actions (e.g., scrolling)
-        const touches = event.touches;
-        // Handle single touch events
-        if (touches.length === 1) {
-            const touch = touches[0];
-            // Record the starting touch position
-            this.lastPos = new Vector2(touch.pageX, touch.pageY);
-            // Call base class start handler
-            this.operateStart(touch.pageX, touch.pageY);
-        }
+    /**
+     * Replaces the key map. Moves already queued are still played.
+     * @param {Record<string, string>} keyMap - Maps keys to moves in standard notation.
+     */
+    public setKeyMap(keyMap: Record<string, string>) {
+        this.keyMap = keyMap;
     }
 
-    /** Handles the touch move event. */
-    public touchMove(event: TouchEvent) {
+    /** Handles the key down event. */
+    public keydownHandle(event: KeyboardEvent) {
+        // Leave shortcuts (e.g. Ctrl+Z) and held-down keys alone
+        if (event.ctrlKey || event.metaKey || event.altKey || event.repeat)
+            return;
+        // Don't turn the cube while the user is typing in a form field
+        const target = event.target as HTMLElement | null;
+        if (
+            target &&
+            (target.isContentEditable ||
+                ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+        )
+            return;
+
+        const move = this.keyMap[event.key.toLowerCase()];
+        if (!move) return;
         event.preventDefault();
-        const touches = event.touches;
-        // Handle single touch movement
-        if (touches.length === 1 && this.lastPos) {
-            const touch = touches[0];
-            // Call base class drag handler with current position and calculated movement delta
-            this.operateDrag(
-                touch.pageX,
-                touch.pageY,
-                touch.pageX - this.lastPos.x, // Calculate movementX
-                touch.pageY - this.lastPos.y // Calculate movementY
-            );
-            // Update the last known position for the next move event
-            this.lastPos = new Vector2(touch.pageX, touch.pageY);
-        }
+        this.queueMove(move);
     }
 
-    /** Handles the touch end event. */
-    public touchEnd(event: TouchEvent) {
-        event.preventDefault();
-        this.lastPos = undefined; // Clear the last position
-        this.operateEnd(); // Call base class end handler
+    /** Adds the key event listener to the window, so the canvas doesn't need focus. */
+    public init(): void {
+        window.addEventListener("keydown", this.keydownHandle);
     }
 
-    /** Adds touch event listeners to the renderer's DOM element. */
+    /** Removes the key event listener and completes any queued moves. */
+    public dispose(): void {
+        window.removeEventListener("keydown", this.keydownHandle);
+        this.finishQueuedMoves();
+    }
+}
+
+/**
+ * Default button-to-move map for `GamepadControl`, using the indices of the standard gamepad layout:
+ * bumpers and triggers turn R and L, face buttons turn U and F, stick presses turn D,
+ * Back/Start turn B and the D-pad rotates the whole cube.
+ */
+export const DEFAULT_GAMEPAD_MAP: Readonly<Record<string, string>> = {
+    0: "F", // A / Cross
+    1: "F'", // B / Circle
+    2: "U'", // X / Square
+    3: "U", // Y / Triangle
+    4: "L'", // Left bumper
+    5: "R", // Right bumper
+    6: "L", // Left trigger
+    7: "R'", // Right trigger
+    8: "B'", // Back / Select
+    9: "B", // Start
+    10: "D", // Left stick press
+    11: "D'", // Right stick press
+    12: "x", // D-pad up
+    13: "x'", // D-pad down
+    14: "y", // D-pad left
+    15: "y'", // D-pad right
+};
+
+/**
+ * Reads the gamepad button layout from localStorage.
+ * @returns {Readonly<Record<string, string>>} The saved button-to-move map, or `DEFAULT_GAMEPAD_MAP`.
+ */
+export const loadGamepadMap = () =>
+    loadBindings("rubiksGamepadMap", DEFAULT_GAMEPAD_MAP);
+
+/** Stick deflection below which the stick is treated as centered. */
+const STICK_DEAD_ZONE = 0.15;
+/** Whole-cube rotation speed at full stick deflection, in radians per millisecond. */
+const STICK_ORBIT_SPEED = Math.PI / 1000;
+
+/**
+ * Implements user control for the Rubik's Cube using gamepads through the Gamepad API.
+ * Buttons (including analog triggers) turn layers as configured in the button map, queued like
+ * key presses; both analog sticks orbit the whole cube. The API has no button events, so the
+ * connected gamepads are polled on every animation frame.
+ */
+export class GamepadControl extends Control {
+    /** Maps standard gamepad button indices (as strings) to moves in standard notation. */
+    private buttonMap: Record<string, string>;
+    /** Pressed state of every button in the previous poll, by gamepad index, to detect new presses. */
+    private pressed = new Map<number, boolean[]>();
+    /** ID returned by requestAnimationFrame for the polling loop. */
+    private frameId: number | null = null;
+    /** Timestamp of the previous poll. */
+    private lastPoll: number | null = null;
+    /** Whether a stick was orbiting the cube in the previous poll. */
+    private orbiting = false;
+
+    /**
+     * Initializes GamepadControl and starts polling.
+     * @param {PerspectiveCamera} camera - The camera viewing the scene.
+     * @param {Scene} scene - The scene containing the cube.
+     * @param {WebGLRenderer} renderer - The renderer drawing the scene.
+     * @param {Cube} cube - The Rubik's Cube instance.
+     * @param {Record<string, string>} [buttonMap=DEFAULT_GAMEPAD_MAP] - Maps button indices to moves in standard notation.
+     */
+    constructor(
+        camera: PerspectiveCamera,
+        scene: Scene,
+        renderer: WebGLRenderer,
+        cube: Cube,
+        buttonMap: Record<string, string> = DEFAULT_GAMEPAD_MAP
+    ) {
+        super(camera, scene, renderer, cube);
+        this.buttonMap = buttonMap;
+        // Bind the polling loop
+        this.poll = this.poll.bind(this);
+        this.init(); // Start polling
+    }
+
+    /**
+     * Replaces the button map. Moves already queued are still played.
+     * @param {Record<string, string>} buttonMap - Maps button indices to moves in standard notation.
+     */
+    public setButtonMap(buttonMap: Record<string, string>) {
+        this.buttonMap = buttonMap;
+    }
+
+    /**
+     * Reads every connected gamepad once: queues the moves of newly pressed buttons
+     * and orbits the cube by the stick deflection.
+     *
+     * @param {number} now - The frame timestamp from requestAnimationFrame.
+     */
+    public poll(now: number) {
+        const elapsed = this.lastPoll !== null ? now - this.lastPoll : 0;
+        this.lastPoll = now;
+
+        const gamepads =
+            typeof navigator !== "undefined" && navigator.getGamepads
+                ? navigator.getGamepads()
+                : [];
+        let orbited = false;
+        for (const gamepad of gamepads) {
+            if (!gamepad || !gamepad.connected) continue;
+
+            // Buttons: act on the transition from released to pressed only
+            const previous = this.pressed.get(gamepad.index) || [];
+            const current = gamepad.buttons.map((button) => button.pressed);
+            current.forEach((isPressed, i) => {
+                const move = this.buttonMap[i];
+                if (isPressed && !previous[i] && move) this.queueMove(move);
+            });
+            this.pressed.set(gamepad.index, current);
+
+            // Sticks: axes 0/1 are the left stick and 2/3 the right stick (Y pointing down)
+            for (
+                let axis = 0;
+                axis + 1 < gamepad.axes.length && axis < 4;
+                axis += 2
+            ) {
+                const x = gamepad.axes[axis];
+                const y = gamepad.axes[axis + 1];
+                const deflection = Math.min(1, Math.sqrt(x * x + y * y));
+                if (deflection < STICK_DEAD_ZONE || elapsed === 0) continue;
+                // Roll the cube towards the stick direction, as a drag on empty space would
+                this.cube.orbit.rotate(
+                    new Vector3(y, x, 0),
+                    deflection * STICK_ORBIT_SPEED * elapsed
+                );
+                orbited = true;
+            }
+        }
+        if (orbited) this.renderer.render(this.scene, this.camera);
+        // Let the cube glide to a stop once the sticks are back in the center
+        else if (this.orbiting) this.cube.orbit.release();
+        this.orbiting = orbited;
+
+        this.frameId = requestAnimationFrame(this.poll);
+    }
+
+    /** Starts the polling loop. */
     public init(): void {
-        // Use passive: false if preventDefault is called inside the handler
-        this.domElement.addEventListener("touchstart", this.touchStart, {
-            passive: false,
-        });
-        this.domElement.addEventListener("touchmove", this.touchMove, {
-            passive: false,
-        });
-        this.domElement.addEventListener("touchend", this.touchEnd, {
-            passive: false,
-        });
+        this.frameId = requestAnimationFrame(this.poll);
     }
 
-    /** Removes touch event listeners. */
+    /** Stops the polling loop and completes any queued moves. */
     public dispose(): void {
-        this.domElement.removeEventListener("touchstart", this.touchStart);
-        this.domElement.removeEventListener("touchmove", this.touchMove);
-        this.domElement.removeEventListener("touchend", this.touchEnd);
+        if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+        this.frameId = null;
+        this.finishQueuedMoves();
     }
 }
 
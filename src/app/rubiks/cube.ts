@@ -1,10 +1,24 @@
 import { Camera, Color, Group, Matrix4, Vector2, Vector3 } from "three";
 import { setFinish } from "./statusbar";
-import { getAngleBetweenTwoVector2, equalDirection } from "./math";
+import { getAngleBetweenTwoVector2 } from "./math";
 import { ndcToScreen } from "./transform";
-import CubeData from "./cubeData";
-import CubeState, { RotateDirection } from "./cubeState";
-import { createSquare, SquareMesh } from "./square";
+import CubeData, { CubeElement } from "./cubeData";
+import { Axis, Sticker, Vec3 } from "./cubeModel";
+import {
+    formatMove,
+    LayerTurn,
+    Move,
+    parseAlgorithm,
+    resolveMove,
+} from "./notation";
+import { generateScramble } from "./scramble";
+import { createRandom } from "./random";
+import CubeState, { RotateDirection, SolveMode } from "./cubeState";
+import { createSquare, ImageLayout, ImageTile, SquareMesh } from "./square";
+import Orbit, { HOME_VIEW } from "./orbit";
+import MoveQueue, { TurnAnimation, TurnOptions } from "./moveQueue";
+import { EASINGS, linear } from "./easing";
+import { CubeTheme, DEFAULT_THEME } from "./theme";
 
 /**
  * Calculates a temporary position slightly offset from the square's center along its normal.
@@ -26,6 +40,18 @@ const getTemPos = (square: SquareMesh, squareSize: number) => {
     return pos.add(moveVect);
 };
 
+/**
+ * Builds a key identifying a square's place on the cube: its position (a multiple of half a square)
+ * and the face it points to. Rounding absorbs the floating-point error of rotations.
+ * @param {Vector3} pos - The square's position.
+ * @param {Vector3} normal - The square's normal.
+ * @returns {string} The key.
+ */
+const getPlaceKey = (pos: Vector3, normal: Vector3) =>
+    [pos.x * 2, pos.y * 2, pos.z * 2, normal.x, normal.y, normal.z]
+        .map(Math.round)
+        .join(",");
+
 /**
  * Represents the Rubik's Cube as a 3D object in the scene.
  * Extends Three.js Group to hold all the individual square meshes.
@@ -35,10 +61,18 @@ const getTemPos = (square: SquareMesh, squareSize: number) => {
 export class Cube extends Group {
     /** Optional URL for the image texture applied to the cube faces. */
     private imageUrl?: string;
+    /** How the image is laid out: on every sticker, or sliced across each face. */
+    private imageLayout: ImageLayout;
+    /** The face colors and the optional image of each face. */
+    private theme: Readonly<CubeTheme>;
     /** Manages the underlying data structure (colors, positions) of the cube elements. */
     private data: CubeData;
     /** Manages the current state of the cube, including rotation status and solved validation. */
     public state!: CubeState;
+    /** Rotates the whole cube with momentum and snaps it back to a standard view. */
+    public readonly orbit: Orbit;
+    /** Serializes animated layer turns; every animated turn of the cube goes through it. */
+    public readonly moves: MoveQueue;
     /**
      * Gets all the SquareMesh objects that make up the cube.
      * @returns {SquareMesh[]} An array of square meshes.
@@ -48,13 +82,21 @@ export class Cube extends Group {
     }
 
     /**
-     * Gets the order (size) of the cube (e.g., 3 for a 3x3x3 cube).
+     * Gets the order (size) of the cube (e.g., 3 for a 3x3x3 cube); the largest dimension of a cuboid.
      * @returns {number} The order of the cube.
      */
     public get order() {
         return this.data.cubeOrder;
     }
 
+    /**
+     * Gets the number of layers along X, Y and Z (all equal for a cube).
+     * @returns {Vec3} The dimensions of the puzzle.
+     */
+    public get dims() {
+        return this.data.dims;
+    }
+
     /**
      * Gets the size of a single square element on the cube face.
      * @returns {number} The size of a square.
@@ -63,30 +105,61 @@ export class Cube extends Group {
         return this.data.elementSize;
     }
 
+    /**
+     * Gets the headless cubie-level model that mirrors this cube.
+     * @returns {CubeModel} The cube model.
+     */
+    public get model() {
+        return this.data.model;
+    }
+
     /**
      * Checks if the cube is currently in a solved state.
      * @returns {boolean} True if the cube is solved, false otherwise.
      */
     public get finish() {
-        return this.state.validateFinish();
+        const withImage = this.getFaceImages().some(Boolean);
+        return this.state.validateFinish(
+            this.solveMode,
+            withImage,
+            withImage && this.imageLayout.mode === "picture"
+        );
     }
 
     /**
      * Creates a new Cube instance.
-     * @param {number} [order=3] - The order of the cube (e.g., 3 for 3x3x3).
+     * @param {number | Vec3} [size=3] - The order of the cube (e.g., 3 for 3x3x3), or the layers along X, Y and Z of a cuboid.
      * @param {string} [imageUrl] - Optional URL for an image texture to apply to faces.
+     * @param {ImageLayout} [imageLayout] - How the image is laid out. Defaults to the whole image on every sticker.
+     * @param {CubeTheme} [theme] - The face colors and images. Defaults to the classic colors without images.
+     * @param {boolean} [persistent=true] - Whether the state is loaded from and saved to localStorage.
      */
-    public constructor(order = 3, imageUrl?: string) {
+    public constructor(
+        size: number | Vec3 = 3,
+        imageUrl?: string,
+        imageLayout: ImageLayout = { mode: "sticker" },
+        theme: Readonly<CubeTheme> = DEFAULT_THEME,
+        persistent = true
+    ) {
         super();
 
         this.imageUrl = imageUrl;
-        this.data = new CubeData(order); // Initialize cube data structure
+        this.imageLayout = imageLayout;
+        this.theme = theme;
+        this.data = new CubeData(size, theme.colors, persistent); // Initialize cube data structure
 
         this.createChildrenByData(); // Create the visual square meshes
 
         // Initial rotation for better viewing angle
-        this.rotateX(Math.PI * 0.25);
-        this.rotateY(Math.PI * 0.25);
+        this.quaternion.copy(HOME_VIEW);
+        this.orbit = new Orbit(this);
+        this.moves = new MoveQueue({
+            // Queued turns wait for a layer dragged by the user to snap into place
+            canBegin: () => !this.state.inRotation,
+            begin: (turn) => this.beginQueuedTurn(turn),
+            update: (progress) => this.updateQueuedTurn(progress),
+            end: (turn, options, parts) => this.endQueuedTurn(options, parts),
+        });
         setFinish(this.finish); // Update the status bar initially
     }
 
@@ -97,18 +170,87 @@ export class Cube extends Group {
     private createChildrenByData() {
         this.remove(...this.children); // Clear existing squares if any
 
+        // Each square shows the image of its sticker's face; on a picture cube, only the sticker's tile of it
+        const faceImages = this.getFaceImages();
+        const picture = this.imageLayout.mode === "picture";
+        const stickers = new Map<string, Sticker>();
+        if (faceImages.some(Boolean)) {
+            this.data.model
+                .getStickers()
+                .forEach((sticker) =>
+                    stickers.set(
+                        `${sticker.pos.join(",")}|${sticker.normal.join(",")}`,
+                        sticker
+                    )
+                );
+        }
+
         // Create a SquareMesh for each element defined in CubeData
         for (let i = 0; i < this.data.elements.length; i++) {
-            const square = createSquare(
-                new Color(this.data.elements[i].color),
-                this.data.elements[i],
-                this.imageUrl
-            );
+            const element = this.data.elements[i];
+            const sticker = stickers.get(this.getStickerKey(element));
+            const square = sticker
+                ? createSquare(
+                      new Color(element.color),
+                      element,
+                      faceImages[sticker.color] || undefined,
+                      picture ? this.getImageTile(sticker) : undefined
+                  )
+                : createSquare(new Color(element.color), element);
             this.add(square);
         }
 
         // Initialize the state manager with the newly created squares
-        this.state = new CubeState(this.squares);
+        this.state = new CubeState(this.data.model);
+    }
+
+    /**
+     * Lists the image shown on each face: the face's picture on a picture cube, else the theme's image
+     * of the face, else the selected image.
+     * @returns {string[]} One URL per face, indexed by `Face` ("" for a plain face).
+     */
+    private getFaceImages() {
+        return Array.from(
+            { length: 6 },
+            (_, face) =>
+                (this.imageLayout.mode === "picture"
+                    ? this.imageLayout.faces?.[face]
+                    : undefined) ??
+                (this.theme.images?.[face] || this.imageUrl || "")
+        );
+    }
+
+    /**
+     * Builds the key of the model sticker in a square's place: its cubie position and its normal.
+     * @param {CubeElement} element - The square's data.
+     * @returns {string} The key, matching stickers listed by the model.
+     */
+    private getStickerKey(element: CubeElement) {
+        const half = this.data.elementSize * 0.5;
+        // Step back from the face to the cubie center, in doubled coordinates
+        const pos = element.pos
+            .clone()
+            .sub(element.normal.clone().multiplyScalar(half))
+            .divideScalar(half)
+            .round();
+        const normal = element.normal.clone().round();
+        return `${pos.x},${pos.y},${pos.z}|${normal.x},${normal.y},${normal.z}`;
+    }
+
+    /**
+     * Finds the part of its face's picture a sticker shows.
+     * @param {Sticker} sticker - The sticker.
+     * @returns {ImageTile} The tile, in texture coordinates.
+     */
+    private getImageTile(sticker: Sticker): ImageTile {
+        const { column, row, columns, rows } =
+            this.data.model.getStickerTile(sticker);
+        return {
+            u: column / columns,
+            v: row / rows,
+            width: 1 / columns,
+            height: 1 / rows,
+        };
     }
 
     /**
@@ -325,7 +467,8 @@ export class Cube extends Group {
     }
 
     /**
-     * Returns an animation function that snaps the currently rotating plane to the nearest 90-degree position.
+     * Returns an animation function that snaps the currently rotating plane to the nearest 90-degree position
+     * (180-degree position for a plane of a cuboid that is not square).
      * This is called when the user releases the mouse/touch after dragging a plane.
      *
      * @returns {(tick: number) => boolean} An animation function. It takes the current time (tick)
@@ -334,47 +477,42 @@ export class Cube extends Group {
     public getAfterRotateAnimation() {
         // Calculate the remaining angle needed to reach the nearest 90-degree snap position
         const needRotateAnglePI = this.getNeededRotateAngle();
-        // Define rotation speed (radians per millisecond)
-        const rotateSpeed = (Math.PI * 0.5) / 500; // 90 degrees in 500ms
-        let rotatedAngle = 0; // Track how much has been rotated in this animation
-        let lastTick: number; // Timestamp of the last frame
+        // A snap takes the part of a turn's duration matching the part of a quarter turn left
+        const duration =
+            (this.moves.duration * Math.abs(needRotateAnglePI)) /
+            (Math.PI * 0.5);
+        const easing = this.moves.easing;
+        let shownAngle = 0; // Track how much has been rotated in this animation
+        let startTick: number | undefined; // Timestamp of the first frame
 
         // The animation function passed to requestAnimationFrame
         const rotateTick = (tick: number): boolean => {
-            if (!lastTick) lastTick = tick; // Initialize lastTick on first frame
-            const time = tick - lastTick; // Time elapsed since last frame
-            lastTick = tick;
-
-            // Continue animation as long as the rotated angle is less than the needed angle
-            if (rotatedAngle < Math.abs(needRotateAnglePI)) {
-                // Calculate rotation for this frame, ensuring not to overshoot
-                let curAngle = time * rotateSpeed;
-                if (rotatedAngle + curAngle > Math.abs(needRotateAnglePI)) {
-                    curAngle = Math.abs(needRotateAnglePI) - rotatedAngle;
-                }
-                rotatedAngle += curAngle;
-                // Apply sign based on the direction of the needed rotation
-                curAngle = needRotateAnglePI > 0 ? curAngle : -curAngle;
-
-                // Create rotation matrix for this frame's angle
-                const rotateMat = new Matrix4();
-                rotateMat.makeRotationAxis(
-                    this.state.rotateAxisLocal!,
-                    curAngle
-                );
+            if (startTick === undefined) startTick = tick; // Initialize on first frame
+            const progress =
+                duration > 0 ? Math.min(1, (tick - startTick) / duration) : 1;
+
+            // Rotate from the angle shown so far to the eased angle for this frame
+            const angle =
+                needRotateAnglePI * (progress < 1 ? easing(progress) : 1);
+            const rotateMat = new Matrix4();
+            rotateMat.makeRotationAxis(
+                this.state.rotateAxisLocal!,
+                angle - shownAngle
+            );
+            shownAngle = angle;
 
-                // Apply rotation to all active squares
-                for (let i = 0; i < this.state.activeSquares.length; i++) {
-                    this.state.activeSquares[i].applyMatrix4(rotateMat);
-                    this.state.activeSquares[i].updateMatrix();
-                }
-                return true; // Animation continues
-            } else {
-                // Animation finished
-                this.updateStateAfterRotate(); // Finalize the state update (positions, normals)
-                this.data.saveDataToLocal(); // Persist the new cube state
-                return false; // Animation stops
+            // Apply rotation to all active squares
+            for (let i = 0; i < this.state.activeSquares.length; i++) {
+                this.state.activeSquares[i].applyMatrix4(rotateMat);
+                this.state.activeSquares[i].updateMatrix();
             }
+
+            if (progress < 1) return true; // Animation continues
+
+            // Animation finished
+            this.updateStateAfterRotate(); // Finalize the state update (positions, normals)
+            this.data.saveDataToLocal(); // Persist the new cube state
+            return false; // Animation stops
         };
 
         return rotateTick;
@@ -383,8 +521,10 @@ export class Cube extends Group {
     /**
      * Updates the internal state (positions and normals) of the squares involved in the last rotation.
      * This is called after the snapping animation completes to ensure data consistency.
+     *
+     * @param {LayerTurn[]} [parts] - The queued turns merged into the rotation, recorded in its place.
      */
-    private updateStateAfterRotate() {
+    private updateStateAfterRotate(parts?: LayerTurn[]) {
         // Calculate the total rotation applied, including the final snap
         const needRotateAnglePI = this.getNeededRotateAngle();
         this.state.rotateAnglePI += needRotateAnglePI;
@@ -392,6 +532,7 @@ export class Cube extends Group {
         // Calculate the effective rotation angle modulo 360 degrees (2 * PI)
         const angleRelative360PI = this.state.rotateAnglePI % (Math.PI * 2);
 
+        let turn: LayerTurn | undefined;
         // If there was a significant net rotation (more than a small tolerance)
         if (Math.abs(angleRelative360PI) > 0.1) {
             // Create a matrix for the total effective rotation
@@ -401,61 +542,158 @@ export class Cube extends Group {
                 angleRelative360PI
             );
 
-            // Store the target normal and position for each rotated square
-            const pn: { nor: Vector3; pos: Vector3 }[] = [];
+            // Store the target normal, position and up direction for each rotated square
+            const pn: { nor: Vector3; pos: Vector3; up: Vector3 }[] = [];
+
+            // Index the squares by place, so each rotated square finds its target in one lookup
+            // (a whole-cube turn of a 10x10x10 moves 600 squares)
+            const places = new Map<string, CubeElement>();
+            for (let i = 0; i < this.state.activeSquares.length; i++) {
+                const { element } = this.state.activeSquares[i];
+                places.set(getPlaceKey(element.pos, element.normal), element);
+            }
 
-            // Calculate the final theoretical position and normal for each active square
+            // Calculate the final theoretical position, normal and up direction for each active square
             for (let i = 0; i < this.state.activeSquares.length; i++) {
                 const nor = this.state.activeSquares[i].element.normal.clone();
                 const pos = this.state.activeSquares[i].element.pos.clone();
+                const up = this.state.activeSquares[i].element.up.clone();
 
                 // Apply the total rotation matrix
                 nor.applyMatrix4(rotateMat2);
                 pos.applyMatrix4(rotateMat2);
+                // The up direction has no stored counterpart to snap to, so round it to the axis
+                up.applyMatrix4(rotateMat2).round();
 
                 // Find the original square data that corresponds to this new position/normal
                 // This maps the rotated square back to its logical position in the CubeData
-                for (let j = 0; j < this.state.activeSquares.length; j++) {
-                    const nor2 =
-                        this.state.activeSquares[j].element.normal.clone();
-                    const pos2 =
-                        this.state.activeSquares[j].element.pos.clone();
-                    // Check for equality using direction and distance (within tolerance)
-                    if (
-                        equalDirection(nor, nor2) &&
-                        pos.distanceTo(pos2) < 0.1
-                    ) {
-                        pn.push({ nor: nor2, pos: pos2 });
-                    }
+                const target = places.get(getPlaceKey(pos, nor));
+                if (target) {
+                    pn.push({
+                        nor: target.normal.clone(),
+                        pos: target.pos.clone(),
+                        up,
+                    });
                 }
             }
 
-            // Update the element data (normal and position) for each active square
+            // Mirror the turn in the headless model before the element data changes
+            turn = this.recordLayerTurn(
+                this.state.rotateAxisLocal!,
+                this.state.activeSquares,
+                angleRelative360PI
+            );
+
+            // Update the element data (normal, position and up direction) for each active square
             for (let i = 0; i < this.state.activeSquares.length; i++) {
                 this.state.activeSquares[i].element.normal = pn[i].nor;
                 this.state.activeSquares[i].element.pos = pn[i].pos;
+                this.state.activeSquares[i].element.up = pn[i].up;
             }
         }
 
+        // Report the turns once the squares are in their new places, e.g. for highlights.
+        // Merged turns that cancel out did not move, but are still recorded.
+        this.reportTurns(parts ?? (turn ? [turn] : []));
+
         // Reset the rotation state in the CubeState manager
         this.state.resetState();
     }
 
+    /**
+     * Applies a completed layer rotation to the headless cube model.
+     * Converts the local rotation axis, the rotated squares, and the angle into a model layer turn.
+     *
+     * @param {Vector3} axisLocal - The rotation axis in the cube's local coordinates (axis-aligned).
+     * @param {SquareMesh[]} layerSquares - The squares belonging to the rotated layer(s).
+     * @param {number} anglePI - The rotation angle in radians (a multiple of 90 degrees).
+     * @returns {LayerTurn} The turn.
+     */
+    private recordLayerTurn(
+        axisLocal: Vector3,
+        layerSquares: SquareMesh[],
+        anglePI: number
+    ): LayerTurn {
+        // Find the principal axis the rotation axis points along, and its sign
+        const components = [axisLocal.x, axisLocal.y, axisLocal.z];
+        let axis = 0;
+        for (let i = 1; i < 3; i++) {
+            if (Math.abs(components[i]) > Math.abs(components[axis])) axis = i;
+        }
+        const sign = Math.sign(components[axis]);
+
+        // Each layer is identified by its squares' cubie centers along the axis
+        const layers: number[] = [];
+        for (let i = 0; i < layerSquares.length; i++) {
+            const layer = this.getSquareLayer(layerSquares[i], axis as Axis);
+            if (!layers.includes(layer)) layers.push(layer);
+        }
+
+        const quarterTurns = Math.round(anglePI / (Math.PI * 0.5)) * sign;
+        this.data.model.turnLayers(axis as Axis, layers, quarterTurns);
+
+        return {
+            axis: axis as Axis,
+            layers: layers.sort((a, b) => a - b),
+            quarterTurns,
+        };
+    }
+
+    /**
+     * Adds completed turns to the undo history and reports them to `onTurn`.
+     *
+     * @param {LayerTurn[]} turns - The turns, in the order they were made.
+     */
+    private reportTurns(turns: LayerTurn[]) {
+        // Scramble turns are the starting point, not part of the history or the solve
+        if (this.scrambling || turns.length === 0) return;
+        if (this.recordHistory) {
+            turns.forEach((turn) => this.state.recordTurn(turn));
+        }
+        if (this.onTurn) this.onTurn(turns);
+    }
+
+    /**
+     * Finds the index of the layer a square belongs to along an axis.
+     *
+     * @param {SquareMesh} square - The square mesh.
+     * @param {Axis} axis - The axis the layers are stacked along.
+     * @returns {number} The layer index (0 = most negative side of the axis).
+     */
+    private getSquareLayer(square: SquareMesh, axis: Axis) {
+        const temPos = getTemPos(square, this.data.elementSize);
+        const coord = [temPos.x, temPos.y, temPos.z][axis];
+        return Math.round(
+            coord / this.data.elementSize + (this.dims[axis] - 1) / 2
+        );
+    }
+
     /**
      * Calculates the shortest angle (positive or negative) required to snap the current rotation angle
-     * to the nearest multiple of 90 degrees (PI / 2 radians).
+     * to the nearest multiple of 90 degrees (PI / 2 radians), or of 180 degrees if the rotating plane
+     * of a cuboid is not square and so can only make half turns.
      *
      * @returns {number} The angle in radians needed to reach the snap position.
      */
     private getNeededRotateAngle() {
-        const rightAnglePI = Math.PI * 0.5; // 90 degrees in radians
-        // Calculate the remainder when dividing the current angle by 90 degrees
+        const axisLocal = this.state.rotateAxisLocal;
+        const axis = axisLocal
+            ? ([axisLocal.x, axisLocal.y, axisLocal.z].findIndex(
+                  (v) => Math.abs(v) > 0.5
+              ) as Axis)
+            : -1;
+        // The angle between two positions where the plane fits the puzzle's shape
+        const rightAnglePI =
+            axis < 0 || this.data.model.canTurn(axis as Axis, 1)
+                ? Math.PI * 0.5
+                : Math.PI;
+        // Calculate the remainder when dividing the current angle by the snap angle
         const exceedAnglePI = Math.abs(this.state.rotateAnglePI) % rightAnglePI;
         // Determine the needed angle: if past halfway, rotate forward; otherwise, rotate back.
         let needRotateAnglePI =
             exceedAnglePI > rightAnglePI * 0.5
-                ? rightAnglePI - exceedAnglePI // Rotate forward to the next 90 degrees
-                : -exceedAnglePI; // Rotate backward to the previous 90 degrees
+                ? rightAnglePI - exceedAnglePI // Rotate forward to the next snap position
+                : -exceedAnglePI; // Rotate backward to the previous snap position
         // Ensure the sign matches the original rotation direction
         needRotateAnglePI =
             this.state.rotateAnglePI > 0
@@ -527,37 +765,13 @@ export class Cube extends Group {
         return ndcToScreen(pos, w, h);
     }
 
-    /**
-     * Randomly shuffles the colors of the cube squares.
-     * This provides a basic way to disorder the cube without simulating rotations.
-     */
-    public disorder() {
-        // Get current colors
-        const colors = this.data.elements.map((e) => e.color);
-        // Fisher-Yates shuffle algorithm
-        for (let i = colors.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            [colors[i], colors[j]] = [colors[j], colors[i]];
-        }
-        // Assign shuffled colors back to data elements
-        this.data.elements.forEach((e, idx) => {
-            e.color = colors[idx];
-        });
-        // Recreate visual squares with new colors
-        this.createChildrenByData();
-        setFinish(this.finish); // Update status bar
-    }
-
     /**
      * Resets the cube to its initial solved state.
      * Stops any ongoing rotation animations.
      */
     public restore() {
-        // Stop any currently running animation
-        if (this.rotateAnimationId !== null) {
-            cancelAnimationFrame(this.rotateAnimationId);
-            this.rotateAnimationId = null;
-        }
+        // Drop any queued turns, as the squares are about to be replaced
+        this.moves.cancel();
         // Reset the underlying data to the solved state
         this.data.initialFinishData();
         this.data.saveDataToLocal(); // Persist the solved state
@@ -566,11 +780,103 @@ export class Cube extends Group {
         setFinish(this.finish); // Update status bar
     }
 
-    /** Stores the ID returned by requestAnimationFrame for the plane rotation animation. */
-    private rotateAnimationId: number | null = null;
+    /**
+     * Sets how strictly a solve is checked, e.g. "supercube" to also require upright centers.
+     * @param {SolveMode} mode - The solve mode.
+     */
+    public setSolveMode(mode: SolveMode) {
+        this.solveMode = mode;
+        setFinish(this.finish); // Update status bar
+    }
 
     /**
-     * Rotates a specific plane of the cube by a given angle (multiple of 90 degrees) with animation.
+     * Sets how turns are animated: queued turns and the snap after a drag.
+     * @param {TurnAnimation} animation - The duration and easing curve of a turn.
+     */
+    public setTurnAnimation(animation: TurnAnimation) {
+        this.moves.duration = Math.max(0, animation.duration);
+        this.moves.easing = EASINGS[animation.easing] ?? linear;
+    }
+
+    /** The squares turned by the queued turn being animated. */
+    private queuedSquares: SquareMesh[] = [];
+    /** The axis (local space) of the queued turn being animated. */
+    private queuedAxis = new Vector3();
+    /** The full angle of the queued turn being animated, in radians. */
+    private queuedAngle = 0;
+    /** The part of that angle already shown, in radians. */
+    private queuedShownAngle = 0;
+    /** How strictly a solve is checked; see `SolveMode`. */
+    private solveMode: SolveMode = "standard";
+    /** Whether completed turns are added to the undo history (off while undoing or redoing). */
+    private recordHistory = true;
+    /** Whether a scramble is being applied; its turns are neither in the history nor reported to `onTurn`. */
+    private scrambling = false;
+    /**
+     * Optional callback executed after every completed layer turn, except scramble turns. Queued turns
+     * merged into one animation are passed together, as they were requested.
+     */
+    public onTurn?: (turns: LayerTurn[]) => void;
+
+    /**
+     * Checks whether a turn can be undone right now.
+     * @returns {boolean} True if there is history and no rotation is in progress.
+     */
+    public get canUndo() {
+        return this.state.canUndo && !this.isTurning();
+    }
+
+    /**
+     * Checks whether an undone turn can be redone right now.
+     * @returns {boolean} True if there is something to redo and no rotation is in progress.
+     */
+    public get canRedo() {
+        return this.state.canRedo && !this.isTurning();
+    }
+
+    /**
+     * Turns back the last completed layer turn.
+     *
+     * @param {boolean} [animated=true] - Whether to animate the turn.
+     * @param {() => void} [onComplete] - Optional callback executed when the turn finishes.
+     * @returns {boolean} True if a turn was undone, false if there was nothing to undo or a rotation is in progress.
+     */
+    public undo(animated = true, onComplete?: () => void) {
+        if (!this.canUndo) return false;
+        const turn = this.state.undo()!;
+        this.turnLayers(
+            { ...turn, quarterTurns: -turn.quarterTurns },
+            animated,
+            { record: false },
+            onComplete
+        );
+        return true;
+    }
+
+    /**
+     * Repeats the last undone layer turn.
+     *
+     * @param {boolean} [animated=true] - Whether to animate the turn.
+     * @param {() => void} [onComplete] - Optional callback executed when the turn finishes.
+     * @returns {boolean} True if a turn was redone, false if there was nothing to redo or a rotation is in progress.
+     */
+    public redo(animated = true, onComplete?: () => void) {
+        if (!this.canRedo) return false;
+        const turn = this.state.redo()!;
+        this.turnLayers(turn, animated, { record: false }, onComplete);
+        return true;
+    }
+
+    /**
+     * Checks whether the user is dragging a layer or a turn is animating or queued.
+     * @returns {boolean} True while a rotation is in progress.
+     */
+    public isTurning() {
+        return this.state.inRotation || this.moves.busy;
+    }
+
+    /**
+     * Rotates a specific plane of the cube by a given angle (multiple of 90 degrees) with animation, after any queued turns.
      *
      * @param {SquareMesh} controlSquare - A square on the plane to be rotated.
      * @param {Vector3} axis - The axis of rotation in world space.
@@ -583,93 +889,327 @@ export class Cube extends Group {
         angle90: number,
         onComplete?: () => void
     ) {
-        // Cancel any existing rotation animation
-        if (this.rotateAnimationId !== null) {
-            cancelAnimationFrame(this.rotateAnimationId);
-            this.rotateAnimationId = null;
+        // Describe the plane as a layer turn, so it can wait in the queue
+        const axisIndex = [axis.x, axis.y, axis.z].findIndex(
+            (v) => Math.abs(v) > 0.5
+        ) as Axis;
+        const sign = Math.sign(axis.getComponent(axisIndex));
+        this.rotateLayers(
+            {
+                axis: axisIndex,
+                layers: [this.getSquareLayer(controlSquare, axisIndex)],
+                quarterTurns: angle90 * sign,
+            },
+            true,
+            onComplete
+        );
+    }
+
+    /**
+     * Rotates a specific plane of the cube instantly (without animation) by a given angle (multiple of 90 degrees).
+     *
+     * @param {SquareMesh} controlSquare - A square on the plane to be rotated.
+     * @param {Vector3} axis - The axis of rotation in world space.
+     * @param {number} angle90 - The rotation angle in multiples of 90 degrees (e.g., 1 for 90, -1 for -90, 2 for 180).
+     * @throws {Error} If the plane of a cuboid is not square and the angle is not a multiple of 180 degrees.
+     */
+    public rotatePlane2(
+        controlSquare: SquareMesh,
+        axis: Vector3,
+        angle90: number
+    ) {
+        const axisIndex = [axis.x, axis.y, axis.z].findIndex(
+            (v) => Math.abs(v) > 0.5
+        ) as Axis;
+        this.assertCanTurn({
+            axis: axisIndex,
+            layers: [this.getSquareLayer(controlSquare, axisIndex)],
+            quarterTurns: angle90,
+        });
+        this.moves.flush(); // Finish queued turns first, so the turns happen in order
+        this.rotateSquaresInstant(
+            this.getPlaneSquares(controlSquare, axis),
+            axis,
+            angle90
+        );
+        this.data.saveDataToLocal();
+        setFinish(this.finish);
+    }
+
+    /**
+     * Rotates one or more layers of the cube, as resolved from a notation move.
+     *
+     * @param {LayerTurn} turn - The layers, axis, and quarter turns to apply.
+     * @param {boolean} [animated=false] - Whether to animate the rotation.
+     * @param {() => void} [onComplete] - Optional callback executed when the rotation finishes.
+     * @throws {Error} If the layers of a cuboid are not square and the turn is not a half turn.
+     */
+    public rotateLayers(
+        turn: LayerTurn,
+        animated = false,
+        onComplete?: () => void
+    ) {
+        this.turnLayers(turn, animated, {}, onComplete);
+    }
+
+    /**
+     * Rotates one or more layers of the cube. Animated turns wait in the queue for the turns
+     * before them; instant turns first complete everything queued, so the turns happen in order.
+     *
+     * @param {LayerTurn} turn - The layers, axis, and quarter turns to apply.
+     * @param {boolean} animated - Whether to animate the rotation.
+     * @param {TurnOptions} options - How the turn is recorded.
+     * @param {() => void} [onComplete] - Optional callback executed when the rotation finishes (not if it is cancelled).
+     */
+    private turnLayers(
+        turn: LayerTurn,
+        animated: boolean,
+        options: TurnOptions,
+        onComplete?: () => void
+    ) {
+        this.assertCanTurn(turn);
+        if (animated) {
+            this.moves.enqueue(turn, options).then((done) => {
+                if (done && onComplete) onComplete();
+            });
+            return;
         }
+        this.applyTurnsInstantly([turn], options);
+        if (onComplete) onComplete();
+    }
 
-        // Identify all squares belonging to the plane defined by the control square and axis
-        const rotateSquares: SquareMesh[] = [];
-        const controlTemPos = getTemPos(controlSquare, this.data.elementSize);
-        for (let i = 0; i < this.squares.length; i++) {
-            const squareTemPos = getTemPos(
-                this.squares[i],
-                this.data.elementSize
+    /**
+     * Rotates layers instantly, after completing everything queued so the turns happen in order.
+     * The cube is saved once at the end, which keeps long algorithms fast on large cubes.
+     *
+     * @param {LayerTurn[]} turns - The turns to make, in order.
+     * @param {TurnOptions} options - How the turns are recorded.
+     */
+    private applyTurnsInstantly(turns: LayerTurn[], options: TurnOptions) {
+        this.moves.flush();
+        this.withTurnOptions(options, () =>
+            turns.forEach((turn) =>
+                this.rotateSquaresInstant(
+                    this.getLayerSquares(turn),
+                    new Vector3().setComponent(turn.axis, 1),
+                    turn.quarterTurns
+                )
+            )
+        );
+        this.data.saveDataToLocal();
+        setFinish(this.finish);
+    }
+
+    /**
+     * Checks that a turn keeps the puzzle's shape, before any of it is shown.
+     * @param {LayerTurn} turn - The turn.
+     * @throws {Error} If the layers of a cuboid are not square and the turn is not a half turn.
+     */
+    private assertCanTurn(turn: LayerTurn) {
+        if (!this.data.model.canTurn(turn.axis, turn.quarterTurns)) {
+            throw new Error(
+                `Layers around the ${
+                    "XYZ"[turn.axis]
+                } axis of this cuboid only turn by half turns`
             );
-            const squareVec = controlTemPos.clone().sub(squareTemPos);
-            // Squares whose vector to the control square is perpendicular to the rotation axis are on the same plane
-            if (squareVec.dot(axis) === 0) {
-                rotateSquares.push(this.squares[i]);
-            }
         }
+    }
 
-        // Calculate total rotation angle and per-frame rotation speed
-        const totalRotationAngle = angle90 * (Math.PI * 0.5);
-        const numFrames = 30; // Duration of the animation in frames
-        const rotateSpeed = totalRotationAngle / numFrames; // Angle per frame
-
-        let rotatedAngle = 0; // Track accumulated rotation
-
-        // Animation loop function
-        const rotateTick = () => {
-            // Calculate rotation for this frame, clamping to the total angle
-            let curRotate = rotateSpeed;
-            if (
-                Math.abs(rotatedAngle + rotateSpeed) >
-                Math.abs(totalRotationAngle)
-            ) {
-                curRotate = totalRotationAngle - rotatedAngle;
+    /**
+     * Resolves moves against the cube's dimensions, checking that each one keeps the puzzle's shape.
+     * @param {Move[]} moves - The moves.
+     * @returns {LayerTurn[]} The layer turns to make.
+     * @throws {Error} If a move does not exist on the cube, or is a quarter turn of non-square layers of a cuboid.
+     */
+    private resolveMoves(moves: Move[]) {
+        return moves.map((move) => {
+            const turn = resolveMove(move, this.dims);
+            if (!this.data.model.canTurn(turn.axis, turn.quarterTurns)) {
+                throw new Error(
+                    `Move "${formatMove(
+                        move
+                    )}" needs a half turn on this cuboid`
+                );
             }
+            return turn;
+        });
+    }
 
-            // Create rotation matrix for this frame
-            const rotateMatCurrent = new Matrix4();
-            rotateMatCurrent.makeRotationAxis(
-                axis.clone().normalize(),
-                curRotate
-            );
+    /**
+     * Runs a state update with the history and scramble flags set for a turn.
+     *
+     * @param {TurnOptions} options - How the turn is recorded.
+     * @param {() => void} update - The update that completes the turn.
+     */
+    private withTurnOptions(options: TurnOptions, update: () => void) {
+        const { recordHistory, scrambling } = this;
+        if (options.record === false) this.recordHistory = false;
+        if (options.scramble) this.scrambling = true;
+        try {
+            update();
+        } finally {
+            this.recordHistory = recordHistory;
+            this.scrambling = scrambling;
+        }
+    }
 
-            // Apply rotation to all squares in the plane
-            for (let i = 0; i < rotateSquares.length; i++) {
-                rotateSquares[i].applyMatrix4(rotateMatCurrent);
-                rotateSquares[i].updateMatrix();
-            }
+    /**
+     * Selects every square whose cubie lies in one of the turned layers.
+     * @param {LayerTurn} turn - The turn.
+     * @returns {SquareMesh[]} The squares to rotate.
+     */
+    private getLayerSquares(turn: LayerTurn) {
+        return this.squares.filter((square) =>
+            turn.layers.includes(this.getSquareLayer(square, turn.axis))
+        );
+    }
 
-            rotatedAngle += curRotate; // Update accumulated angle
-
-            // Continue animation or finish
-            if (Math.abs(rotatedAngle) < Math.abs(totalRotationAngle)) {
-                this.rotateAnimationId = requestAnimationFrame(rotateTick); // Request next frame
-            } else {
-                // Animation finished
-                this.rotateAnimationId = null;
-                // Update the cube state after the animation
-                this.state.activeSquares = rotateSquares;
-                this.state.rotateAxisLocal = axis;
-                this.state.rotateAnglePI = totalRotationAngle;
-                this.updateStateAfterRotate(); // Finalize state (positions, normals)
-                this.state.inRotation = false; // Mark rotation as complete
-
-                if (onComplete) onComplete(); // Execute callback
-            }
-        };
+    /**
+     * Prepares the queued turn about to be animated.
+     * @param {LayerTurn} turn - The turn.
+     */
+    private beginQueuedTurn(turn: LayerTurn) {
+        this.queuedSquares = this.getLayerSquares(turn);
+        this.queuedAxis = new Vector3().setComponent(turn.axis, 1);
+        this.queuedAngle = turn.quarterTurns * (Math.PI * 0.5);
+        this.queuedShownAngle = 0;
+    }
 
-        rotateTick(); // Start the animation
+    /**
+     * Shows the queued turn at a fraction of its rotation.
+     * @param {number} progress - From 0 (not turned) to 1 (fully turned).
+     */
+    private updateQueuedTurn(progress: number) {
+        const angle = this.queuedAngle * progress - this.queuedShownAngle;
+        const rotateMat = new Matrix4();
+        rotateMat.makeRotationAxis(this.queuedAxis, angle);
+        for (let i = 0; i < this.queuedSquares.length; i++) {
+            this.queuedSquares[i].applyMatrix4(rotateMat);
+            this.queuedSquares[i].updateMatrix();
+        }
+        this.queuedShownAngle += angle;
     }
 
     /**
-     * Rotates a specific plane of the cube instantly (without animation) by a given angle (multiple of 90 degrees).
+     * Updates the cube state once the queued turn has been fully shown.
+     * @param {TurnOptions} options - How the turn is recorded.
+     * @param {LayerTurn[]} parts - The requested turns merged into the queued turn.
+     */
+    private endQueuedTurn(options: TurnOptions, parts: LayerTurn[]) {
+        this.state.activeSquares = this.queuedSquares;
+        this.state.rotateAxisLocal = this.queuedAxis;
+        this.state.rotateAnglePI = this.queuedAngle;
+        this.withTurnOptions(options, () => this.updateStateAfterRotate(parts));
+        this.state.inRotation = false;
+        this.data.saveDataToLocal();
+        setFinish(this.finish);
+    }
+
+    /**
+     * Applies an algorithm written in standard notation (e.g. `"R U R' U'"`) to the cube.
+     * The whole algorithm is validated before any move is made.
      *
-     * @param {SquareMesh} controlSquare - A square on the plane to be rotated.
-     * @param {Vector3} axis - The axis of rotation in world space.
-     * @param {number} angle90 - The rotation angle in multiples of 90 degrees (e.g., 1 for 90, -1 for -90, 2 for 180).
+     * @param {string} algorithm - The algorithm string.
+     * @param {boolean} [animated=false] - Whether to animate each move in sequence.
+     * @param {() => void} [onComplete] - Optional callback executed when every move has finished.
+     * @returns {Move[]} The parsed moves.
+     * @throws {NotationError} If the algorithm contains a syntax error.
+     * @throws {Error} If a move does not exist on a cube of this order, or is a quarter turn of non-square layers of a cuboid.
      */
-    public rotatePlane2(
-        controlSquare: SquareMesh,
-        axis: Vector3,
-        angle90: number
+    public applyAlgorithm(
+        algorithm: string,
+        animated = false,
+        onComplete?: () => void
     ) {
-        // 1. Identify squares in the plane (same logic as animated version)
+        const moves = parseAlgorithm(algorithm);
+        const turns = this.resolveMoves(moves);
+
+        if (!animated) {
+            this.applyTurnsInstantly(turns, {});
+            if (onComplete) onComplete();
+            return moves;
+        }
+
+        this.queueTurns(turns, {}).then((done) => {
+            if (done && onComplete) onComplete();
+        });
+
+        return moves;
+    }
+
+    /**
+     * Checks whether an algorithm can be played on this cube: it parses, every move exists on a cube of
+     * this order, and no move is a quarter turn of non-square layers of a cuboid.
+     *
+     * @param {string} algorithm - The algorithm string.
+     * @returns {boolean} True if `applyAlgorithm` and `queueAlgorithm` accept the algorithm.
+     */
+    public canPlay(algorithm: string) {
+        try {
+            this.resolveMoves(parseAlgorithm(algorithm));
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Queues an algorithm written in standard notation, to be animated after the turns already queued.
+     * The whole algorithm is validated before any move is queued.
+     *
+     * @param {string} algorithm - The algorithm string.
+     * @param {TurnOptions} [options={}] - How the turns are recorded.
+     * @returns {Promise<boolean>} Resolves to true when every move has been made, or false if the queue was cancelled.
+     * @throws {NotationError} If the algorithm contains a syntax error.
+     * @throws {Error} If a move does not exist on a cube of this order, or is a quarter turn of non-square layers of a cuboid.
+     */
+    public queueAlgorithm(algorithm: string, options: TurnOptions = {}) {
+        const turns = this.resolveMoves(parseAlgorithm(algorithm));
+        return this.queueTurns(turns, options);
+    }
+
+    /**
+     * Queues layer turns to be animated in sequence.
+     *
+     * @param {LayerTurn[]} turns - The turns to make.
+     * @param {TurnOptions} options - How the turns are recorded.
+     * @returns {Promise<boolean>} Resolves to true when every turn has been made, or false if any was cancelled.
+     */
+    private queueTurns(turns: LayerTurn[], options: TurnOptions) {
+        return Promise.all(
+            turns.map((turn) => this.moves.enqueue(turn, options))
+        ).then((results) => results.every(Boolean));
+    }
+
+    /**
+     * Highlights the squares of the cubies at the given positions and clears every other highlight.
+     *
+     * @param {Vec3[]} positions - Cubie positions in the model's doubled coordinates. Pass an empty array to clear.
+     */
+    public highlightCubies(positions: Vec3[]) {
+        const size = this.data.elementSize;
+        this.squares.forEach((square) => {
+            // Convert the square's cubie position into doubled coordinates
+            const temPos = getTemPos(square, size);
+            const pos = [temPos.x, temPos.y, temPos.z].map((v) =>
+                Math.round((v / size) * 2)
+            );
+            square.setHighlighted(
+                positions.some(
+                    (p) => p[0] === pos[0] && p[1] === pos[1] && p[2] === pos[2]
+                )
+            );
+        });
+    }
+
+    /**
+     * Identifies all squares belonging to the plane defined by a control square and a rotation axis.
+     *
+     * @param {SquareMesh} controlSquare - A square on the plane.
+     * @param {Vector3} axis - The axis of rotation.
+     * @returns {SquareMesh[]} The squares of the plane.
+     */
+    private getPlaneSquares(controlSquare: SquareMesh, axis: Vector3) {
         const rotateSquares: SquareMesh[] = [];
         const controlTemPos = getTemPos(controlSquare, this.data.elementSize);
         for (let i = 0; i < this.squares.length; i++) {
@@ -678,12 +1218,27 @@ export class Cube extends Group {
                 this.data.elementSize
             );
             const squareVec = controlTemPos.clone().sub(squareTemPos);
+            // Squares whose vector to the control square is perpendicular to the rotation axis are on the same plane
             if (squareVec.dot(axis) === 0) {
                 rotateSquares.push(this.squares[i]);
             }
         }
+        return rotateSquares;
+    }
 
-        // 2. Calculate total rotation angle and create the matrix
+    /**
+     * Rotates a set of squares instantly (without animation) by a given angle (multiple of 90 degrees).
+     *
+     * @param {SquareMesh[]} rotateSquares - The squares to rotate.
+     * @param {Vector3} axis - The axis of rotation in local space.
+     * @param {number} angle90 - The rotation angle in multiples of 90 degrees.
+     */
+    private rotateSquaresInstant(
+        rotateSquares: SquareMesh[],
+        axis: Vector3,
+        angle90: number
+    ) {
+        // 1. Calculate total rotation angle and create the matrix
         const totalRotationAngle = angle90 * (Math.PI * 0.5);
         const rotateMat = new Matrix4();
         rotateMat.makeRotationAxis(
@@ -691,94 +1246,69 @@ export class Cube extends Group {
             totalRotationAngle
         );
 
-        // 3. Apply the rotation instantly
+        // 2. Apply the rotation instantly
         for (let i = 0; i < rotateSquares.length; i++) {
             rotateSquares[i].applyMatrix4(rotateMat);
             rotateSquares[i].updateMatrix();
         }
 
-        // 4. Update the cube state
+        // 3. Update the cube state
         this.state.activeSquares = rotateSquares;
         this.state.rotateAxisLocal = axis;
         this.state.rotateAnglePI = totalRotationAngle;
         this.updateStateAfterRotate(); // Finalize state (positions, normals)
         this.state.inRotation = false; // Mark rotation as complete
-
-        // 5. Optional: Save data and update status
-        this.data.saveDataToLocal();
-        setFinish(this.finish);
     }
 
     /**
-     * Scrambles the cube by applying a specified number of random plane rotations instantly.
+     * Scrambles the cube instantly with a WCA-style random-move scramble.
      *
-     * @param {number} count - The number of random rotations to apply.
-     */
-    public scrambleSmart(count: number) {
-        const axes = [
-            new Vector3(1, 0, 0),
-            new Vector3(0, 1, 0),
-            new Vector3(0, 0, 1),
-        ]; // Possible rotation axes
-        for (let i = 0; i < count; i++) {
-            const controlSquare = this.getRandomControlSquare(); // Pick a random square to define the plane
-            const axis = axes[Math.floor(Math.random() * axes.length)]; // Pick a random axis
-            const angle = Math.random() > 0.5 ? 1 : -1; // Pick a random direction (+90 or -90)
-            this.rotatePlane2(controlSquare, axis, angle); // Apply instant rotation
+     * @param {number} [length] - The number of moves. Defaults to the usual length for the cube's order.
+     * @param {string} [seed] - Optional seed; the same seed always generates the same scramble.
+     * @returns {string} The applied scramble in standard notation.
+     */
+    public scrambleSmart(length?: number, seed?: string) {
+        const scramble = generateScramble(
+            this.dims,
+            length,
+            seed !== undefined ? createRandom(seed) : undefined
+        );
+        // The scramble is the starting point, not something to undo
+        this.scrambling = true;
+        try {
+            this.applyAlgorithm(scramble);
+        } finally {
+            // Turns made after a failed scramble must still be recorded
+            this.scrambling = false;
         }
+        this.state.clearHistory();
+        return scramble;
     }
 
     /**
-     * Scrambles the cube by applying a specified number of random plane rotations with animation.
-     * Rotations are applied sequentially with a small delay between them.
+     * Scrambles the cube with a WCA-style random-move scramble, animating each move in sequence.
      *
-     * @param {number} count - The number of random rotations to apply.
+     * @param {number} [length] - The number of moves. Defaults to the usual length for the cube's order.
      * @param {() => void} [onComplete] - Optional callback function executed when the entire scramble animation finishes.
+     * @param {string} [seed] - Optional seed; the same seed always generates the same scramble.
+     * @returns {string} The scramble being applied, in standard notation.
      */
-    public scrambleSmartAnimated(count: number, onComplete?: () => void) {
-        const axes = [
-            new Vector3(1, 0, 0),
-            new Vector3(0, 1, 0),
-            new Vector3(0, 0, 1),
-        ]; // Possible axes
-        let current = 0; // Counter for completed rotations
-
-        // Function to perform one scramble rotation and schedule the next
-        const doOneScramble = () => {
-            // Base case: all rotations completed
-            if (current >= count) {
-                if (onComplete) onComplete(); // Execute final callback
-                return;
-            }
-
-            // Select random square, axis, and angle for this rotation
-            const controlSquare = this.getRandomControlSquare();
-            const axis = axes[Math.floor(Math.random() * axes.length)];
-            const angle = Math.random() > 0.5 ? 1 : -1;
-
-            // Perform the animated rotation
-            this.rotatePlane(controlSquare, axis, angle, () => {
-                // This callback executes when the single rotation animation completes
-                current++; // Increment counter
-                // Schedule the next rotation after a short delay
-                setTimeout(() => {
-                    requestAnimationFrame(doOneScramble);
-                }, 10);  // Wait before the next rotation
-            });
-        };
-
-        doOneScramble(); // Start the first rotation
-    }
-
-    /**
-     * Selects a random square mesh from the cube.
-     * Used as a starting point for defining a plane in scrambling methods.
-     *
-     * @returns {SquareMesh} A randomly selected square mesh.
-     */
-    private getRandomControlSquare(): SquareMesh {
-        // Pick a random index within the bounds of the squares array
-        const idx = Math.floor(Math.random() * this.squares.length);
-        return this.squares[idx];
+    public scrambleSmartAnimated(
+        length?: number,
+        onComplete?: () => void,
+        seed?: string
+    ) {
+        const scramble = generateScramble(
+            this.dims,
+            length,
+            seed !== undefined ? createRandom(seed) : undefined
+        );
+        // The scramble is the starting point, not something to undo
+        this.state.clearHistory();
+        const turns = this.resolveMoves(parseAlgorithm(scramble));
+        this.queueTurns(turns, { scramble: true }).then((done) => {
+            if (done && onComplete) onComplete();
+        });
+        return scramble;
     }
 }
@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import CubeData from "./cubeData";
+import { applyAlgorithmToModel } from "./notation";
+
+/** In-memory stand-in for the browser's localStorage. */
+const store = new Map<string, string>();
+
+beforeEach(() => {
+    store.clear();
+    vi.stubGlobal("localStorage", {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+        removeItem: (key: string) => store.delete(key),
+    });
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe("CubeData", () => {
+    it("saves its state and loads it back", () => {
+        const data = new CubeData(3);
+        applyAlgorithmToModel(data.model, "R U");
+        data.syncElementsFromModel();
+        data.saveDataToLocal();
+        expect(store.has("3-RubikModel")).toBe(true);
+        expect(new CubeData(3).model.equals(data.model)).toBe(true);
+    });
+
+    it("neither loads nor saves the state when not persistent", () => {
+        const saved = new CubeData(3);
+        applyAlgorithmToModel(saved.model, "R U");
+        saved.syncElementsFromModel();
+        saved.saveDataToLocal();
+        const before = new Map(store);
+
+        const replay = new CubeData(3, undefined, false);
+        // A replay starts from a solved cube, not from the saved one
+        expect(replay.model.isSolved()).toBe(true);
+        applyAlgorithmToModel(replay.model, "F2");
+        replay.syncElementsFromModel();
+        replay.saveDataToLocal();
+        expect(store).toEqual(before);
+    });
+});
@@ -1,7 +1,15 @@
 import { Vector3 } from "three";
+import CubeModel, {
+    CubeModelJSON,
+    FACE_NORMALS,
+    FACE_UPS,
+    formatDimensions,
+    toDimensions,
+    Vec3,
+} from "./cubeModel";
 
 /** Type alias for color representation, can be a hex string or number. */
-type ColorRepresentation = string | number;
+export type ColorRepresentation = string | number;
 
 /**
  * Interface defining the properties of a single square element on the Rubik's Cube.
@@ -9,17 +17,19 @@ type ColorRepresentation = string | number;
  * @property {ColorRepresentation} color - The color of the square.
  * @property {Vector3} pos - The 3D position of the square's center in local coordinates.
  * @property {Vector3} normal - The normal vector indicating the face the square belongs to.
+ * @property {Vector3} up - The direction the top edge of the square points to, so an image on it keeps its orientation.
  * @property {boolean} [withLogo] - Optional flag indicating if this square is the center piece (often has a logo).
  */
 export interface CubeElement {
     color: ColorRepresentation;
     pos: Vector3;
     normal: Vector3;
+    up: Vector3;
     withLogo?: boolean;
 }
 
 /** Type alias for an array representing the six face colors of the cube. */
-type CubeColor = [
+export type CubeColor = [
     ColorRepresentation, // Top
     ColorRepresentation, // Bottom
     ColorRepresentation, // Left
@@ -28,17 +38,29 @@ type CubeColor = [
     ColorRepresentation // Back
 ];
 
+/** The face colors used when no theme is chosen. */
+export const DEFAULT_COLORS: Readonly<CubeColor> = [
+    "#FF0000", // Top (Red)
+    "#FFA500", // Bottom (Orange)
+    "#008000", // Left (Green)
+    "#0000FF", // Right (Blue)
+    "#FFFF00", // Front (Yellow)
+    "#FFFFFF", // Back (White)
+];
+
 /**
  * Manages the underlying data structure for a Rubik's Cube.
  * Stores the color, position, and normal for each individual square element.
  * Handles initialization, saving to, and loading from localStorage.
  */
 class CubeData {
-    /** The order (size) of the cube (e.g., 3 for a 3x3x3 cube). */
+    /** The order (size) of the cube (e.g., 3 for a 3x3x3 cube); the largest dimension of a cuboid. */
     public cubeOrder: number;
+    /** The number of layers along X, Y and Z (all equal for a cube). */
+    public dims: Vec3;
 
     /** Array storing the six face colors. */
-    private colors: CubeColor;
+    private colors: Readonly<CubeColor>;
     /** The size of a single square element. Default is 1. */
     private _size = 1;
     /**
@@ -50,28 +72,30 @@ class CubeData {
     }
     /** Array containing the data for all square elements of the cube. */
     public elements: CubeElement[] = [];
+    /** Headless cubie-level model kept in sync with `elements`; the source of truth for solved-ness. */
+    public model: CubeModel;
+    /** Whether the state is loaded from and saved to localStorage; off for cubes that only show a replay. */
+    public readonly persistent: boolean;
 
     /**
      * Creates an instance of CubeData.
      * Initializes the cube elements, attempting to load from localStorage first.
      *
-     * @param {number} [cubeOrder=3] - The order of the cube.
+     * @param {number | Vec3} [size=3] - The order of a cube, or the layers along X, Y and Z of a cuboid.
      * @param {CubeColor} [colors] - An array of six colors for the faces. Defaults to standard Rubik's colors.
+     * @param {boolean} [persistent=true] - Whether to load and save the state in localStorage.
      */
     public constructor(
-        cubeOrder = 3,
-        colors: CubeColor = [
-            "#FF0000", // Top (Red)
-            "#FFA500", // Bottom (Orange)
-            "#008000", // Left (Green)
-            "#0000FF", // Right (Blue)
-            "#FFFF00", // Front (Yellow)
-            "#FFFFFF", // Back (White)
-        ]
+        size: number | Vec3 = 3,
+        colors: Readonly<CubeColor> = DEFAULT_COLORS,
+        persistent = true
     ) {
-        this.cubeOrder = cubeOrder;
+        this.dims = toDimensions(size);
+        this.cubeOrder = Math.max(...this.dims);
         this.colors = colors;
-        this.initElements(); // Initialize elements, trying local storage first
+        this.persistent = persistent;
+        this.model = new CubeModel(this.dims);
+        this.initElements(persistent); // Initialize elements, trying local storage first
     }
 
     /**
@@ -83,13 +107,21 @@ class CubeData {
      */
     private initElements(localDataFirst = true) {
         // Try loading from localStorage if enabled and available
+        let model: CubeModel | null = null;
         if (localDataFirst && typeof localStorage !== "undefined") {
             this.elements = this.getLocalData();
+            model = this.getLocalModel();
         }
 
-        // Check if the loaded data matches the expected number of elements for the current order
-        // The total number of squares is order * order * 6 faces.
-        if (this.elements.length === this.cubeOrder * this.cubeOrder * 6) {
+        // Check if the loaded data matches the expected number of elements for the current size
+        // The total number of squares is order * order * 6 faces (two faces of each pair of axes on a cuboid).
+        // Saved squares without a matching model (older saves) cannot be trusted and are discarded.
+        const [x, y, z] = this.dims;
+        if (model && this.elements.length === 2 * (x * y + y * z + x * z)) {
+            this.model = model;
+            // Rebuild the squares from the model: the colors may have changed since the save
+            // (another theme), and older saves do not store the orientation of the squares
+            this.syncElementsFromModel();
             return; // Data loaded successfully or already initialized
         }
 
@@ -98,69 +130,79 @@ class CubeData {
     }
 
     /**
-     * Generates the `elements` array for a solved Rubik's Cube of the specified order.
+     * Generates the `elements` array for a solved Rubik's Cube of the specified size.
      * Calculates the position and normal for each square on each of the six faces.
      */
     public initialFinishData() {
         this.elements = [];
-        // Calculate the coordinate extent from the center for the outermost squares
-        const border = (this.cubeOrder * this._size) / 2 - 0.5 * this._size;
+        this.model.reset();
+        // Calculate the coordinate extent from the center for the outermost squares along each axis
+        const [borderX, borderY, borderZ] = this.dims.map(
+            (n) => (n * this._size) / 2 - 0.5 * this._size
+        );
 
         // Generate squares for the Top (Y+) and Bottom (Y-) faces
-        for (let x = -border; x <= border; x += this._size) {
-            for (let z = -border; z <= border; z += this._size) {
+        for (let x = -borderX; x <= borderX; x += this._size) {
+            for (let z = -borderZ; z <= borderZ; z += this._size) {
                 // Top face (Y+)
                 this.elements.push({
                     color: this.colors[0],
-                    pos: new Vector3(x, border + this._size * 0.5, z),
+                    pos: new Vector3(x, borderY + this._size * 0.5, z),
                     normal: new Vector3(0, 1, 0),
+                    up: new Vector3(...FACE_UPS[0]),
+                    // Only odd orders have a fixed center square, at 0
                     withLogo: x === 0 && z === 0, // Center square might have a logo
                 });
                 // Bottom face (Y-)
                 this.elements.push({
                     color: this.colors[1],
-                    pos: new Vector3(x, -border - this._size * 0.5, z),
+                    pos: new Vector3(x, -borderY - this._size * 0.5, z),
                     normal: new Vector3(0, -1, 0),
+                    up: new Vector3(...FACE_UPS[1]),
                     withLogo: x === 0 && z === 0,
                 });
             }
         }
 
         // Generate squares for the Left (X-) and Right (X+) faces
-        for (let y = -border; y <= border; y += this._size) {
-            for (let z = -border; z <= border; z += this._size) {
+        for (let y = -borderY; y <= borderY; y += this._size) {
+            for (let z = -borderZ; z <= borderZ; z += this._size) {
                 // Left face (X-)
                 this.elements.push({
                     color: this.colors[2],
-                    pos: new Vector3(-border - this._size * 0.5, y, z),
+                    pos: new Vector3(-borderX - this._size * 0.5, y, z),
                     normal: new Vector3(-1, 0, 0),
+                    up: new Vector3(...FACE_UPS[2]),
                     withLogo: y === 0 && z === 0,
                 });
                 // Right face (X+)
                 this.elements.push({
                     color: this.colors[3],
-                    pos: new Vector3(border + this._size * 0.5, y, z),
+                    pos: new Vector3(borderX + this._size * 0.5, y, z),
                     normal: new Vector3(1, 0, 0),
+                    up: new Vector3(...FACE_UPS[3]),
                     withLogo: y === 0 && z === 0,
                 });
             }
         }
 
         // Generate squares for the Front (Z+) and Back (Z-) faces
-        for (let x = -border; x <= border; x += this._size) {
-            for (let y = -border; y <= border; y += this._size) {
+        for (let x = -borderX; x <= borderX; x += this._size) {
+            for (let y = -borderY; y <= borderY; y += this._size) {
                 // Front face (Z+)
                 this.elements.push({
                     color: this.colors[4],
-                    pos: new Vector3(x, y, border + this._size * 0.5),
+                    pos: new Vector3(x, y, borderZ + this._size * 0.5),
                     normal: new Vector3(0, 0, 1),
+                    up: new Vector3(...FACE_UPS[4]),
                     withLogo: x === 0 && y === 0,
                 });
                 // Back face (Z-)
                 this.elements.push({
                     color: this.colors[5],
-                    pos: new Vector3(x, y, -border - this._size * 0.5),
+                    pos: new Vector3(x, y, -borderZ - this._size * 0.5),
                     normal: new Vector3(0, 0, -1),
+                    up: new Vector3(...FACE_UPS[5]),
                     withLogo: x === 0 && y === 0,
                 });
             }
@@ -168,17 +210,90 @@ class CubeData {
     }
 
     /**
-     * Saves the current state of the `elements` array to localStorage.
-     * The data is stored as a JSON string under a key specific to the cube order.
+     * Rebuilds the `elements` array from the cube model.
+     * Used after the model has been changed directly (e.g. by a scramble) instead of through square rotations.
+     */
+    public syncElementsFromModel() {
+        const half = this._size * 0.5;
+        this.elements = this.model.getStickers().map((sticker) => {
+            // The sticker's solved face tells which axes its center flag depends on
+            const homeNormal = FACE_NORMALS[sticker.color];
+            const isCenter = sticker.home.every(
+                (v, axis) => homeNormal[axis] !== 0 || v === 0
+            );
+            // Convert doubled cubie coordinates to element units and step out onto the face
+            const [x, y, z] = sticker.pos.map(
+                (v, axis) => v * half + sticker.normal[axis] * half
+            );
+            return {
+                color: this.colors[sticker.color],
+                pos: new Vector3(x, y, z),
+                normal: new Vector3(...sticker.normal),
+                up: new Vector3(...sticker.up),
+                withLogo: isCenter,
+            };
+        });
+    }
+
+    /**
+     * Prefix of the localStorage keys of this cube: the order for cubes (e.g. "3"), the dimensions for cuboids (e.g. "2x2x3").
+     * @returns {string} The key prefix.
+     */
+    private get storageKey() {
+        return formatDimensions(this.dims);
+    }
+
+    /**
+     * Saves the current state of the `elements` array and the cube model to localStorage.
+     * The data is stored as JSON strings under keys specific to the cube size.
+     * Nothing is saved for a cube that is not persistent.
      */
     public saveDataToLocal() {
+        if (!this.persistent) return;
         // Convert elements array to JSON string
         const data = JSON.stringify(this.elements);
 
         // Save to localStorage if available
         if (typeof localStorage !== "undefined") {
-            localStorage.setItem(`${this.cubeOrder}-Rubik`, data);
+            localStorage.setItem(`${this.storageKey}-Rubik`, data);
+            localStorage.setItem(
+                `${this.storageKey}-RubikModel`,
+                JSON.stringify(this.model)
+            );
+        }
+    }
+
+    /**
+     * Retrieves and parses the cube model from localStorage.
+     *
+     * @returns {CubeModel | null} The stored model, or null if none is stored or it does not match the current size.
+     */
+    public getLocalModel(): CubeModel | null {
+        if (typeof localStorage !== "undefined") {
+            const data = localStorage.getItem(`${this.storageKey}-RubikModel`);
+
+            if (data) {
+                try {
+                    const parseData: CubeModelJSON = JSON.parse(data);
+                    const model = CubeModel.fromJSON(parseData);
+                    if (
+                        !model ||
+                        model.dims.some((n, axis) => n !== this.dims[axis])
+                    ) {
+                        return null;
+                    }
+                    return model;
+                } catch (error) {
+                    console.error(
+                        "Error parsing cube model from localStorage:",
+                        error
+                    );
+                    // Clear potentially corrupted data
+                    localStorage.removeItem(`${this.storageKey}-RubikModel`);
+                }
+            }
         }
+        return null;
     }
 
     /**
@@ -190,8 +305,8 @@ class CubeData {
     public getLocalData(): CubeElement[] {
         // Check if localStorage is available
         if (typeof localStorage !== "undefined") {
-            // Retrieve data string using the order-specific key
-            const data = localStorage.getItem(`${this.cubeOrder}-Rubik`);
+            // Retrieve data string using the size-specific key
+            const data = localStorage.getItem(`${this.storageKey}-Rubik`);
 
             if (data) {
                 try {
@@ -200,6 +315,7 @@ class CubeData {
                         color: ColorRepresentation;
                         pos: { x: number; y: number; z: number };
                         normal: { x: number; y: number; z: number };
+                        up?: { x: number; y: number; z: number };
                         withLogo?: boolean;
                     }[] = JSON.parse(data);
 
@@ -215,6 +331,14 @@ class CubeData {
                             item.pos.y,
                             item.pos.z
                         );
+                        // Missing in older saves
+                        if (item.up) {
+                            item.up = new Vector3(
+                                item.up.x,
+                                item.up.y,
+                                item.up.z
+                            );
+                        }
                     });
 
                     // Return the reconstructed data, cast to the correct type
@@ -225,7 +349,7 @@ class CubeData {
                         error
                     );
                     // Clear potentially corrupted data
-                    localStorage.removeItem(`${this.cubeOrder}-Rubik`);
+                    localStorage.removeItem(`${this.storageKey}-Rubik`);
                     return [];
                 }
             }
@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import CubeModel, { Vec3 } from "./cubeModel";
+import { applyAlgorithmToModel, invertMoves, parseAlgorithm } from "./notation";
+import { generateScrambleMoves } from "./scramble";
+import { createRandom } from "./random";
+
+/** Every cube order that can be played. */
+const ORDERS = Array.from({ length: 10 }, (_, i) => i + 1);
+
+/** A few cuboids, including ones with a single layer along an axis. */
+const CUBOIDS: Vec3[] = [
+    [2, 2, 3],
+    [3, 3, 2],
+    [2, 3, 4],
+    [1, 2, 3],
+    [3, 1, 3],
+];
+
+describe("CubeModel", () => {
+    it.each(ORDERS)("starts solved on a cube of order %i", (order) => {
+        const model = new CubeModel(order);
+        expect(model.isSolved()).toBe(true);
+        expect(model.order).toBe(order);
+        expect(model.getStickers()).toHaveLength(6 * order * order);
+    });
+
+    it.each(ORDERS.filter((order) => order > 1))(
+        "is no longer solved after a face turn on a cube of order %i",
+        (order) => {
+            const model = new CubeModel(order);
+            applyAlgorithmToModel(model, "R");
+            expect(model.isSolved()).toBe(false);
+            expect(model.equals(new CubeModel(order))).toBe(false);
+        }
+    );
+
+    it("gets back to solved after four quarter turns of a layer", () => {
+        const model = new CubeModel(3);
+        applyAlgorithmToModel(model, "R R R");
+        expect(model.isSolved()).toBe(false);
+        applyAlgorithmToModel(model, "R");
+        expect(model.isSolved()).toBe(true);
+        expect(model.equals(new CubeModel(3))).toBe(true);
+    });
+
+    it("repeats a sexy move six times to get back to solved", () => {
+        const model = new CubeModel(3);
+        for (let i = 0; i < 6; i++) {
+            applyAlgorithmToModel(model, "R U R' U'");
+            if (i < 5) expect(model.isSolved()).toBe(false);
+        }
+        expect(model.isSolved()).toBe(true);
+    });
+
+    it.each(ORDERS)(
+        "undoes a scramble with its inverse on a cube of order %i",
+        (order) => {
+            const model = new CubeModel(order);
+            const scramble = generateScrambleMoves(
+                order,
+                undefined,
+                createRandom(`order-${order}`)
+            );
+            applyAlgorithmToModel(model, scramble);
+            // A 1x1 has no layer turns, so its scramble is empty
+            expect(model.isSolved()).toBe(order === 1);
+            applyAlgorithmToModel(model, invertMoves(scramble));
+            expect(model.isSolved()).toBe(true);
+            expect(model.equals(new CubeModel(order))).toBe(true);
+        }
+    );
+
+    it.each(CUBOIDS)(
+        "undoes a scramble with its inverse on a %ix%ix%i cuboid",
+        (...dims) => {
+            const model = new CubeModel(dims);
+            const scramble = generateScrambleMoves(
+                dims,
+                undefined,
+                createRandom(dims.join("x"))
+            );
+            applyAlgorithmToModel(model, scramble);
+            expect(model.isSolved()).toBe(false);
+            applyAlgorithmToModel(model, invertMoves(scramble));
+            expect(model.isSolved()).toBe(true);
+            expect(model.equals(new CubeModel(dims))).toBe(true);
+        }
+    );
+
+    it("only turns the non-square layers of a cuboid by half turns", () => {
+        const model = new CubeModel([2, 2, 3]);
+        expect(model.canTurn(2, 1)).toBe(true);
+        expect(model.canTurn(0, 1)).toBe(false);
+        expect(model.canTurn(0, 2)).toBe(true);
+        expect(() => applyAlgorithmToModel(model, "R")).toThrow();
+        // An invalid move leaves the model untouched
+        expect(model.isSolved()).toBe(true);
+        applyAlgorithmToModel(model, "R2");
+        expect(model.isSolved()).toBe(false);
+    });
+
+    it("ignores whole-cube rotations when checking solved", () => {
+        const model = new CubeModel(4);
+        applyAlgorithmToModel(model, "x y2 z'");
+        expect(model.isSolved()).toBe(true);
+        // The stickers are in other places, so the states differ
+        expect(model.equals(new CubeModel(4))).toBe(false);
+    });
+
+    it("treats states reached by different move sequences as equal", () => {
+        const a = new CubeModel(3);
+        const b = new CubeModel(3);
+        applyAlgorithmToModel(a, "R2 U2");
+        applyAlgorithmToModel(b, "R R U' U'");
+        expect(a.equals(b)).toBe(true);
+        applyAlgorithmToModel(b, "F");
+        expect(a.equals(b)).toBe(false);
+    });
+
+    it("does not compare cubes of different sizes as equal", () => {
+        expect(new CubeModel(3).equals(new CubeModel(4))).toBe(false);
+        expect(new CubeModel([2, 2, 3]).equals(new CubeModel([2, 3, 2]))).toBe(
+            false
+        );
+    });
+
+    it("keeps its state through JSON", () => {
+        const model = new CubeModel(5);
+        applyAlgorithmToModel(model, parseAlgorithm("R 2U' Fw2 3Lw"));
+        const copy = CubeModel.fromJSON(
+            JSON.parse(JSON.stringify(model.toJSON()))
+        );
+        expect(copy).not.toBeNull();
+        expect(copy!.equals(model)).toBe(true);
+        expect(CubeModel.fromJSON({ ...model.toJSON(), cubies: [] })).toBe(
+            null
+        );
+    });
+
+    it("resets to solved", () => {
+        const model = new CubeModel(6);
+        applyAlgorithmToModel(model, "R U F'");
+        model.reset();
+        expect(model.isSolved()).toBe(true);
+    });
+});
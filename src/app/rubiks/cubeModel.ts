@@ -0,0 +1,559 @@
+/**
+ * Headless, cubie-level model of an N x N x N Rubik's Cube, or of an X x Y x Z cuboid.
+ * This module has no dependency on three.js so puzzle logic can run (and be tested) on Node.
+ *
+ * Coordinates are "doubled" integers: a cubie of an order N cube sits at coordinates
+ * in the range -(N - 1) .. (N - 1) in steps of 2, so both odd and even orders stay integral.
+ * A cuboid has its own range along each axis.
+ */
+
+/** Type alias for an integer 3D vector `[x, y, z]`. */
+export type Vec3 = [number, number, number];
+
+/** Type alias for an integer 3x3 rotation matrix stored in row-major order. */
+export type Mat3 = number[];
+
+/** Index of a rotation axis: 0 = X, 1 = Y, 2 = Z. */
+export type Axis = 0 | 1 | 2;
+
+/**
+ * Index of a cube face. The order matches `CubeColor` in `cubeData.ts`:
+ * 0 = Top (Y+), 1 = Bottom (Y-), 2 = Left (X-), 3 = Right (X+), 4 = Front (Z+), 5 = Back (Z-).
+ */
+export type Face = 0 | 1 | 2 | 3 | 4 | 5;
+
+/** Outward normal of each face, indexed by `Face`. */
+export const FACE_NORMALS: Vec3[] = [
+    [0, 1, 0], // Top (Y+)
+    [0, -1, 0], // Bottom (Y-)
+    [-1, 0, 0], // Left (X-)
+    [1, 0, 0], // Right (X+)
+    [0, 0, 1], // Front (Z+)
+    [0, 0, -1], // Back (Z-)
+];
+
+/**
+ * Direction the top edge of each face's stickers points to in the solved state, indexed by `Face`:
+ * up for the side faces, towards the back for the top face and towards the front for the bottom face.
+ * Together with the normal, it fixes how a sticker's image is oriented.
+ */
+export const FACE_UPS: Vec3[] = [
+    [0, 0, -1], // Top (Y+)
+    [0, 0, 1], // Bottom (Y-)
+    [0, 1, 0], // Left (X-)
+    [0, 1, 0], // Right (X+)
+    [0, 1, 0], // Front (Z+)
+    [0, 1, 0], // Back (Z-)
+];
+
+/**
+ * Interface describing a single cubie (small cube) of the puzzle.
+ * @interface Cubie
+ * @property {Vec3} home - The position of the cubie in the solved state (doubled coordinates).
+ * @property {Vec3} pos - The current position of the cubie (doubled coordinates).
+ * @property {Mat3} rot - The accumulated rotation applied to the cubie since the solved state.
+ */
+export interface Cubie {
+    home: Vec3;
+    pos: Vec3;
+    rot: Mat3;
+}
+
+/**
+ * Interface describing one visible sticker of the model.
+ * @interface Sticker
+ * @property {Vec3} pos - The current position of the sticker's cubie (doubled coordinates).
+ * @property {Vec3} normal - The direction the sticker currently faces.
+ * @property {Face} color - The face the sticker belonged to in the solved state.
+ * @property {Vec3} home - The solved-state position of the sticker's cubie.
+ * @property {Vec3} up - The direction the top edge of the sticker currently points to (see `FACE_UPS`).
+ */
+export interface Sticker {
+    pos: Vec3;
+    normal: Vec3;
+    color: Face;
+    home: Vec3;
+    up: Vec3;
+}
+
+/**
+ * Interface describing where a sticker sits on its face in the solved state, as a cell of the face's grid.
+ * Columns run along the face's right direction and rows along its up direction (see `FACE_UPS`).
+ * @interface StickerTile
+ * @property {number} column - The column of the sticker, from 0 (left).
+ * @property {number} row - The row of the sticker, from 0 (bottom).
+ * @property {number} columns - The number of columns of the face.
+ * @property {number} rows - The number of rows of the face.
+ */
+export interface StickerTile {
+    column: number;
+    row: number;
+    columns: number;
+    rows: number;
+}
+
+/**
+ * Plain serialisable form of a `CubeModel`, used for persistence.
+ * @interface CubeModelJSON
+ * @property {number} order - The order of the cube (the largest dimension of a cuboid).
+ * @property {Vec3} [dims] - The number of layers along X, Y and Z (missing in older saves, which are all cubes).
+ * @property {Cubie[]} cubies - The cubies and their current placement.
+ */
+export interface CubeModelJSON {
+    order: number;
+    dims?: Vec3;
+    cubies: Cubie[];
+}
+
+/**
+ * Converts the size of a puzzle, given as an order (a cube) or as dimensions (a cuboid),
+ * into the number of layers along each axis.
+ * @param {number | Vec3} size - The order of a cube, or the layers along X, Y and Z of a cuboid.
+ * @returns {Vec3} The number of layers along X, Y and Z.
+ */
+export const toDimensions = (size: number | Vec3): Vec3 =>
+    typeof size === "number" ? [size, size, size] : [...size];
+
+/**
+ * Writes the size of a puzzle for display and storage keys, e.g. "3" for a cube or "2x2x3" for a cuboid.
+ * @param {Vec3} dims - The number of layers along X, Y and Z.
+ * @returns {string} The size as text.
+ */
+export const formatDimensions = (dims: Vec3) =>
+    dims[0] === dims[1] && dims[1] === dims[2]
+        ? String(dims[0])
+        : dims.join("x");
+
+/** The identity rotation. */
+const IDENTITY: Mat3 = [1, 0, 0, 0, 1, 0, 0, 0, 1];
+
+/**
+ * Builds the rotation matrix for a number of quarter turns around a principal axis.
+ * Positive turns follow the right-hand rule (counter-clockwise when looking from +axis to the origin),
+ * which matches `Matrix4.makeRotationAxis` in three.js.
+ *
+ * @param {Axis} axis - The axis of rotation.
+ * @param {number} quarterTurns - The number of quarter turns (any integer, negative allowed).
+ * @returns {Mat3} The rotation matrix.
+ */
+export const quarterTurnMatrix = (axis: Axis, quarterTurns: number): Mat3 => {
+    // Normalise to 0..3 and read exact integer cosine/sine values
+    const q = ((quarterTurns % 4) + 4) % 4;
+    const c = [1, 0, -1, 0][q];
+    const s = [0, 1, 0, -1][q];
+
+    if (axis === 0) return [1, 0, 0, 0, c, -s, 0, s, c];
+    if (axis === 1) return [c, 0, s, 0, 1, 0, -s, 0, c];
+    return [c, -s, 0, s, c, 0, 0, 0, 1];
+};
+
+/**
+ * Multiplies two 3x3 matrices (`a * b`).
+ * @param {Mat3} a - The left matrix.
+ * @param {Mat3} b - The right matrix.
+ * @returns {Mat3} The product.
+ */
+export const multiplyMat3 = (a: Mat3, b: Mat3): Mat3 => {
+    const out: Mat3 = [];
+    for (let r = 0; r < 3; r++) {
+        for (let c = 0; c < 3; c++) {
+            out.push(
+                a[r * 3] * b[c] +
+                    a[r * 3 + 1] * b[3 + c] +
+                    a[r * 3 + 2] * b[6 + c]
+            );
+        }
+    }
+    return out;
+};
+
+/**
+ * Applies a 3x3 matrix to a vector (`m * v`).
+ * @param {Mat3} m - The matrix.
+ * @param {Vec3} v - The vector.
+ * @returns {Vec3} The transformed vector.
+ */
+export const applyMat3 = (m: Mat3, v: Vec3): Vec3 => [
+    m[0] * v[0] + m[1] * v[1] + m[2] * v[2],
+    m[3] * v[0] + m[4] * v[1] + m[5] * v[2],
+    m[6] * v[0] + m[7] * v[1] + m[8] * v[2],
+];
+
+/**
+ * Applies the inverse of a rotation matrix to a vector (`m^T * v`, as rotations are orthogonal).
+ * @param {Mat3} m - The rotation matrix.
+ * @param {Vec3} v - The vector.
+ * @returns {Vec3} The transformed vector.
+ */
+export const applyInverseMat3 = (m: Mat3, v: Vec3): Vec3 => [
+    m[0] * v[0] + m[3] * v[1] + m[6] * v[2],
+    m[1] * v[0] + m[4] * v[1] + m[7] * v[2],
+    m[2] * v[0] + m[5] * v[1] + m[8] * v[2],
+];
+
+/**
+ * Finds the face whose outward normal equals the given unit vector.
+ * @param {Vec3} normal - An axis-aligned unit vector.
+ * @returns {Face} The matching face index.
+ */
+export const faceOfNormal = (normal: Vec3): Face =>
+    FACE_NORMALS.findIndex(
+        (n) => n[0] === normal[0] && n[1] === normal[1] && n[2] === normal[2]
+    ) as Face;
+
+/** Builds a string key for a position, used for lookups. */
+const posKey = (pos: Vec3) => `${pos[0]},${pos[1]},${pos[2]}`;
+
+/**
+ * Pure TypeScript model of the cube as a permutation and orientation of cubies.
+ * Supports any order N >= 1 and any cuboid, applying layer turns, comparing states and checking solved-ness.
+ * On a cuboid, layers whose face is not square only turn by half turns.
+ */
+class CubeModel {
+    /** The number of layers along X, Y and Z (all equal for a cube). */
+    public readonly dims: Vec3;
+    /** All surface cubies of the cube. Interior cubies are never visible and are not modelled. */
+    public cubies: Cubie[] = [];
+
+    /**
+     * Creates a model of a solved cube or cuboid.
+     * @param {number | Vec3} [size=3] - The order of a cube, or the layers along X, Y and Z of a cuboid.
+     */
+    public constructor(size: number | Vec3 = 3) {
+        this.dims = toDimensions(size);
+        this.reset();
+    }
+
+    /** The order (size) of the cube (e.g., 3 for a 3x3x3 cube); the largest dimension of a cuboid. */
+    public get order() {
+        return Math.max(...this.dims);
+    }
+
+    /** Whether the puzzle is a cube, i.e. has the same number of layers along every axis. */
+    public get isCube() {
+        return this.dims.every((n) => n === this.dims[0]);
+    }
+
+    /** The largest coordinate value of a cube, i.e. the coordinate of the outermost layer. */
+    public get border() {
+        return this.order - 1;
+    }
+
+    /**
+     * Gets the coordinate of the outermost layer along an axis.
+     * @param {Axis} axis - The axis.
+     * @returns {number} The largest coordinate value along the axis.
+     */
+    public borderOf(axis: Axis) {
+        return this.dims[axis] - 1;
+    }
+
+    /**
+     * Checks whether layers perpendicular to an axis can turn by a number of quarter turns.
+     * Quarter turns need a square face: the two other dimensions must be equal.
+     *
+     * @param {Axis} axis - The axis of rotation.
+     * @param {number} quarterTurns - The number of quarter turns.
+     * @returns {boolean} True if the turn keeps the puzzle's shape.
+     */
+    public canTurn(axis: Axis, quarterTurns: number) {
+        const [u, v] = ([0, 1, 2] as Axis[]).filter((a) => a !== axis);
+        return quarterTurns % 2 === 0 || this.dims[u] === this.dims[v];
+    }
+
+    /**
+     * Resets the model to the solved state.
+     */
+    public reset() {
+        this.cubies = [];
+        const [bx, by, bz] = [0, 1, 2].map((a) => this.borderOf(a as Axis));
+        for (let x = -bx; x <= bx; x += 2) {
+            for (let y = -by; y <= by; y += 2) {
+                for (let z = -bz; z <= bz; z += 2) {
+                    // Only keep cubies that show at least one sticker
+                    if (
+                        Math.abs(x) !== bx &&
+                        Math.abs(y) !== by &&
+                        Math.abs(z) !== bz
+                    ) {
+                        continue;
+                    }
+                    this.cubies.push({
+                        home: [x, y, z],
+                        pos: [x, y, z],
+                        rot: IDENTITY.slice(),
+                    });
+                }
+            }
+        }
+    }
+
+    /**
+     * Converts a layer index (0 = most negative, order - 1 = most positive) into its doubled coordinate.
+     * @param {number} layer - The layer index.
+     * @param {Axis} [axis=0] - The axis the layer is counted along (only matters for cuboids).
+     * @returns {number} The coordinate of the layer along its axis.
+     */
+    public layerCoord(layer: number, axis: Axis = 0) {
+        return layer * 2 - this.borderOf(axis);
+    }
+
+    /**
+     * Turns a set of layers perpendicular to an axis.
+     *
+     * @param {Axis} axis - The axis of rotation.
+     * @param {number[]} layers - The layer indices to turn (0 .. order - 1).
+     * @param {number} quarterTurns - The number of quarter turns, positive following the right-hand rule.
+     * @throws {Error} If the layers of a cuboid cannot turn by a quarter turn (see `canTurn`).
+     */
+    public turnLayers(axis: Axis, layers: number[], quarterTurns: number) {
+        if (((quarterTurns % 4) + 4) % 4 === 0) return; // Nothing to do
+        if (!this.canTurn(axis, quarterTurns)) {
+            throw new Error(
+                `Layers around the ${"XYZ"[axis]} axis of a ${formatDimensions(
+                    this.dims
+                )} cuboid only turn by half turns`
+            );
+        }
+        const coords = layers.map((layer) => this.layerCoord(layer, axis));
+        const mat = quarterTurnMatrix(axis, quarterTurns);
+
+        for (let i = 0; i < this.cubies.length; i++) {
+            const cubie = this.cubies[i];
+            if (!coords.includes(cubie.pos[axis])) continue;
+            cubie.pos = applyMat3(mat, cubie.pos);
+            cubie.rot = multiplyMat3(mat, cubie.rot);
+        }
+    }
+
+    /**
+     * Turns a single layer perpendicular to an axis.
+     *
+     * @param {Axis} axis - The axis of rotation.
+     * @param {number} layer - The layer index (0 .. order - 1).
+     * @param {number} quarterTurns - The number of quarter turns, positive following the right-hand rule.
+     */
+    public turn(axis: Axis, layer: number, quarterTurns: number) {
+        this.turnLayers(axis, [layer], quarterTurns);
+    }
+
+    /**
+     * Rotates the whole cube around an axis.
+     *
+     * @param {Axis} axis - The axis of rotation.
+     * @param {number} quarterTurns - The number of quarter turns, positive following the right-hand rule.
+     */
+    public rotate(axis: Axis, quarterTurns: number) {
+        const layers = Array.from({ length: this.dims[axis] }, (_, i) => i);
+        this.turnLayers(axis, layers, quarterTurns);
+    }
+
+    /**
+     * Computes the sticker colors of every face.
+     * Each face is listed as `order * order` face indices (the face the sticker belonged to when solved),
+     * iterating the two remaining axes in ascending X, Y, Z priority.
+     *
+     * @returns {Face[][]} The sticker colors, indexed by face.
+     */
+    public getFacelets(): Face[][] {
+        const byPos = new Map<string, Cubie>();
+        this.cubies.forEach((cubie) => byPos.set(posKey(cubie.pos), cubie));
+
+        return FACE_NORMALS.map((normal) => {
+            const axis = normal.findIndex((v) => v !== 0) as Axis;
+            const [u, v] = ([0, 1, 2] as Axis[]).filter((a) => a !== axis);
+            const [bu, bv] = [this.borderOf(u), this.borderOf(v)];
+            const stickers: Face[] = [];
+            for (let i = -bu; i <= bu; i += 2) {
+                for (let j = -bv; j <= bv; j += 2) {
+                    const pos: Vec3 = [0, 0, 0];
+                    pos[axis] = normal[axis] * this.borderOf(axis);
+                    pos[u] = i;
+                    pos[v] = j;
+                    const cubie = byPos.get(posKey(pos))!;
+                    // The sticker now facing `normal` originally faced rot^-1 * normal
+                    stickers.push(
+                        faceOfNormal(applyInverseMat3(cubie.rot, normal))
+                    );
+                }
+            }
+            return stickers;
+        });
+    }
+
+    /**
+     * Lists every visible sticker with its current placement.
+     * @returns {Sticker[]} All `6 * order * order` stickers (fewer on a cuboid), in no particular order.
+     */
+    public getStickers(): Sticker[] {
+        const stickers: Sticker[] = [];
+        for (let i = 0; i < this.cubies.length; i++) {
+            const cubie = this.cubies[i];
+            FACE_NORMALS.forEach((normal) => {
+                const axis = normal.findIndex((v) => v !== 0) as Axis;
+                // A cubie shows a sticker on each face whose outer layer it sits in
+                if (cubie.pos[axis] !== normal[axis] * this.borderOf(axis))
+                    return;
+                const color = faceOfNormal(applyInverseMat3(cubie.rot, normal));
+                stickers.push({
+                    pos: [...cubie.pos] as Vec3,
+                    normal: [...normal] as Vec3,
+                    color,
+                    home: [...cubie.home] as Vec3,
+                    up: applyMat3(cubie.rot, FACE_UPS[color]),
+                });
+            });
+        }
+        return stickers;
+    }
+
+    /**
+     * Finds where a sticker sat on its face in the solved state, e.g. to show one tile of a picture on it.
+     * @param {Sticker} sticker - A sticker of this model.
+     * @returns {StickerTile} The sticker's cell in the grid of its solved face.
+     */
+    public getStickerTile(sticker: Sticker): StickerTile {
+        const normal = FACE_NORMALS[sticker.color];
+        const up = FACE_UPS[sticker.color];
+        // right = up x normal, so that right, up and normal form a right-handed frame
+        const right: Vec3 = [
+            up[1] * normal[2] - up[2] * normal[1],
+            up[2] * normal[0] - up[0] * normal[2],
+            up[0] * normal[1] - up[1] * normal[0],
+        ];
+        const cell = (direction: Vec3) => {
+            const axis = direction.findIndex((v) => v !== 0) as Axis;
+            const coord = sticker.home[axis] * direction[axis];
+            return [(coord + this.borderOf(axis)) / 2, this.dims[axis]];
+        };
+        const [column, columns] = cell(right);
+        const [row, rows] = cell(up);
+        return { column, row, columns, rows };
+    }
+
+    /**
+     * Checks if the cube is solved, i.e. every face shows a single color.
+     * Whole-cube orientation is ignored, so a rotated but solved cube still counts as solved.
+     *
+     * @returns {boolean} True if the cube is solved, false otherwise.
+     */
+    public isSolved() {
+        return this.getFacelets().every((stickers) =>
+            stickers.every((color) => color === stickers[0])
+        );
+    }
+
+    /**
+     * Checks if the cube is solved as a supercube: every face shows a single color and the center
+     * stickers (or, with `everySticker`, all stickers) are upright, as on a cube with a picture on
+     * each sticker. Whole-cube orientation is ignored, like in `isSolved`.
+     *
+     * @param {boolean} [everySticker=false] - Whether every sticker must be upright, not just the centers.
+     * @returns {boolean} True if the cube is solved with the required stickers upright.
+     */
+    public isSupercubeSolved(everySticker = false) {
+        if (!this.isSolved()) return false;
+        // The piece with the most stickers (a corner) can only sit one way on a solved cube,
+        // so its rotation is the rotation of the whole cube
+        const counts = this.cubies.map((cubie) =>
+            this.countStickers(cubie.pos)
+        );
+        const reference = this.cubies[counts.indexOf(Math.max(...counts))];
+        return this.cubies.every(
+            (cubie, i) =>
+                (!everySticker && counts[i] !== 1) ||
+                cubie.rot.every((v, j) => v === reference.rot[j])
+        );
+    }
+
+    /**
+     * Checks if every cubie is back in its solved place and orientation, as on a picture cube where
+     * every sticker shows a different tile. Whole-cube orientation is ignored, like in `isSolved`.
+     *
+     * @returns {boolean} True if the picture on every face is reassembled.
+     */
+    public isPictureSolved() {
+        if (!this.isSupercubeSolved(true)) return false;
+        // Every cubie is turned like the whole cube, so it must sit where the whole cube's turn took its home
+        const rot = this.cubies[0].rot;
+        return this.cubies.every((cubie) =>
+            applyMat3(rot, cubie.home).every((v, axis) => v === cubie.pos[axis])
+        );
+    }
+
+    /**
+     * Counts the stickers shown by a cubie at a position: one per face whose outer layer it sits in.
+     * @param {Vec3} pos - The cubie position (doubled coordinates).
+     * @returns {number} The number of stickers, 1 for a center piece.
+     */
+    private countStickers(pos: Vec3) {
+        return FACE_NORMALS.filter((normal) => {
+            const axis = normal.findIndex((v) => v !== 0) as Axis;
+            return pos[axis] === normal[axis] * this.borderOf(axis);
+        }).length;
+    }
+
+    /**
+     * Checks if two models show the same stickers in the same places.
+     * Identical-looking pieces (e.g. centers of larger cubes) are treated as equal.
+     *
+     * @param {CubeModel} other - The model to compare with.
+     * @returns {boolean} True if both models look the same.
+     */
+    public equals(other: CubeModel) {
+        if (other.dims.some((n, axis) => n !== this.dims[axis])) return false;
+        const a = this.getFacelets();
+        const b = other.getFacelets();
+        return a.every((stickers, f) =>
+            stickers.every((color, i) => color === b[f][i])
+        );
+    }
+
+    /**
+     * Creates a deep copy of this model.
+     * @returns {CubeModel} The copy.
+     */
+    public clone() {
+        return CubeModel.fromJSON(this.toJSON())!;
+    }
+
+    /**
+     * Converts the model to a plain object suitable for `JSON.stringify`.
+     * @returns {CubeModelJSON} The serialisable representation.
+     */
+    public toJSON(): CubeModelJSON {
+        return {
+            order: this.order,
+            dims: [...this.dims] as Vec3,
+            cubies: this.cubies.map((cubie) => ({
+                home: [...cubie.home] as Vec3,
+                pos: [...cubie.pos] as Vec3,
+                rot: cubie.rot.slice(),
+            })),
+        };
+    }
+
+    /**
+     * Rebuilds a model from its serialised form.
+     *
+     * @param {CubeModelJSON} data - The serialised model.
+     * @returns {CubeModel | null} The model, or null if the data does not describe a valid cube.
+     */
+    public static fromJSON(data: CubeModelJSON): CubeModel | null {
+        const model = new CubeModel(data.dims ?? data.order);
+        if (
+            !Array.isArray(data.cubies) ||
+            data.cubies.length !== model.cubies.length
+        ) {
+            return null;
+        }
+        model.cubies = data.cubies.map((cubie) => ({
+            home: [...cubie.home] as Vec3,
+            pos: [...cubie.pos] as Vec3,
+            rot: cubie.rot.slice(),
+        }));
+        return model;
+    }
+}
+
+export default CubeModel;
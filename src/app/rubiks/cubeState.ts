@@ -1,5 +1,7 @@
 import { Vector3, Vector2 } from "three";
 import { SquareMesh } from "./square";
+import CubeModel from "./cubeModel";
+import { LayerTurn } from "./notation";
 
 /**
  * Interface defining the direction of a rotation initiated by user input.
@@ -14,14 +16,20 @@ export interface RotateDirection {
     endSquare: SquareMesh;
 }
 
+/**
+ * How strictly a solve is checked: "standard" only compares colors, "supercube" also requires
+ * the centers to be upright (every sticker on a cube showing an image).
+ */
+export type SolveMode = "standard" | "supercube";
+
 /**
  * Manages the dynamic state of the Rubik's Cube, particularly during rotations.
  * Tracks which squares are currently rotating, the axis and angle of rotation,
  * and provides validation for the solved state.
  */
 class CubeState {
-    /** Array of all square meshes belonging to the cube. */
-    private _squares: SquareMesh[];
+    /** The headless cube model used to validate the solved state. */
+    private _model: CubeModel;
     /** Flag indicating if a plane rotation is currently in progress (either dragging or animating). */
     public inRotation = false;
     /** The accumulated rotation angle (in radians) during a drag operation. Reset after snapping. */
@@ -34,13 +42,17 @@ class CubeState {
     public rotateDirection: RotateDirection | undefined;
     /** The axis of rotation in the cube's local coordinate system. */
     public rotateAxisLocal: Vector3 | undefined;
+    /** Completed layer turns, oldest first, for undo. */
+    private _history: LayerTurn[] = [];
+    /** Undone layer turns, most recently undone last, for redo. */
+    private _redoStack: LayerTurn[] = [];
 
     /**
      * Creates an instance of CubeState.
-     * @param {SquareMesh[]} squares - An array containing all the square meshes of the cube.
+     * @param {CubeModel} model - The headless model tracking the cube's pieces.
      */
-    public constructor(squares: SquareMesh[]) {
-        this._squares = squares;
+    public constructor(model: CubeModel) {
+        this._model = model;
     }
 
     /**
@@ -79,56 +91,94 @@ class CubeState {
     }
 
     /**
-     * Checks if the cube is currently in a solved state.
-     * A cube is solved if all squares on each face have the same color.
+     * Gets the completed layer turns that can be undone, oldest first.
+     * @returns {readonly LayerTurn[]} The move history.
+     */
+    public get history(): readonly LayerTurn[] {
+        return this._history;
+    }
+
+    /**
+     * Checks whether there is a turn to undo.
+     * @returns {boolean} True if the history is not empty.
+     */
+    public get canUndo() {
+        return this._history.length > 0;
+    }
+
+    /**
+     * Checks whether there is an undone turn to redo.
+     * @returns {boolean} True if the redo stack is not empty.
+     */
+    public get canRedo() {
+        return this._redoStack.length > 0;
+    }
+
+    /**
+     * Records a completed layer turn in the history.
+     * A new turn discards the turns that could have been redone.
      *
-     * @returns {boolean} True if the cube is solved, false otherwise.
+     * @param {LayerTurn} turn - The completed turn.
+     */
+    public recordTurn(turn: LayerTurn) {
+        this._history.push(turn);
+        this._redoStack = [];
+    }
+
+    /**
+     * Moves the last turn from the history to the redo stack.
+     * The caller is responsible for turning the cube back.
+     *
+     * @returns {LayerTurn | undefined} The turn to undo, or undefined if the history is empty.
      */
-    public validateFinish() {
-        let finish = true; // Assume solved initially
+    public undo() {
+        const turn = this._history.pop();
+        if (turn) this._redoStack.push(turn);
+        return turn;
+    }
 
-        // Define the six faces by their normal vectors
-        const sixPlane: {
-            nor: Vector3; // Normal vector of the face
-            squares: SquareMesh[]; // Squares belonging to this face
-        }[] = [
-            { nor: new Vector3(0, 1, 0), squares: [] }, // Top (Y+)
-            { nor: new Vector3(0, -1, 0), squares: [] }, // Bottom (Y-)
-            { nor: new Vector3(-1, 0, 0), squares: [] }, // Left (X-)
-            { nor: new Vector3(1, 0, 0), squares: [] }, // Right (X+)
-            { nor: new Vector3(0, 0, 1), squares: [] }, // Front (Z+)
-            { nor: new Vector3(0, 0, -1), squares: [] }, // Back (Z-)
-        ];
+    /**
+     * Moves the last undone turn from the redo stack back to the history.
+     * The caller is responsible for turning the cube again.
+     *
+     * @returns {LayerTurn | undefined} The turn to redo, or undefined if there is nothing to redo.
+     */
+    public redo() {
+        const turn = this._redoStack.pop();
+        if (turn) this._history.push(turn);
+        return turn;
+    }
 
-        // Group all squares by the face (normal vector) they belong to
-        for (let i = 0; i < this._squares.length; i++) {
-            const plane = sixPlane.find((item) =>
-                // Compare the square's normal with the face's normal
-                this._squares[i].element.normal.equals(item.nor)
-            );
-            // Add the square to the corresponding face's array
-            // The non-null assertion (!) is used assuming every square must belong to one of the six faces.
-            plane!.squares.push(this._squares[i]);
-        }
+    /**
+     * Forgets every recorded turn, e.g. after a scramble.
+     */
+    public clearHistory() {
+        this._history = [];
+        this._redoStack = [];
+    }
 
-        // Check each face to see if all its squares have the same color
-        for (let i = 0; i < sixPlane.length; i++) {
-            const plane = sixPlane[i];
-            // Use `every` to check if all squares in the plane match the color of the first square
-            if (
-                !plane.squares.every(
-                    (square) =>
-                        square.element.color === plane.squares[0].element.color
-                )
-            ) {
-                // If any face has mixed colors, the cube is not solved
-                finish = false;
-                break; // No need to check further faces
-            }
+    /**
+     * Checks if the cube is currently in a solved state.
+     * A cube is solved if all squares on each face have the same color; a supercube also needs its
+     * centers upright, or every sticker if the stickers show an image. A picture cube is solved
+     * once every picture is reassembled, whatever the mode.
+     * The check is driven by the headless cube model rather than the square meshes.
+     *
+     * @param {SolveMode} [mode="standard"] - How strictly the solve is checked.
+     * @param {boolean} [withImage=false] - Whether the stickers show an image, so every sticker's orientation is visible.
+     * @param {boolean} [withPicture=false] - Whether the faces show pictures sliced into one tile per sticker.
+     * @returns {boolean} True if the cube is solved, false otherwise.
+     */
+    public validateFinish(
+        mode: SolveMode = "standard",
+        withImage = false,
+        withPicture = false
+    ) {
+        if (withPicture) return this._model.isPictureSolved();
+        if (mode === "supercube") {
+            return this._model.isSupercubeSolved(withImage);
         }
-
-        // Return the final solved status
-        return finish;
+        return this._model.isSolved();
     }
 }
 
@@ -0,0 +1,38 @@
+/**
+ * An easing curve: maps the linear progress of a tween (0 to 1) to the shown progress.
+ * Every curve starts at 0 and ends exactly at 1; in between it may overshoot.
+ */
+export type Easing = (t: number) => number;
+
+/**
+ * Moves at a constant speed.
+ * @param {number} t - The linear progress, from 0 to 1.
+ * @returns {number} The same progress.
+ */
+export const linear: Easing = (t) => t;
+
+/**
+ * Starts fast and slows down towards the end (cubic ease-out).
+ * @param {number} t - The linear progress, from 0 to 1.
+ * @returns {number} The eased progress.
+ */
+export const easeOutCubic: Easing = (t) => 1 - Math.pow(1 - t, 3);
+
+/**
+ * Overshoots the end slightly and settles back, like a damped spring.
+ * @param {number} t - The linear progress, from 0 to 1.
+ * @returns {number} The eased progress, peaking at about 1.09.
+ */
+export const spring: Easing = (t) =>
+    // cos(2.5π) = 0, so the curve ends exactly at 1
+    t >= 1 ? 1 : 1 - Math.exp(-6 * t) * Math.cos(2.5 * Math.PI * t);
+
+/** Names of the easing curves a user can choose for turn animations. */
+export type EasingName = "linear" | "easeOut" | "spring";
+
+/** The easing curves a user can choose for turn animations, by name. */
+export const EASINGS: Record<EasingName, Easing> = {
+    linear,
+    easeOut: easeOutCubic,
+    spring,
+};
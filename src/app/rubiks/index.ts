@@ -10,18 +10,45 @@ import createCamera from "./camera";
 import createScene from "./scene";
 import createRenderer from "./renderer";
 import { Cube } from "./cube";
-import Control, { MouseControl, TouchControl } from "./control";
-import { setTime, setFinish } from "./statusbar";
+import Control, {
+    DEFAULT_GAMEPAD_MAP,
+    DEFAULT_KEY_MAP,
+    GamepadControl,
+    KeyboardControl,
+    loadGamepadMap,
+    loadKeyMap,
+    PointerControl,
+} from "./control";
+import { formatMove, LayerTurn, layerTurnToMove, Move } from "./notation";
+import { solveModel } from "./solver";
+import SolutionPlayer from "./solutionPlayer";
+import { getTutorHint, TutorHint } from "./tutor";
+import ReplayPlayer, { ReconstructionMove } from "./replayPlayer";
+import {
+    DEFAULT_TURN_ANIMATION,
+    loadTurnAnimation,
+    TurnAnimation,
+} from "./moveQueue";
+import { setTime, setFinish, setScramble, setInspection } from "./statusbar";
+import { createSeed } from "./random";
+import { formatDimensions, toDimensions, Vec3 } from "./cubeModel";
+import { SolveMode } from "./cubeState";
+import { DEFAULT_IMAGE_LAYOUT, ImageLayout, loadImageLayout } from "./square";
+import { CubeTheme, DEFAULT_THEME, loadTheme } from "./theme";
+import SolveTimer from "./solveTimer";
+import { addSolve, getSession, SolveRecord } from "./solveHistory";
+import { addLeaderboardEntry, countMoves, getTps } from "./leaderboard";
+import SplitTracker, {
+    getPhaseDurations,
+    PHASE_LABELS,
+    PHASES,
+} from "./splits";
 import confetti from "canvas-confetti";
 
-/**
- * Defines the structure for an entry in the leaderboard.
- * @typedef {object} LeaderboardEntry
- * @property {number} time - The time taken to solve the cube in seconds.
- * @property {string} date - The ISO string representation of the date when the record was set.
- * @property {string} image - The URL of the image used on the cube face for this record.
- */
-type LeaderboardEntry = { time: number; date: string; image: string };
+/** The smallest cube order that can be played (a 1x1x1); also the smallest dimension of a cuboid. */
+export const MIN_ORDER = 1;
+/** The largest cube order that can be played (a 10x10x10); also the largest dimension of a cuboid. */
+export const MAX_ORDER = 10;
 
 /**
  * Adjusts the camera and renderer size based on the container dimensions.
@@ -53,12 +80,26 @@ const setSize = (
  * Manages the Three.js scene, camera, renderer, cube object, controls, timer, and leaderboard logic.
  */
 class Rubiks {
-    /** ID for the timer interval, used to clear it later. */
-    private timerId?: number;
+    /** Times the inspection and the solve. */
+    private timer = new SolveTimer();
+    /** Whether a WCA-style 15-second inspection precedes each solve, persisted in localStorage. */
+    private inspection = true;
     /** URL of the image texture applied to the cube faces. */
     private imageUrl?: string;
-    /** Timestamp (in milliseconds) when the timer started. */
-    private startTime?: number;
+    /** How the image is laid out on the cube, persisted in localStorage. */
+    private imageLayout: ImageLayout = DEFAULT_IMAGE_LAYOUT;
+    /** The face colors and images of the cube, persisted in localStorage. */
+    private theme: Readonly<CubeTheme> = DEFAULT_THEME;
+    /** The scramble currently applied to the cube, in standard notation. Empty when not scrambled. */
+    private _scramble = "";
+    /** The seed that generated the current scramble. Empty when not scrambled. */
+    private _seed = "";
+    /** Turns made since the timer started, with their times, saved with the solve. */
+    private reconstruction: ReconstructionMove[] = [];
+    /** Whether turns are being added to the reconstruction (while the timer runs). */
+    private recording = false;
+    /** Records when the cross, F2L, OLL and PLL of a timed 3x3x3 solve are completed. */
+    private splits = new SplitTracker();
     /** The Three.js perspective camera used to view the scene. */
     private camera: PerspectiveCamera;
     /** The Three.js scene containing the cube and lighting. */
@@ -67,8 +108,26 @@ class Rubiks {
     private cube: Cube | undefined;
     /** The Three.js WebGL renderer responsible for drawing the scene. */
     private renderer: WebGLRenderer;
-    /** Array holding the active control instances (MouseControl, TouchControl). */
+    /** The last tutor hint, reused while the cube state is unchanged. */
+    private tutorHint?: TutorHint;
+    /** Key of the cube state the last tutor hint was computed for. */
+    private tutorKey = "";
+    /** Array holding the active control instances (PointerControl, KeyboardControl, GamepadControl). */
     private _controls: Control[] = [];
+    /** Maps keys to moves for the keyboard control, persisted in localStorage. */
+    private keyMap: Record<string, string> = DEFAULT_KEY_MAP;
+    /** Maps gamepad buttons to moves for the gamepad control, persisted in localStorage. */
+    private gamepadMap: Record<string, string> = DEFAULT_GAMEPAD_MAP;
+    /** Duration and easing of turn animations, persisted in localStorage. */
+    private turnAnimation: TurnAnimation = DEFAULT_TURN_ANIMATION;
+    /** How strictly a solve is checked, kept when the cube is recreated. */
+    private _solveMode: SolveMode = "standard";
+    /** Whether the cube state is saved to localStorage, so the page shows it again on the next visit. */
+    private persistent: boolean;
+    /** Optional callback executed after a timed solve has been added to the solve history. */
+    public onSolve?: (record: SolveRecord) => void;
+    /** Optional callback executed whenever the cube changes: after each completed turn, a scramble or a reset. */
+    public onChange?: () => void;
 
     /**
      * Initializes the Rubik's Cube application within a given container element.
@@ -76,8 +135,18 @@ class Rubiks {
      * and sets the initial cube order.
      *
      * @param {Element} container - The HTML element where the cube will be rendered.
+     * @param {string} [seed] - Optional seed for the initial scramble, so it can be replayed.
+     * @param {number | Vec3} [order=3] - The initial order of the cube, from `MIN_ORDER` to `MAX_ORDER`, or the dimensions of a cuboid.
+     * @param {boolean} [persistent=true] - Whether to load and save the cube state in localStorage.
+     * Turn it off for a cube that only shows a replay, so the saved cube of that order is left alone.
      */
-    public constructor(container: Element) {
+    public constructor(
+        container: Element,
+        seed?: string,
+        order: number | Vec3 = 3,
+        persistent = true
+    ) {
+        this.persistent = persistent;
         // Create and configure camera, scene, and renderer.
         this.camera = createCamera();
         this.scene = createScene();
@@ -120,24 +189,89 @@ class Rubiks {
         // Initialize imageUrl from localStorage if available.
         const savedImage = localStorage.getItem("rubiksImage");
         if (savedImage) this.imageUrl = savedImage;
+        // Initialize the image layout (every sticker or a picture cube) from localStorage if available.
+        this.imageLayout = loadImageLayout();
+        // Initialize the face colors and images from localStorage if available.
+        this.theme = loadTheme();
+        // Initialize the keyboard layout from localStorage if available.
+        this.keyMap = loadKeyMap();
+        // Initialize the gamepad button layout from localStorage if available.
+        this.gamepadMap = loadGamepadMap();
+        // Initialize the turn speed and easing from localStorage if available.
+        this.turnAnimation = loadTurnAnimation();
+        // Initialize the inspection setting from localStorage if available.
+        this.inspection = localStorage.getItem("rubiksInspection") !== "false";
+        // Show the inspection countdown and the running time on every frame.
+        this.timer.onTick = (timer) => {
+            if (timer.phase === "inspection") setInspection(timer.inspected());
+            else setTime(timer.elapsed() / 1000);
+        };
 
         // Set the initial order of the cube (e.g., 3x3x3).
-        this.setOrder(3);
+        this.setOrder(order);
 
         // Start the entrance animation.
         this.startAnimation();
         // Scramble the cube initially.
-        this.disorder();
+        this.disorder(seed);
+    }
+
+    /**
+     * Gets the scramble currently applied to the cube, in standard notation.
+     * @returns {string} The scramble, or an empty string if the cube has not been scrambled.
+     */
+    public get scramble() {
+        return this._scramble;
+    }
+
+    /**
+     * Gets the seed that generated the current scramble.
+     * Passing it to `disorder` (or `?seed=` on the challenge page) reproduces the same starting position.
+     * @returns {string} The seed, or an empty string if the cube has not been scrambled.
+     */
+    public get seed() {
+        return this._seed;
+    }
+
+    /**
+     * Gets the order (size) of the current cube.
+     * @returns {number} The order, e.g. 3 for a 3x3x3.
+     */
+    public get order() {
+        return this.cube?.order ?? 3;
     }
 
     /**
-     * Sets the order (size) of the Rubik's Cube.
-     * Removes the old cube, creates a new one with the specified order and image,
+     * Gets the number of layers along X, Y and Z of the current puzzle.
+     * @returns {Vec3} The dimensions, e.g. [2, 2, 3] for a 2x2x3 cuboid.
+     */
+    public get dims(): Vec3 {
+        return this.cube ? [...this.cube.dims] : [3, 3, 3];
+    }
+
+    /**
+     * Sets the order (size) of the Rubik's Cube, or the dimensions of a cuboid.
+     * Removes the old cube, creates a new one with the specified size and image,
      * adjusts the camera position, and initializes appropriate controls.
+     * Switching to another size stops a running timer, as the solve cannot go on.
      *
-     * @param {number} order - The desired order of the cube (e.g., 2 for 2x2, 3 for 3x3).
+     * @param {number | Vec3} order - The desired order of the cube (e.g., 2 for 2x2, 3 for 3x3), or the layers along X, Y and Z of a cuboid (e.g. [2, 2, 3]).
+     * @throws {Error} If the order or a dimension is not a whole number from `MIN_ORDER` to `MAX_ORDER`.
      */
-    public setOrder(order: number) {
+    public setOrder(order: number | Vec3) {
+        const dims = toDimensions(order);
+        if (
+            dims.some(
+                (n) => !Number.isInteger(n) || n < MIN_ORDER || n > MAX_ORDER
+            )
+        ) {
+            throw new Error(
+                `Cube order must be a whole number from ${MIN_ORDER} to ${MAX_ORDER}, got ${order}`
+            );
+        }
+        if (this.cube && this.cube.dims.some((n, axis) => n !== dims[axis])) {
+            this.stopTimer();
+        }
         // Remove the existing cube from the scene.
         this.scene.remove(...this.scene.children);
         // Dispose of existing controls to remove event listeners.
@@ -146,11 +280,21 @@ class Rubiks {
             this._controls = []; // Clear the controls array
         }
 
-        // Create a new Cube instance with the specified order and image URL.
-        const cube = new Cube(order, this.imageUrl);
+        // Create a new Cube instance with the specified order, image URL and theme.
+        const cube = new Cube(
+            dims,
+            this.imageUrl,
+            this.imageLayout,
+            this.theme,
+            this.persistent
+        );
         // Add the new cube to the scene.
         this.scene.add(cube);
         this.cube = cube; // Store reference to the new cube.
+        // Record every turn of a timed solve for the reconstruction.
+        cube.onTurn = (turns) => this.recordTurns(turns);
+        cube.setTurnAnimation(this.turnAnimation);
+        cube.setSolveMode(this._solveMode);
         this.render(); // Render the scene with the new cube.
 
         // Adjust camera distance based on the new cube's apparent size on screen.
@@ -168,10 +312,23 @@ class Rubiks {
         // Apply the ratio to the camera's z-position (distance).
         this.camera.position.z *= ratio;
 
-        // Initialize and add mouse and touch controls for the new cube.
+        // Initialize and add pointer (mouse, pen and touch), keyboard and gamepad controls for the new cube.
         this._controls.push(
-            new MouseControl(this.camera, this.scene, this.renderer, cube),
-            new TouchControl(this.camera, this.scene, this.renderer, cube)
+            new PointerControl(this.camera, this.scene, this.renderer, cube),
+            new KeyboardControl(
+                this.camera,
+                this.scene,
+                this.renderer,
+                cube,
+                this.keyMap
+            ),
+            new GamepadControl(
+                this.camera,
+                this.scene,
+                this.renderer,
+                cube,
+                this.gamepadMap
+            )
         );
 
         // Render the scene again after camera adjustment.
@@ -179,58 +336,79 @@ class Rubiks {
     }
 
     /**
-     * Scrambles the cube using a series of instant random rotations.
+     * Gets how strictly a solve is checked.
+     * @returns {SolveMode} "standard", or "supercube" if the centers must also be upright.
+     */
+    public get solveMode() {
+        return this._solveMode;
+    }
+
+    /**
+     * Sets how strictly a solve is checked. In "supercube" mode, the centers (every sticker
+     * on a cube with an image) must also be upright for the cube to count as solved.
+     *
+     * @param {SolveMode} mode - The solve mode.
+     */
+    public setSolveMode(mode: SolveMode) {
+        this._solveMode = mode;
+        this.cube?.setSolveMode(mode);
+    }
+
+    /**
+     * Scrambles the cube instantly with a WCA-style scramble and displays it.
+     * The scramble always starts from the solved state, so a seed reproduces the same position.
      * Resets and starts the timer logic, waiting for the first user interaction.
+     *
+     * @param {string} [seed] - Optional seed for the scramble. A new random seed is used if omitted.
      */
-    public disorder() {
+    public disorder(seed = createSeed()) {
         if (this.cube) {
-            // Apply 20 random instant rotations.
-            this.cube.scrambleSmart(20);
+            // Apply a seeded random-move scramble to a solved cube.
+            this.stopTimer();
+            this.cube.restore();
+            this._seed = seed;
+            this._scramble = this.cube.scrambleSmart(undefined, seed);
+            setScramble(this._scramble);
             this.render(); // Update the view.
+            if (this.onChange) this.onChange();
 
             // Reset timer display and finish status.
             setFinish(false);
             setTime(0);
 
-            // Wait for the user to start rotating the cube before starting the timer.
-            const waitForFirstRotation = () => {
-                // Check if a rotation is currently in progress.
-                if (this.cube?.state.inRotation) {
-                    this.startTimer(); // Start the timer if rotation detected.
-                } else {
-                    // Otherwise, continue checking on the next animation frame.
-                    requestAnimationFrame(waitForFirstRotation);
-                }
-            };
-            requestAnimationFrame(waitForFirstRotation); // Start checking.
+            // Inspect, then start the timer on the first turn.
+            this.armTimer();
         }
     }
 
     /**
-     * Scrambles the cube using a series of animated random rotations.
+     * Scrambles the cube with an animated WCA-style scramble and displays it.
+     * The scramble always starts from the solved state, so a seed reproduces the same position.
      * Resets and starts the timer logic, waiting for the first user interaction.
+     *
+     * @param {string} [seed] - Optional seed for the scramble. A new random seed is used if omitted.
      */
-    public disorder2() {
+    public disorder2(seed = createSeed()) {
         if (this.cube) {
-            // Apply 20 random animated rotations.
-            this.cube.scrambleSmartAnimated(20);
+            // Animate a seeded random-move scramble from a solved cube.
+            this.stopTimer();
+            this.cube.restore();
+            this._seed = seed;
+            this._scramble = this.cube.scrambleSmartAnimated(
+                undefined,
+                // Inspect once the scramble has been shown, then start the timer on the first turn.
+                () => {
+                    this.armTimer();
+                    if (this.onChange) this.onChange();
+                },
+                seed
+            );
+            setScramble(this._scramble);
             this.render(); // Update the view.
 
             // Reset timer display and finish status.
             setFinish(false);
             setTime(0);
-
-            // Wait for the user to start rotating the cube before starting the timer.
-            const waitForFirstRotation = () => {
-                // Check if a rotation is currently in progress.
-                if (this.cube?.state.inRotation) {
-                    this.startTimer(); // Start the timer if rotation detected.
-                } else {
-                    // Otherwise, continue checking on the next animation frame.
-                    requestAnimationFrame(waitForFirstRotation);
-                }
-            };
-            requestAnimationFrame(waitForFirstRotation); // Start checking.
         }
     }
 
@@ -244,11 +422,15 @@ class Rubiks {
             this.cube.restore();
             this.render(); // Update the view.
 
-            // Stop the timer if it's running.
-            if (this.timerId) clearInterval(this.timerId);
-            // Reset timer display and finish status.
+            // Stop the timer and the reconstruction if they're running.
+            this.stopTimer();
+            // Reset timer display, finish status and scramble.
             setTime(0);
             setFinish(false);
+            this._scramble = "";
+            this._seed = "";
+            setScramble("");
+            if (this.onChange) this.onChange();
         } else {
             // Log an error if the cube instance is somehow undefined.
             console.error("RESTORE_ERROR: this.cube is undefined.");
@@ -256,82 +438,318 @@ class Rubiks {
     }
 
     /**
-     * Starts the timer interval.
-     * Updates the displayed time every 500ms.
-     * Checks if the cube is solved on each interval. If solved, stops the timer,
-     * saves the score to the leaderboard, triggers confetti, and shows a congratulatory overlay.
+     * Applies an algorithm written in standard notation (e.g. `"R U R' U'"`) to the cube.
+     * A solve finished with applied algorithms is assisted, so the timer is stopped and it is not recorded.
+     *
+     * @param {string} algorithm - The algorithm string.
+     * @param {boolean} [animated=false] - Whether to animate each move in sequence.
+     * @param {() => void} [onComplete] - Optional callback executed when every move has finished.
+     * @returns {Move[]} The parsed moves, or an empty array if there is no cube.
+     * @throws {NotationError} If the algorithm contains a syntax error.
      */
-    private startTimer() {
-        // Clear any existing timer interval.
-        if (this.timerId) clearInterval(this.timerId);
-        // Record the start time.
-        this.startTime = Date.now();
-        // Set up the interval timer.
-        this.timerId = window.setInterval(() => {
-            // Ensure startTime is set (safety check).
-            if (!this.startTime) return;
-            // Calculate elapsed time in seconds.
-            const elapsed = (Date.now() - this.startTime) / 1000;
-            // Update the time display.
-            setTime(elapsed);
-
-            // Check if the cube is solved.
-            if (this.cube?.finish) {
-                // Stop the timer interval.
-                clearInterval(this.timerId!);
-                // Update the status display to show the finished message.
-                setFinish(true);
-
-                // --- Leaderboard Logic ---
-                const leaderboardKey = "rubiksLeaderboard";
-                // Retrieve existing leaderboard data from localStorage, or initialize an empty array.
-                const savedBoard: LeaderboardEntry[] = JSON.parse(
-                    localStorage.getItem(leaderboardKey) || "[]"
-                ) as LeaderboardEntry[];
-                // Get the current image URL used on the cube.
-                const imageUrl = localStorage.getItem("rubiksImage") || "";
-                // Add the new entry to the leaderboard data.
-                savedBoard.push({
-                    time: elapsed,
-                    date: new Date().toISOString(), // Record the current date/time.
-                    image: imageUrl,
-                });
-                // Sort the leaderboard by time (ascending).
-                savedBoard.sort((a, b) => a.time - b.time);
-                // Keep only the top 10 entries.
-                const topBoard: LeaderboardEntry[] = savedBoard.slice(0, 10);
-                // Save the updated top 10 leaderboard back to localStorage.
-                localStorage.setItem(leaderboardKey, JSON.stringify(topBoard));
-
-                // --- Celebration Effects ---
-                // Trigger confetti animation.
-                confetti({ particleCount: 500, spread: 200 });
-
-                // Create and display a congratulatory overlay.
-                const overlay = document.createElement("div");
-                overlay.id = "congrats-overlay";
-                // Style the overlay.
-                overlay.style.cssText =
-                    "position:fixed;top:0;left:0;width:100%;height:100%;" +
-                    "display:flex;flex-direction:column;align-items:center;justify-content:center;text-align:center;" +
-                    "font-size:1.5rem;color:#fff;padding:2rem;background:rgba(0,0,0,0.5);z-index:1000;";
-                // Get the final time string from the display.
-                const finalTime =
-                    document.getElementById("timer")?.innerText || "";
-                // Set the overlay content. (Leaderboard table commented out)
-                overlay.innerHTML =
-                    `🎉 Congratulations! You've solved the cube! 🎉<br/>` +
-                    `${finalTime}<br/>`;
-                // Add the overlay to the document body.
-                document.body.appendChild(overlay);
-
-                // Automatically remove the overlay and restore the cube after 3 seconds.
-                setTimeout(() => {
-                    document.body.removeChild(overlay);
-                    this.restore(); // Reset the cube for the next attempt.
-                }, 3000);
+    public applyAlgorithm(
+        algorithm: string,
+        animated = false,
+        onComplete?: () => void
+    ): Move[] {
+        if (!this.cube) return [];
+        // Stop the timer and the reconstruction if they're running.
+        this.stopTimer();
+        const moves = this.cube.applyAlgorithm(algorithm, animated, () => {
+            this.render(); // Update the view once the moves are done.
+            setFinish(this.cube!.finish);
+            if (onComplete) onComplete();
+        });
+        this.render(); // Update the view.
+        return moves;
+    }
+
+    /**
+     * Checks whether a turn can be undone right now.
+     * @returns {boolean} True if there is a turn to undo and no rotation is in progress.
+     */
+    public get canUndo() {
+        return this.cube?.canUndo ?? false;
+    }
+
+    /**
+     * Checks whether an undone turn can be redone right now.
+     * @returns {boolean} True if there is a turn to redo and no rotation is in progress.
+     */
+    public get canRedo() {
+        return this.cube?.canRedo ?? false;
+    }
+
+    /**
+     * Turns back the last completed layer turn with an animation.
+     * Scrambles are not part of the history, so undo stops at the scrambled state.
+     *
+     * @param {() => void} [onComplete] - Optional callback executed when the turn finishes.
+     * @returns {boolean} True if a turn was undone.
+     */
+    public undo(onComplete?: () => void) {
+        return this.cube?.undo(true, onComplete) ?? false;
+    }
+
+    /**
+     * Repeats the last undone layer turn with an animation.
+     *
+     * @param {() => void} [onComplete] - Optional callback executed when the turn finishes.
+     * @returns {boolean} True if a turn was redone.
+     */
+    public redo(onComplete?: () => void) {
+        return this.cube?.redo(true, onComplete) ?? false;
+    }
+
+    /**
+     * Computes a solution for the current 3x3x3 cube and returns a player that animates it step by step.
+     * Stops the timer, since a solve that uses the solver does not count for the leaderboard.
+     *
+     * @param {(player: SolutionPlayer) => void} [onChange] - Optional callback executed whenever playback advances.
+     * @returns {SolutionPlayer | null} The solution player, or null if there is no cube.
+     * @throws {Error} If the cube is not a 3x3x3.
+     */
+    public solve(
+        onChange?: (player: SolutionPlayer) => void
+    ): SolutionPlayer | null {
+        if (!this.cube) return null;
+        const moves = solveModel(this.cube.model);
+
+        // Stop the timer and the reconstruction if they're running.
+        this.stopTimer();
+
+        return new SolutionPlayer(
+            moves,
+            (move, onComplete) =>
+                this.applyAlgorithm(formatMove(move), true, onComplete),
+            onChange
+        );
+    }
+
+    /**
+     * Asks the beginner-method tutor for the next step and highlights the pieces it is about.
+     * Call it again whenever the cube changes; the hint is recomputed only when the state differs.
+     *
+     * @returns {TutorHint | null} The tutor's hint, or null if there is no cube.
+     * @throws {Error} If the cube is not a 3x3x3.
+     */
+    public updateTutor(): TutorHint | null {
+        if (!this.cube) return null;
+        const key = JSON.stringify(this.cube.model.getFacelets());
+        if (!this.tutorHint || key !== this.tutorKey) {
+            this.tutorHint = getTutorHint(this.cube.model);
+            this.tutorKey = key;
+        }
+        this.cube.highlightCubies(this.tutorHint.highlight);
+        return this.tutorHint;
+    }
+
+    /**
+     * Clears the tutor's highlights.
+     */
+    public stopTutor() {
+        this.cube?.highlightCubies([]);
+        this.tutorHint = undefined;
+    }
+
+    /**
+     * Turns the whole cube, with an animation, to the nearest standard view with U on top.
+     */
+    public snapToView() {
+        this.cube?.orbit.snapToView();
+    }
+
+    /**
+     * Replays a recorded solve on this cube. Stops the timer and disables user turns,
+     * so the replay cannot be disturbed; create a new Rubiks instance to play again.
+     * From then on the cube state is no longer saved to localStorage.
+     *
+     * @param {string} scramble - The scramble the solve started from.
+     * @param {ReconstructionMove[]} moves - The recorded turns.
+     * @param {(player: ReplayPlayer) => void} [onChange] - Optional callback executed whenever playback changes.
+     * @returns {ReplayPlayer | null} The replay player, or null if there is no cube.
+     */
+    public startReplay(
+        scramble: string,
+        moves: ReconstructionMove[],
+        onChange?: (player: ReplayPlayer) => void
+    ): ReplayPlayer | null {
+        if (!this.cube) return null;
+
+        // Replayed turns must not overwrite the saved cube of this order,
+        // so switch to a cube that is not saved.
+        if (this.persistent) {
+            this.persistent = false;
+            this.setOrder(this.cube.dims);
+        }
+
+        // Stop the timer and the reconstruction, and ignore user input.
+        this.stopTimer();
+        this._controls.forEach((control) => control.dispose());
+        this._controls = [];
+
+        setTime(0);
+        setFinish(false);
+        this._scramble = scramble;
+        setScramble(scramble);
+        return new ReplayPlayer(this.cube, scramble, moves, onChange);
+    }
+
+    /**
+     * Reports completed turns to `onChange`, adds them to the reconstruction of the current solve if the
+     * timer is running, records the phases they completed, and stops the timer on the turn that solves the cube.
+     * @param {LayerTurn[]} turns - The completed turns, several when queued turns were animated as one.
+     */
+    private recordTurns(turns: LayerTurn[]) {
+        if (this.onChange) this.onChange();
+        if (!this.recording || !this.cube) return;
+        // Taken in the frame the turns completed, before anything else is drawn
+        const now = performance.now();
+        const time = this.timer.elapsed(now);
+        for (const turn of turns) {
+            this.reconstruction.push({
+                move: formatMove(layerTurnToMove(turn, this.cube.dims)),
+                time,
+            });
+        }
+        this.splits.update(this.cube.model, time);
+        if (this.cube.finish) this.finishSolve(now);
+    }
+
+    /**
+     * Waits for the first turn of a solve, after a WCA-style inspection if it is enabled.
+     * The turn is detected on the frame it begins: a drag, key or button move of some layers, not an orbit or
+     * rotation of the whole cube, so the cube can be looked at during inspection.
+     */
+    private armTimer() {
+        this.timer.arm(this.inspection);
+        const waitForFirstRotation = () => {
+            // Stop waiting once the timer was reset or started (e.g. by another scramble)
+            if (!this.timer.waiting) return;
+            // Check if a layer turn (a drag, key or button move) is currently in progress.
+            if (
+                this.cube?.state.inRotation ||
+                this._controls.some((control) => control.turning)
+            ) {
+                this.startTimer(); // Start the timer if rotation detected.
+            } else {
+                // Otherwise, continue checking on the next animation frame.
+                requestAnimationFrame(waitForFirstRotation);
             }
-        }, 500); // Timer interval set to 500ms.
+        };
+        requestAnimationFrame(waitForFirstRotation); // Start checking.
+    }
+
+    /**
+     * Starts timing the solve and a new reconstruction.
+     * The solve is checked after every turn; see `recordTurns`.
+     */
+    private startTimer() {
+        this.timer.start();
+        this.reconstruction = [];
+        this.splits.reset();
+        this.recording = true;
+    }
+
+    /**
+     * Stops the timer and the reconstruction without a result.
+     */
+    private stopTimer() {
+        this.timer.reset();
+        this.recording = false;
+    }
+
+    /**
+     * Completes a timed solve: stops the timer, saves the score to the leaderboard,
+     * triggers confetti, and shows a congratulatory overlay.
+     * @param {number} now - The timestamp at which the solving turn completed.
+     */
+    private finishSolve(now: number) {
+        if (!this.cube) return;
+        // Stop the timer and the reconstruction.
+        const time = this.timer.stop(now);
+        const penalty = this.timer.penalty;
+        this.recording = false;
+        // Show the final time and the finished message.
+        setTime(time / 1000, penalty);
+        setFinish(true);
+
+        // --- Solve History ---
+        // Every timed solve is kept, including DNFs and cuboid solves.
+        const record: SolveRecord = {
+            time,
+            penalty,
+            date: new Date().toISOString(),
+            puzzle: formatDimensions(this.cube.dims),
+            session: getSession(),
+            mode: this._solveMode,
+            scramble: this._scramble,
+            seed: this._seed,
+        };
+        // Only 3x3x3 solves are split into phases
+        const splits = this.splits.splits;
+        if (Object.keys(splits).length > 0) record.splits = splits;
+        addSolve(record);
+
+        // --- Leaderboard Logic ---
+        // The leaderboards are kept per cube order and mode; cuboid solves and DNFs are not ranked.
+        if (this.cube.model.isCube && penalty !== "DNF") {
+            const moves = countMoves(this.reconstruction);
+            addLeaderboardEntry({
+                time: time / 1000,
+                date: record.date,
+                // The image used on the cube.
+                image: localStorage.getItem("rubiksImage") || "",
+                order: this.cube.order,
+                mode: this._solveMode,
+                scramble: this._scramble,
+                penalty,
+                moves,
+                tps: getTps(moves, time / 1000, penalty),
+                seed: this._seed,
+                reconstruction: this.reconstruction,
+            });
+        }
+
+        if (this.onSolve) this.onSolve(record);
+
+        // --- Celebration Effects ---
+        // Trigger confetti animation.
+        confetti({ particleCount: 500, spread: 200 });
+
+        // Create and display a congratulatory overlay.
+        const overlay = document.createElement("div");
+        overlay.id = "congrats-overlay";
+        // Style the overlay.
+        overlay.style.cssText =
+            "position:fixed;top:0;left:0;width:100%;height:100%;" +
+            "display:flex;flex-direction:column;align-items:center;justify-content:center;text-align:center;" +
+            "font-size:1.5rem;color:#fff;padding:2rem;background:rgba(0,0,0,0.5);z-index:1000;";
+        // Get the final time string from the display.
+        const finalTime = document.getElementById("timer")?.innerText || "";
+        // Set the overlay content. (Leaderboard table commented out)
+        // Show how long each phase took, e.g. "Cross 2.10 · F2L 9.84 · OLL 3.02 · PLL 2.51".
+        const durations = getPhaseDurations(splits);
+        const splitText = PHASES.filter((phase) => phase in durations)
+            .map(
+                (phase) =>
+                    `${PHASE_LABELS[phase]} ${(
+                        durations[phase]! / 1000
+                    ).toFixed(2)}`
+            )
+            .join(" · ");
+        overlay.innerHTML =
+            `🎉 Congratulations! You've solved the cube! 🎉<br/>` +
+            `${finalTime}<br/>` +
+            (splitText ? `${splitText}<br/>` : "");
+        // Add the overlay to the document body.
+        document.body.appendChild(overlay);
+
+        // Automatically remove the overlay and restore the cube after 3 seconds.
+        setTimeout(() => {
+            document.body.removeChild(overlay);
+            this.restore(); // Reset the cube for the next attempt.
+        }, 3000);
     }
 
     /**
@@ -376,13 +794,28 @@ class Rubiks {
      * Stores the new image URL and recreates the cube using the current order.
      *
      * @param {string} imageUrl - The URL of the new image to apply.
+     * @param {ImageLayout} [imageLayout] - How to lay the image out, e.g. sliced across each face. Keeps the current layout if omitted.
      */
-    public setImage(imageUrl: string) {
-        // Store the new image URL.
+    public setImage(imageUrl: string, imageLayout = this.imageLayout) {
+        // Store the new image URL and layout.
         this.imageUrl = imageUrl;
+        this.imageLayout = imageLayout;
         // Recreate the cube with the current order to apply the new image.
         if (this.cube) {
-            this.setOrder(this.cube.order);
+            this.setOrder(this.cube.dims);
+        }
+    }
+
+    /**
+     * Updates the face colors and images of the cube.
+     * Stores the new theme and recreates the cube using the current order; the cube keeps its state.
+     *
+     * @param {CubeTheme} theme - The theme to apply.
+     */
+    public setTheme(theme: Readonly<CubeTheme>) {
+        this.theme = theme;
+        if (this.cube) {
+            this.setOrder(this.cube.dims);
         }
     }
 }
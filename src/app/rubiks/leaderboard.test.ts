@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+    addLeaderboardEntry,
+    countMoves,
+    LeaderboardEntry,
+    loadLeaderboard,
+} from "./leaderboard";
+import { ReconstructionMove } from "./replayPlayer";
+
+/** In-memory stand-in for the browser's localStorage. */
+const store = new Map<string, string>();
+
+beforeEach(() => {
+    store.clear();
+    vi.stubGlobal("localStorage", {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+        removeItem: (key: string) => store.delete(key),
+    });
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+});
+
+/**
+ * Builds a reconstruction with one turn per second.
+ * @param {string} algorithm - The turns, separated by spaces.
+ * @returns {ReconstructionMove[]} The reconstruction.
+ */
+const reconstruct = (algorithm: string): ReconstructionMove[] =>
+    algorithm.split(" ").map((move, i) => ({ move, time: (i + 1) * 1000 }));
+
+describe("countMoves", () => {
+    it("does not count whole-cube rotations", () => {
+        expect(countMoves(reconstruct("x R U y2 R' z' U'"))).toBe(4);
+    });
+
+    it("counts slice and wide turns", () => {
+        expect(countMoves(reconstruct("M E2 S' Rw 3Uw2 r"))).toBe(6);
+    });
+
+    it("counts nothing for a solve made only of rotations", () => {
+        expect(countMoves(reconstruct("x y z2"))).toBe(0);
+    });
+});
+
+describe("loadLeaderboard", () => {
+    it("leaves rotations out of the move count of migrated entries", () => {
+        const reconstruction = reconstruct("y R U R' x U'");
+        store.set(
+            "rubiksLeaderboard",
+            JSON.stringify([
+                {
+                    time: 4,
+                    date: "2024-01-01T00:00:00.000Z",
+                    image: "",
+                    reconstruction,
+                },
+            ])
+        );
+        const [entry] = loadLeaderboard();
+        expect(entry.moves).toBe(4);
+        expect(entry.tps).toBe(1);
+    });
+});
+
+describe("addLeaderboardEntry", () => {
+    /** A 3x3x3 record. */
+    const entry: LeaderboardEntry = {
+        time: 12.5,
+        date: "2024-01-01T00:00:00.000Z",
+        image: "",
+        order: 3,
+        mode: "standard",
+        scramble: "R U",
+        penalty: "none",
+    };
+
+    it("adds the record to the saved leaderboard", () => {
+        addLeaderboardEntry(entry);
+        addLeaderboardEntry({ ...entry, time: 10 });
+        expect(loadLeaderboard().map((item) => item.time)).toEqual([10, 12.5]);
+    });
+
+    it("leaves a leaderboard of an unknown version untouched", () => {
+        vi.spyOn(console, "error").mockImplementation(() => {});
+        const saved = JSON.stringify({ version: 99, entries: [entry] });
+        store.set("rubiksLeaderboard", saved);
+        expect(loadLeaderboard()).toEqual([]);
+        addLeaderboardEntry(entry);
+        expect(store.get("rubiksLeaderboard")).toBe(saved);
+    });
+});
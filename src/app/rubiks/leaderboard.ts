@@ -0,0 +1,200 @@
+import { ReconstructionMove } from "./replayPlayer";
+import { isRotation, parseAlgorithm } from "./notation";
+import { SolveMode } from "./cubeState";
+import { Penalty, PLUS_TWO } from "./solveTimer";
+
+/**
+ * Version of the leaderboard saved in localStorage. Older data is migrated when it is read.
+ * 1. A bare array of `{ time, date, image }`, with `order`, `scramble`, `seed`, `reconstruction`
+ *    and `penalty` added to later entries.
+ * 2. `{ version, entries }`, every entry with its order, mode, scramble and penalty, and its
+ *    move count and TPS when the solve was recorded.
+ */
+export const LEADERBOARD_VERSION = 2;
+
+/** Key of the leaderboard in localStorage. */
+const LEADERBOARD_KEY = "rubiksLeaderboard";
+
+/** Number of records kept in the leaderboard for each cube order and mode. */
+const LEADERBOARD_SIZE = 10;
+
+/**
+ * Interface describing an entry in the leaderboard.
+ * @interface LeaderboardEntry
+ * @property {number} time - The time taken to solve the cube in seconds, including a +2 penalty.
+ * @property {string} date - The ISO string representation of the date when the record was set.
+ * @property {string} image - The URL of the image used on the cube face for this record.
+ * @property {number} order - The order of the solved cube.
+ * @property {SolveMode} mode - How strictly the solve was checked.
+ * @property {string} scramble - The scramble the solve started from, in standard notation ("" if unknown).
+ * @property {Penalty} penalty - The inspection penalty; "+2" solves have the two seconds in `time`.
+ * @property {number} [moves] - The number of turns of the solve, without whole-cube rotations (missing on records saved without a reconstruction).
+ * @property {number} [tps] - The turns per second, over the time without penalty (missing with `moves`).
+ * @property {string} [seed] - The seed that generated the scramble, for replaying it.
+ * @property {ReconstructionMove[]} [reconstruction] - Every turn of the solve with its time, for the replay viewer.
+ */
+export interface LeaderboardEntry {
+    time: number;
+    date: string;
+    image: string;
+    order: number;
+    mode: SolveMode;
+    scramble: string;
+    penalty: Penalty;
+    moves?: number;
+    tps?: number;
+    seed?: string;
+    reconstruction?: ReconstructionMove[];
+}
+
+/** Ways the leaderboard can be sorted: fastest, newest, fewest turns or most turns per second first. */
+export type LeaderboardSort = "time" | "date" | "moves" | "tps";
+
+/**
+ * Shape of an entry saved before version 2, where only `time`, `date` and `image` are always present.
+ */
+type LegacyEntry = Partial<LeaderboardEntry> &
+    Pick<LeaderboardEntry, "time" | "date" | "image">;
+
+/**
+ * Counts the turns of a solve. Whole-cube rotations are recorded in the reconstruction for the replay,
+ * but do not count as turns.
+ * @param {ReconstructionMove[]} reconstruction - The recorded turns.
+ * @returns {number} The number of turns that moved some layers of the cube.
+ */
+export const countMoves = (reconstruction: ReconstructionMove[]) =>
+    reconstruction.filter(({ move }) => {
+        try {
+            return !parseAlgorithm(move).every(isRotation);
+        } catch {
+            // An entry that cannot be read still counts as a turn
+            return true;
+        }
+    }).length;
+
+/**
+ * Computes the turns per second of a solve.
+ * @param {number} moves - The number of turns.
+ * @param {number} time - The time of the solve in seconds, including a +2 penalty.
+ * @param {Penalty} penalty - The penalty of the solve; the two seconds of a +2 are not counted.
+ * @returns {number | undefined} The turns per second, or undefined for a solve without time.
+ */
+export const getTps = (moves: number, time: number, penalty: Penalty) => {
+    const seconds = time - (penalty === "+2" ? PLUS_TWO / 1000 : 0);
+    return seconds > 0 ? moves / seconds : undefined;
+};
+
+/**
+ * Brings a version 1 entry to version 2. Entries without an order were 3x3x3 solves, and
+ * entries without a penalty were timed before inspection existed. The mode was not saved,
+ * so older records count as standard solves.
+ * @param {LegacyEntry} entry - The saved entry.
+ * @returns {LeaderboardEntry} The migrated entry.
+ */
+const migrateEntry = (entry: LegacyEntry): LeaderboardEntry => {
+    const penalty = entry.penalty ?? "none";
+    const migrated: LeaderboardEntry = {
+        ...entry,
+        order: entry.order ?? 3,
+        mode: entry.mode ?? "standard",
+        scramble: entry.scramble ?? "",
+        penalty,
+    };
+    if (entry.reconstruction) {
+        migrated.moves = countMoves(entry.reconstruction);
+        migrated.tps = getTps(migrated.moves, entry.time, penalty);
+    }
+    return migrated;
+};
+
+/**
+ * Writes the leaderboard to localStorage, in the current version.
+ * @param {LeaderboardEntry[]} entries - The entries to save.
+ */
+export const saveLeaderboard = (entries: LeaderboardEntry[]) => {
+    localStorage.setItem(
+        LEADERBOARD_KEY,
+        JSON.stringify({ version: LEADERBOARD_VERSION, entries })
+    );
+};
+
+/**
+ * Reads the leaderboard from localStorage, migrating data saved by an older version.
+ * Migrated data is written back, so it is only converted once.
+ * @returns {LeaderboardEntry[] | null} The entries, fastest first within each order, an empty array if none
+ * is saved or it cannot be parsed, or null if it was saved by an unknown (newer) version.
+ */
+const readLeaderboard = (): LeaderboardEntry[] | null => {
+    if (typeof localStorage === "undefined") return [];
+    try {
+        const saved = JSON.parse(localStorage.getItem(LEADERBOARD_KEY) || "[]");
+        // Version 1 saved the entries as a bare array
+        if (Array.isArray(saved)) {
+            const entries = (saved as LegacyEntry[]).map(migrateEntry);
+            saveLeaderboard(entries);
+            return entries;
+        }
+        if (saved?.version === LEADERBOARD_VERSION) {
+            return Array.isArray(saved.entries) ? saved.entries : [];
+        }
+        console.error("Unknown leaderboard version:", saved?.version);
+        return null;
+    } catch (error) {
+        console.error("Error parsing leaderboard from localStorage:", error);
+        return [];
+    }
+};
+
+/**
+ * Reads the leaderboard from localStorage, migrating data saved by an older version.
+ * @returns {LeaderboardEntry[]} The entries, fastest first within each order, or an empty array
+ * if none is saved or it cannot be read.
+ */
+export const loadLeaderboard = (): LeaderboardEntry[] =>
+    readLeaderboard() ?? [];
+
+/**
+ * Adds a record to the leaderboard in localStorage, keeping only the fastest entries
+ * of each cube order and mode. A leaderboard saved by an unknown version is left untouched.
+ * @param {LeaderboardEntry} entry - The new record.
+ */
+export const addLeaderboardEntry = (entry: LeaderboardEntry) => {
+    const saved = readLeaderboard();
+    if (!saved) return;
+    const board = [...saved, entry].sort((a, b) => a.time - b.time);
+    const counts = new Map<string, number>();
+    saveLeaderboard(
+        board.filter((item) => {
+            const key = `${item.order}:${item.mode}`;
+            const count = counts.get(key) ?? 0;
+            counts.set(key, count + 1);
+            return count < LEADERBOARD_SIZE;
+        })
+    );
+};
+
+/**
+ * Sorts leaderboard entries. Entries without a move count or TPS go last when sorting by them.
+ * @param {LeaderboardEntry[]} entries - The entries.
+ * @param {LeaderboardSort} sort - What to sort by.
+ * @returns {LeaderboardEntry[]} A sorted copy of the entries.
+ */
+export const sortLeaderboard = (
+    entries: LeaderboardEntry[],
+    sort: LeaderboardSort
+) => {
+    const key = (entry: LeaderboardEntry) => {
+        switch (sort) {
+            case "date":
+                return -Date.parse(entry.date);
+            case "moves":
+                return entry.moves ?? Infinity;
+            case "tps":
+                return entry.tps !== undefined ? -entry.tps : Infinity;
+            default:
+                return entry.time;
+        }
+    };
+    // Ties keep the fastest entry first
+    return [...entries].sort((a, b) => key(a) - key(b) || a.time - b.time);
+};
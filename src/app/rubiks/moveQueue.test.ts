@@ -0,0 +1,292 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import MoveQueue, {
+    DEFAULT_TURN_ANIMATION,
+    loadTurnAnimation,
+    TurnAnimator,
+    TurnOptions,
+} from "./moveQueue";
+import { LayerTurn } from "./notation";
+
+/** In-memory stand-in for the browser's localStorage. */
+const store = new Map<string, string>();
+
+beforeEach(() => {
+    store.clear();
+    vi.stubGlobal("localStorage", {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+        removeItem: (key: string) => store.delete(key),
+    });
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe("loadTurnAnimation", () => {
+    it("reads the saved turn animation", () => {
+        store.set(
+            "rubiksTurnAnimation",
+            JSON.stringify({ duration: 0, easing: "spring" })
+        );
+        expect(loadTurnAnimation()).toEqual({ duration: 0, easing: "spring" });
+    });
+
+    it("falls back to the default when nothing is saved", () => {
+        expect(loadTurnAnimation()).toEqual(DEFAULT_TURN_ANIMATION);
+    });
+
+    it.each(["", "null", "{", '"fast"', "42"])(
+        "falls back to the default for %j",
+        (saved) => {
+            store.set("rubiksTurnAnimation", saved);
+            expect(loadTurnAnimation()).toEqual(DEFAULT_TURN_ANIMATION);
+        }
+    );
+
+    it("keeps the default of each invalid field", () => {
+        store.set(
+            "rubiksTurnAnimation",
+            JSON.stringify({ duration: "fast", easing: "bounce" })
+        );
+        expect(loadTurnAnimation()).toEqual(DEFAULT_TURN_ANIMATION);
+        store.set(
+            "rubiksTurnAnimation",
+            JSON.stringify({ duration: -1, easing: "easeOut" })
+        );
+        expect(loadTurnAnimation()).toEqual({
+            ...DEFAULT_TURN_ANIMATION,
+            easing: "easeOut",
+        });
+        store.set("rubiksTurnAnimation", JSON.stringify({ duration: 150 }));
+        expect(loadTurnAnimation()).toEqual({
+            ...DEFAULT_TURN_ANIMATION,
+            duration: 150,
+        });
+    });
+});
+
+describe("MoveQueue", () => {
+    /** Callbacks waiting for the next mocked animation frame, by ID. */
+    let frames: Map<number, FrameRequestCallback>;
+    /** ID of the last requested frame. */
+    let lastFrame: number;
+    /** What the mocked animator was asked to do, in order. */
+    let log: string[];
+    /** The turns passed to `end`, with the turns merged into them. */
+    let ended: { turn: LayerTurn; parts: LayerTurn[]; options: TurnOptions }[];
+    /** Whether the animator lets a turn start (false while "dragging"). */
+    let canBegin: boolean;
+    /** The queue under test. */
+    let queue: MoveQueue;
+
+    /** A quarter turn of the right layer of a 3x3x3 (R). */
+    const R: LayerTurn = { axis: 0, layers: [2], quarterTurns: -1 };
+    /** The inverse of R (R'). */
+    const Ri: LayerTurn = { axis: 0, layers: [2], quarterTurns: 1 };
+    /** A quarter turn of the top layer of a 3x3x3 (U). */
+    const U: LayerTurn = { axis: 1, layers: [2], quarterTurns: -1 };
+
+    /**
+     * Runs the callbacks of the frames requested so far.
+     * @param {number} now - The frame timestamp.
+     */
+    const frame = (now: number) => {
+        const callbacks = [...frames.values()];
+        frames.clear();
+        callbacks.forEach((callback) => callback(now));
+    };
+
+    beforeEach(() => {
+        frames = new Map();
+        lastFrame = 0;
+        log = [];
+        ended = [];
+        canBegin = true;
+        vi.stubGlobal(
+            "requestAnimationFrame",
+            (callback: FrameRequestCallback) => {
+                frames.set(++lastFrame, callback);
+                return lastFrame;
+            }
+        );
+        vi.stubGlobal("cancelAnimationFrame", (id: number) =>
+            frames.delete(id)
+        );
+        const animator: TurnAnimator = {
+            canBegin: () => canBegin,
+            begin: (turn) => log.push(`begin ${turn.quarterTurns}`),
+            update: (progress) => log.push(`update ${progress}`),
+            end: (turn, options, parts) => {
+                log.push(`end ${turn.quarterTurns}`);
+                ended.push({ turn, parts, options });
+            },
+        };
+        queue = new MoveQueue(animator);
+        queue.duration = 100;
+    });
+
+    it("animates merged turns as one but ends them with every requested turn", () => {
+        queue.enqueue(R);
+        queue.enqueue(R);
+        frame(0);
+        frame(100);
+        expect(log).toEqual(["begin 2", "update 0", "update 1", "end 2"]);
+        expect(ended[0].parts).toEqual([R, R]);
+    });
+
+    it("records turns that cancel out without moving", async () => {
+        const first = queue.enqueue(R);
+        const second = queue.enqueue(Ri);
+        frame(0);
+        expect(log).toEqual(["begin 0", "update 1", "end 0"]);
+        expect(ended[0].parts).toEqual([R, Ri]);
+        await expect(Promise.all([first, second])).resolves.toEqual([
+            true,
+            true,
+        ]);
+    });
+
+    it("plays turns one after another, each for the whole duration", async () => {
+        const first = queue.enqueue(R);
+        const second = queue.enqueue(U);
+        expect(queue.busy).toBe(true);
+        frame(0);
+        frame(50);
+        frame(100);
+        // U starts on the frame after R has ended
+        frame(120);
+        frame(170);
+        frame(220);
+        expect(log).toEqual([
+            "begin -1",
+            "update 0",
+            "update 0.5",
+            "update 1",
+            "end -1",
+            "begin -1",
+            "update 0",
+            "update 0.5",
+            "update 1",
+            "end -1",
+        ]);
+        expect(ended.map((item) => item.turn)).toEqual([R, U]);
+        expect(queue.busy).toBe(false);
+        await expect(Promise.all([first, second])).resolves.toEqual([
+            true,
+            true,
+        ]);
+    });
+
+    it("applies the easing curve to the progress", () => {
+        queue.easing = (t) => t * t;
+        queue.enqueue(R);
+        frame(0);
+        frame(50);
+        expect(log).toContain("update 0.25");
+    });
+
+    it("does not merge turns of other layers or recorded differently", () => {
+        queue.enqueue(R);
+        queue.enqueue(U);
+        queue.enqueue(U, { record: false });
+        queue.flush();
+        expect(ended.map((item) => item.parts)).toEqual([[R], [U], [U]]);
+    });
+
+    it("does not merge into the turn being animated", () => {
+        queue.enqueue(R);
+        frame(0);
+        queue.enqueue(R);
+        queue.flush();
+        expect(ended.map((item) => item.parts)).toEqual([[R], [R]]);
+    });
+
+    it("does not merge when collapsing is off", () => {
+        queue.collapse = false;
+        queue.enqueue(R);
+        queue.enqueue(Ri);
+        queue.flush();
+        expect(ended.map((item) => item.turn)).toEqual([R, Ri]);
+    });
+
+    it("waits for a drag to finish before starting a turn", () => {
+        canBegin = false;
+        queue.enqueue(R);
+        frame(0);
+        frame(16);
+        expect(log).toEqual([]);
+        canBegin = true;
+        frame(32);
+        expect(log).toEqual(["begin -1", "update 0"]);
+    });
+
+    it("completes every turn right away when flushed", async () => {
+        const first = queue.enqueue(R);
+        const second = queue.enqueue(U);
+        frame(0);
+        frame(50);
+        queue.flush();
+        expect(log).toEqual([
+            "begin -1",
+            "update 0",
+            "update 0.5",
+            "update 1",
+            "end -1",
+            "begin -1",
+            "update 1",
+            "end -1",
+        ]);
+        expect(queue.busy).toBe(false);
+        // No frame is left running
+        expect(frames.size).toBe(0);
+        await expect(Promise.all([first, second])).resolves.toEqual([
+            true,
+            true,
+        ]);
+    });
+
+    it("resolves the promises of cancelled turns to false", async () => {
+        const first = queue.enqueue(R);
+        const second = queue.enqueue(U);
+        frame(0);
+        queue.cancel();
+        expect(queue.busy).toBe(false);
+        expect(frames.size).toBe(0);
+        expect(ended).toEqual([]);
+        await expect(Promise.all([first, second])).resolves.toEqual([
+            false,
+            false,
+        ]);
+    });
+
+    it("emits start and complete for each turn, then idle", async () => {
+        const events: string[] = [];
+        queue.on("start", (turn) => events.push(`start ${turn!.axis}`));
+        const off = queue.on("complete", (turn) =>
+            events.push(`complete ${turn!.axis}`)
+        );
+        queue.on("idle", () => events.push("idle"));
+        queue.enqueue(R);
+        queue.enqueue(U);
+        let idle = false;
+        queue.idle().then(() => (idle = true));
+        frame(0);
+        frame(100);
+        await Promise.resolve();
+        expect(idle).toBe(false);
+        off();
+        frame(200);
+        frame(300);
+        expect(events).toEqual(["start 0", "complete 0", "start 1", "idle"]);
+        await Promise.resolve();
+        expect(idle).toBe(true);
+    });
+
+    it("is idle right away when nothing is queued", async () => {
+        await expect(queue.idle()).resolves.toBeUndefined();
+        queue.flush();
+        queue.cancel();
+        expect(log).toEqual([]);
+    });
+});
@@ -0,0 +1,341 @@
+import { LayerTurn } from "./notation";
+import { Easing, EASINGS, EasingName, linear } from "./easing";
+
+/** Default duration of one animated turn, in milliseconds. */
+export const DEFAULT_TURN_DURATION = 500;
+
+/**
+ * Interface describing how turns are animated, persisted in localStorage under "rubiksTurnAnimation".
+ * @interface TurnAnimation
+ * @property {number} duration - Duration of one turn, in milliseconds. 0 turns without animation.
+ * @property {EasingName} easing - The easing curve of every turn, including the snap after a drag.
+ */
+export interface TurnAnimation {
+    duration: number;
+    easing: EasingName;
+}
+
+/** The turn animation used until the user picks another one in the settings. */
+export const DEFAULT_TURN_ANIMATION: Readonly<TurnAnimation> = {
+    duration: DEFAULT_TURN_DURATION,
+    easing: "linear",
+};
+
+/**
+ * Reads the turn animation from localStorage. Fields that are missing or invalid keep their default.
+ * @returns {TurnAnimation} The saved turn animation, or `DEFAULT_TURN_ANIMATION`.
+ */
+export const loadTurnAnimation = (): TurnAnimation => {
+    if (typeof localStorage === "undefined") return DEFAULT_TURN_ANIMATION;
+    try {
+        const saved = JSON.parse(
+            localStorage.getItem("rubiksTurnAnimation") || "null"
+        );
+        if (!saved || typeof saved !== "object") return DEFAULT_TURN_ANIMATION;
+        const { duration, easing } = saved;
+        return {
+            duration:
+                Number.isFinite(duration) && duration >= 0
+                    ? duration
+                    : DEFAULT_TURN_ANIMATION.duration,
+            easing: Object.prototype.hasOwnProperty.call(EASINGS, easing)
+                ? easing
+                : DEFAULT_TURN_ANIMATION.easing,
+        };
+    } catch {
+        return DEFAULT_TURN_ANIMATION;
+    }
+};
+
+/**
+ * Interface describing how a queued turn is recorded once it completes.
+ * @interface TurnOptions
+ * @property {boolean} [record=true] - Whether the turn goes into the undo history (false for undo and redo themselves).
+ * @property {boolean} [scramble=false] - Whether the turn is part of a scramble, which is neither in the history nor reported as a turn.
+ */
+export interface TurnOptions {
+    record?: boolean;
+    scramble?: boolean;
+}
+
+/**
+ * Interface for the object that draws and applies the turns of a queue (the cube).
+ * @interface TurnAnimator
+ */
+export interface TurnAnimator {
+    /** Checks whether a turn may start now (e.g. not while the user is dragging a layer). */
+    canBegin(): boolean;
+    /** Prepares a turn: selects the layers to rotate. */
+    begin(turn: LayerTurn): void;
+    /** Shows the turn at a fraction of its rotation, from 0 (not turned) to 1 (fully turned); eased values may overshoot 1. */
+    update(progress: number): void;
+    /**
+     * Completes the turn shown at progress 1 and updates the cube state. `parts` are the turns as they
+     * were requested, several when they were merged into `turn`, to be recorded one by one.
+     */
+    end(turn: LayerTurn, options: TurnOptions, parts: LayerTurn[]): void;
+}
+
+/** Events emitted by a MoveQueue. */
+export type MoveQueueEvent = "start" | "complete" | "idle";
+
+/**
+ * A turn waiting in the queue or being animated.
+ * @property {LayerTurn} turn - The turn to make.
+ * @property {LayerTurn[]} parts - The turns merged into `turn`, as they were requested.
+ * @property {TurnOptions} options - How the turn is recorded.
+ * @property {((done: boolean) => void)[]} resolvers - Resolve the promises of the requests merged into this turn.
+ */
+type QueuedTurn = {
+    turn: LayerTurn;
+    parts: LayerTurn[];
+    options: TurnOptions;
+    resolvers: ((done: boolean) => void)[];
+};
+
+/**
+ * Normalizes a number of quarter turns to -1, 0, 1 or 2.
+ * @param {number} quarterTurns - Any number of quarter turns.
+ * @returns {number} The equivalent turn with the smallest rotation.
+ */
+const normalizeQuarterTurns = (quarterTurns: number) =>
+    [0, 1, 2, -1][((quarterTurns % 4) + 4) % 4];
+
+/**
+ * Serializes animated turns: each turn starts when the one before it has finished, so no
+ * animation is ever cut short. Turns can be requested at any time; each request returns a promise
+ * that resolves to true when the turn has been made, or false if it was cancelled.
+ * When turns are requested faster than they animate, a pending turn of the same layers is merged
+ * with the new one (e.g. R then R is animated as R2, R then R' does not move). Only the animation is
+ * merged: the animator still receives every requested turn, so the history and the solve record them all.
+ */
+class MoveQueue {
+    /** Duration of one animated turn, in milliseconds. 0 applies turns on the next frame. */
+    public duration = DEFAULT_TURN_DURATION;
+    /** Easing curve applied to the progress of every turn. */
+    public easing: Easing = linear;
+    /** Whether pending turns of the same layers are merged. */
+    public collapse = true;
+    /** The object that draws and applies the turns. */
+    private animator: TurnAnimator;
+    /** Turns waiting to start, oldest first. */
+    private pending: QueuedTurn[] = [];
+    /** The turn being animated, if any. */
+    private current: QueuedTurn | null = null;
+    /** Timestamp at which the current turn started. */
+    private startTime = 0;
+    /** ID returned by requestAnimationFrame for the animation loop. */
+    private frameId: number | null = null;
+    /** Listeners registered for each event. */
+    private listeners: Record<
+        MoveQueueEvent,
+        Set<(turn: LayerTurn | null) => void>
+    > = { start: new Set(), complete: new Set(), idle: new Set() };
+
+    /**
+     * Creates a MoveQueue.
+     * @param {TurnAnimator} animator - The object that draws and applies the turns.
+     */
+    public constructor(animator: TurnAnimator) {
+        this.animator = animator;
+        this.tick = this.tick.bind(this);
+    }
+
+    /**
+     * Checks whether a turn is animating or waiting.
+     * @returns {boolean} True until the queue is empty.
+     */
+    public get busy() {
+        return this.current !== null || this.pending.length > 0;
+    }
+
+    /**
+     * Adds a turn to the queue.
+     *
+     * @param {LayerTurn} turn - The turn to make.
+     * @param {TurnOptions} [options={}] - How the turn is recorded once it completes.
+     * @returns {Promise<boolean>} Resolves to true when the turn has been made, or false if it was cancelled.
+     */
+    public enqueue(turn: LayerTurn, options: TurnOptions = {}) {
+        return new Promise<boolean>((resolve) => {
+            const last = this.pending[this.pending.length - 1];
+            if (this.collapse && last && canMerge(last, turn, options)) {
+                // Merge with the pending turn of the same layers
+                last.turn = {
+                    ...last.turn,
+                    quarterTurns: normalizeQuarterTurns(
+                        last.turn.quarterTurns + turn.quarterTurns
+                    ),
+                };
+                last.parts.push(turn);
+                last.resolvers.push(resolve);
+                return;
+            }
+            this.pending.push({
+                turn,
+                parts: [turn],
+                options,
+                resolvers: [resolve],
+            });
+            if (this.frameId === null) {
+                this.frameId = requestAnimationFrame(this.tick);
+            }
+        });
+    }
+
+    /**
+     * Waits until every queued turn has finished or been cancelled.
+     * @returns {Promise<void>} Resolves once the queue is empty.
+     */
+    public idle() {
+        if (!this.busy) return Promise.resolve();
+        return new Promise<void>((resolve) => {
+            const off = this.on("idle", () => {
+                off();
+                resolve();
+            });
+        });
+    }
+
+    /**
+     * Completes the current turn and every pending turn right away, without animation.
+     * Used before turning the cube instantly, so the turns happen in order.
+     */
+    public flush() {
+        if (!this.busy) return;
+        this.stopLoop();
+        if (this.current) {
+            this.animator.update(1);
+            this.complete(this.current);
+            this.current = null;
+        }
+        while (this.pending.length > 0) {
+            const item = this.pending.shift()!;
+            this.animator.begin(item.turn);
+            this.emit("start", item.turn);
+            this.animator.update(1);
+            this.complete(item);
+        }
+        this.emit("idle", null);
+    }
+
+    /**
+     * Drops the current turn and every pending turn; their promises resolve to false.
+     * The current turn is left half-drawn, so the caller must rebuild the cube (e.g. reset it).
+     */
+    public cancel() {
+        this.stopLoop();
+        const dropped = [
+            ...(this.current ? [this.current] : []),
+            ...this.pending,
+        ];
+        this.current = null;
+        this.pending = [];
+        dropped.forEach((item) =>
+            item.resolvers.forEach((done) => done(false))
+        );
+        if (dropped.length > 0) this.emit("idle", null);
+    }
+
+    /**
+     * Registers a listener for queue events: "start" and "complete" receive the turn,
+     * "idle" is emitted when the last turn has finished.
+     *
+     * @param {MoveQueueEvent} type - The event to listen to.
+     * @param {(turn: LayerTurn | null) => void} listener - The function to call.
+     * @returns {() => void} A function that removes the listener.
+     */
+    public on(
+        type: MoveQueueEvent,
+        listener: (turn: LayerTurn | null) => void
+    ) {
+        this.listeners[type].add(listener);
+        return () => {
+            this.listeners[type].delete(listener);
+        };
+    }
+
+    /**
+     * Advances the animation by one frame, starting the next turn when the previous one is done.
+     * @param {number} now - The frame timestamp from requestAnimationFrame.
+     */
+    private tick(now: number) {
+        this.frameId = null;
+        if (!this.current) {
+            // Everything pending was flushed or cancelled since the frame was requested
+            if (this.pending.length === 0) return;
+            // Let a drag by the user finish first
+            if (!this.animator.canBegin()) {
+                this.frameId = requestAnimationFrame(this.tick);
+                return;
+            }
+            this.current = this.pending.shift()!;
+            this.startTime = now;
+            this.animator.begin(this.current.turn);
+            this.emit("start", this.current.turn);
+        }
+
+        // Turns that cancel out complete on their first frame, without moving
+        const progress =
+            this.duration > 0 && this.current.turn.quarterTurns !== 0
+                ? Math.min(1, (now - this.startTime) / this.duration)
+                : 1;
+        this.animator.update(progress < 1 ? this.easing(progress) : 1);
+        if (progress >= 1) {
+            const item = this.current;
+            this.current = null;
+            this.complete(item);
+        }
+        // The loop may have been stopped by a listener (e.g. flush or cancel)
+        if (this.frameId === null && this.busy) {
+            this.frameId = requestAnimationFrame(this.tick);
+        } else if (!this.busy) {
+            this.emit("idle", null);
+        }
+    }
+
+    /**
+     * Completes a turn shown at progress 1 and resolves its promises.
+     * @param {QueuedTurn} item - The turn to complete.
+     */
+    private complete(item: QueuedTurn) {
+        this.animator.end(item.turn, item.options, item.parts);
+        this.emit("complete", item.turn);
+        item.resolvers.forEach((done) => done(true));
+    }
+
+    /**
+     * Stops the animation loop.
+     */
+    private stopLoop() {
+        if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+        this.frameId = null;
+    }
+
+    /**
+     * Calls the listeners of an event.
+     * @param {MoveQueueEvent} type - The event.
+     * @param {LayerTurn | null} turn - The turn the event is about, or null for "idle".
+     */
+    private emit(type: MoveQueueEvent, turn: LayerTurn | null) {
+        this.listeners[type].forEach((listener) => listener(turn));
+    }
+}
+
+/**
+ * Checks whether a new turn can be merged into a pending one: same layers of the same axis,
+ * recorded the same way.
+ *
+ * @param {QueuedTurn} item - The pending turn.
+ * @param {LayerTurn} turn - The new turn.
+ * @param {TurnOptions} options - How the new turn is recorded.
+ * @returns {boolean} True if the turns can be merged.
+ */
+const canMerge = (item: QueuedTurn, turn: LayerTurn, options: TurnOptions) =>
+    item.turn.axis === turn.axis &&
+    item.turn.layers.length === turn.layers.length &&
+    item.turn.layers.every((layer) => turn.layers.includes(layer)) &&
+    (item.options.record ?? true) === (options.record ?? true) &&
+    (item.options.scramble ?? false) === (options.scramble ?? false);
+
+export default MoveQueue;
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import CubeModel from "./cubeModel";
+import {
+    applyAlgorithmToModel,
+    formatAlgorithm,
+    getCenteringRotations,
+    NotationError,
+    parseAlgorithm,
+    resolveMove,
+} from "./notation";
+
+/**
+ * Parses a single move.
+ * @param {string} text - The move in standard notation.
+ * @returns {Move} The move.
+ */
+const move = (text: string) => parseAlgorithm(text)[0];
+
+describe("parseAlgorithm", () => {
+    it("parses face turns with primes and doubles", () => {
+        expect(parseAlgorithm("R U' F2 B2'")).toEqual([
+            { family: "R", depth: 1, wide: false, amount: 1 },
+            { family: "U", depth: 1, wide: false, amount: -1 },
+            { family: "F", depth: 1, wide: false, amount: 2 },
+            { family: "B", depth: 1, wide: false, amount: -2 },
+        ]);
+    });
+
+    it("parses wide moves and numbered layers", () => {
+        expect(parseAlgorithm("Rw 3Rw' r2 2R")).toEqual([
+            { family: "R", depth: 2, wide: true, amount: 1 },
+            { family: "R", depth: 3, wide: true, amount: -1 },
+            { family: "R", depth: 2, wide: true, amount: 2 },
+            { family: "R", depth: 2, wide: false, amount: 1 },
+        ]);
+    });
+
+    it("parses slice moves and rotations", () => {
+        expect(formatAlgorithm(parseAlgorithm("M2 E' S x y2 z'"))).toBe(
+            "M2 E' S x y2 z'"
+        );
+    });
+
+    it("reads moves written back to back and typographic primes", () => {
+        expect(formatAlgorithm(parseAlgorithm("RUR’U'"))).toBe("R U R' U'");
+        expect(parseAlgorithm("  \tR\n")).toHaveLength(1);
+        expect(parseAlgorithm("")).toEqual([]);
+    });
+
+    it.each([
+        ["R U3", 3, "Turn amount must be 1 or 2"],
+        ["R X", 2, 'Unexpected character "X"'],
+        ["Rww", 2, 'Unexpected character "w"'],
+        ["R2''", 3, "Unexpected character"],
+        ["3M", 0, "does not take a layer number"],
+        ["U 0R", 2, "Layer number must be at least 1"],
+        ["R 3", 3, "Expected a move after layer number"],
+    ])("reports %j at position %i", (algorithm, position, message) => {
+        let error: unknown;
+        try {
+            parseAlgorithm(algorithm);
+        } catch (e) {
+            error = e;
+        }
+        expect(error).toBeInstanceOf(NotationError);
+        expect((error as NotationError).position).toBe(position);
+        expect((error as NotationError).message).toContain(message);
+    });
+});
+
+describe("resolveMove", () => {
+    it("turns the outer layer on the side of a face move", () => {
+        expect(resolveMove(move("R"), 3)).toEqual({
+            axis: 0,
+            layers: [2],
+            quarterTurns: -1,
+        });
+        expect(resolveMove(move("L'"), 3)).toMatchObject({
+            axis: 0,
+            layers: [0],
+        });
+        expect(resolveMove(move("2U"), 4)).toMatchObject({
+            axis: 1,
+            layers: [2],
+        });
+    });
+
+    it("turns the layers of wide moves from the outside in", () => {
+        expect(resolveMove(move("3Rw"), 5).layers).toEqual([4, 3, 2]);
+        expect(resolveMove(move("Lw"), 4).layers).toEqual([0, 1]);
+    });
+
+    it("turns every inner layer with a slice move and every layer with a rotation", () => {
+        expect(resolveMove(move("M"), 5).layers).toEqual([1, 2, 3]);
+        expect(resolveMove(move("x"), 4).layers).toEqual([3, 2, 1, 0]);
+    });
+
+    it("counts the layers of a cuboid along the move's axis", () => {
+        expect(resolveMove(move("3U"), [2, 3, 2]).layers).toEqual([0]);
+        expect(() => resolveMove(move("2F"), [2, 3, 1])).toThrow(
+            'Move "2F" is too deep for a 2x3x1 cuboid'
+        );
+    });
+
+    it.each([
+        ["4R", 3],
+        ["3Rw", 2],
+        ["2R", 1],
+    ])("rejects %s on a cube of order %i as too deep", (text, order) => {
+        expect(() => resolveMove(move(text), order)).toThrow(
+            `too deep for a ${order}x${order}x${order} cube`
+        );
+    });
+
+    it("rejects slice moves on cubes without inner layers", () => {
+        expect(() => resolveMove(move("M"), 2)).toThrow(/order 3 or more/);
+    });
+});
+
+describe("getCenteringRotations", () => {
+    it("brings the centers of an odd-order cube back home", () => {
+        const model = new CubeModel(3);
+        applyAlgorithmToModel(model, "x y' M");
+        applyAlgorithmToModel(model, getCenteringRotations(model));
+        // Every center piece sits on its home face again
+        model.cubies
+            .filter((cubie) => cubie.home.filter((v) => v !== 0).length === 1)
+            .forEach((cubie) => expect(cubie.pos).toEqual(cubie.home));
+    });
+
+    it("returns no rotation when the centers are home", () => {
+        expect(getCenteringRotations(new CubeModel(5))).toEqual([]);
+    });
+
+    it.each([2, 4, 6])(
+        "returns no rotation for a cube of order %i, which has no fixed centers",
+        (order) => {
+            const model = new CubeModel(order);
+            applyAlgorithmToModel(model, "x y");
+            expect(formatAlgorithm(getCenteringRotations(model))).toBe("");
+        }
+    );
+
+    it("returns no rotation for a cuboid", () => {
+        const model = new CubeModel([3, 3, 5]);
+        applyAlgorithmToModel(model, "x2");
+        expect(getCenteringRotations(model)).toEqual([]);
+    });
+});
@@ -0,0 +1,430 @@
+import CubeModel, { Axis, toDimensions, Vec3 } from "./cubeModel";
+
+/**
+ * The letter of a move in standard (WCA / SiGN) notation.
+ * Faces: R, L, U, D, F, B. Slices: M, E, S. Whole-cube rotations: x, y, z.
+ */
+export type MoveFamily =
+    | "R"
+    | "L"
+    | "U"
+    | "D"
+    | "F"
+    | "B"
+    | "M"
+    | "E"
+    | "S"
+    | "x"
+    | "y"
+    | "z";
+
+/**
+ * Interface describing a single parsed move.
+ * @interface Move
+ * @property {MoveFamily} family - The move letter.
+ * @property {number} depth - For face moves, how many layers deep the move reaches (1 = outer layer).
+ * @property {boolean} wide - If true, every layer from the outer one up to `depth` turns (e.g. `Rw`, `3Rw`).
+ *                            If false, only the layer at `depth` turns (e.g. `R`, `2R`).
+ * @property {number} amount - Quarter turns in the move's clockwise direction: 1, 2, -1 (prime) or -2.
+ */
+export interface Move {
+    family: MoveFamily;
+    depth: number;
+    wide: boolean;
+    amount: number;
+}
+
+/**
+ * Interface describing a move resolved against a cube of a given order.
+ * @interface LayerTurn
+ * @property {Axis} axis - The axis of rotation.
+ * @property {number[]} layers - The layer indices that turn (0 = most negative side of the axis).
+ * @property {number} quarterTurns - Quarter turns around the positive axis (right-hand rule).
+ */
+export interface LayerTurn {
+    axis: Axis;
+    layers: number[];
+    quarterTurns: number;
+}
+
+/**
+ * Error thrown when an algorithm string cannot be parsed or does not fit the cube.
+ * `position` is the zero-based index in the input string where the problem was found.
+ */
+export class NotationError extends Error {
+    /** Zero-based index in the algorithm string where the error occurred. */
+    public position: number;
+
+    /**
+     * Creates a NotationError.
+     * @param {string} message - Description of the problem.
+     * @param {number} position - Zero-based index of the offending character.
+     */
+    public constructor(message: string, position: number) {
+        super(`${message} (at position ${position})`);
+        this.name = "NotationError";
+        this.position = position;
+    }
+}
+
+/**
+ * How each move letter maps onto the cube: its axis, the side of the axis its outer layer sits on,
+ * and the direction of a clockwise turn around the positive axis.
+ * Axes follow the scene: X points right, Y up and Z towards the viewer (front).
+ */
+const MOVE_DEFINITIONS: Record<
+    MoveFamily,
+    { axis: Axis; side: 1 | -1; clockwise: 1 | -1 }
+> = {
+    R: { axis: 0, side: 1, clockwise: -1 },
+    L: { axis: 0, side: -1, clockwise: 1 },
+    U: { axis: 1, side: 1, clockwise: -1 },
+    D: { axis: 1, side: -1, clockwise: 1 },
+    F: { axis: 2, side: 1, clockwise: -1 },
+    B: { axis: 2, side: -1, clockwise: 1 },
+    M: { axis: 0, side: -1, clockwise: 1 }, // Follows L
+    E: { axis: 1, side: -1, clockwise: 1 }, // Follows D
+    S: { axis: 2, side: 1, clockwise: -1 }, // Follows F
+    x: { axis: 0, side: 1, clockwise: -1 }, // Follows R
+    y: { axis: 1, side: 1, clockwise: -1 }, // Follows U
+    z: { axis: 2, side: 1, clockwise: -1 }, // Follows F
+};
+
+/** Face letters that accept layer prefixes and the wide suffix. */
+const FACE_LETTERS = "RLUDFB";
+/** Slice and rotation letters, which take no prefix. */
+const OTHER_LETTERS = "MESxyz";
+/** Whole-cube rotation letters, the last three of `OTHER_LETTERS`. */
+const ROTATION_LETTERS = OTHER_LETTERS.slice(3);
+/** Lowercase face letters, SiGN shorthand for two-layer wide moves (`r` = `Rw`). */
+const WIDE_LETTERS = "rludfb";
+
+/**
+ * Parses an algorithm written in standard notation, e.g. `"R U R' U'"`, `"Rw2 3Uw' M2 x"`.
+ * Moves may be separated by whitespace or written back to back.
+ *
+ * @param {string} algorithm - The algorithm string.
+ * @returns {Move[]} The parsed moves, in order.
+ * @throws {NotationError} If the string contains a syntax error.
+ */
+export const parseAlgorithm = (algorithm: string): Move[] => {
+    const moves: Move[] = [];
+    let i = 0;
+
+    // Reads a run of digits starting at the cursor, or returns null if there is none
+    const readNumber = () => {
+        const start = i;
+        while (i < algorithm.length && /[0-9]/.test(algorithm[i])) i++;
+        return i > start ? parseInt(algorithm.slice(start, i), 10) : null;
+    };
+
+    while (i < algorithm.length) {
+        // Skip separators between moves
+        if (/\s/.test(algorithm[i])) {
+            i++;
+            continue;
+        }
+
+        const start = i;
+        // Optional layer prefix, e.g. the 3 in `3Rw`
+        const prefix = readNumber();
+        const letter = algorithm[i];
+        if (letter === undefined) {
+            throw new NotationError("Expected a move after layer number", i);
+        }
+
+        let family: MoveFamily;
+        let wide = false;
+        if (FACE_LETTERS.includes(letter)) {
+            family = letter as MoveFamily;
+            i++;
+            if (algorithm[i] === "w") {
+                wide = true;
+                i++;
+            }
+        } else if (WIDE_LETTERS.includes(letter)) {
+            family = letter.toUpperCase() as MoveFamily;
+            wide = true;
+            i++;
+        } else if (OTHER_LETTERS.includes(letter)) {
+            if (prefix !== null) {
+                throw new NotationError(
+                    `Move "${letter}" does not take a layer number`,
+                    start
+                );
+            }
+            family = letter as MoveFamily;
+            i++;
+        } else {
+            throw new NotationError(`Unexpected character "${letter}"`, i);
+        }
+
+        if (prefix === 0) {
+            throw new NotationError("Layer number must be at least 1", start);
+        }
+
+        // Optional amount (only 1 and 2 are meaningful) and prime
+        const amountPos = i;
+        const count = readNumber();
+        if (count !== null && count !== 1 && count !== 2) {
+            throw new NotationError(
+                `Turn amount must be 1 or 2, got ${count}`,
+                amountPos
+            );
+        }
+        let amount = count ?? 1;
+        if (algorithm[i] === "'" || algorithm[i] === "’") {
+            amount = -amount;
+            i++;
+        }
+
+        // A move must be followed by a separator or another move
+        if (i < algorithm.length && /[0-9w'’]/.test(algorithm[i])) {
+            throw new NotationError(
+                `Unexpected character "${algorithm[i]}"`,
+                i
+            );
+        }
+
+        moves.push({
+            family,
+            // `Rw` defaults to two layers, `R` to the outer layer
+            depth: prefix ?? (wide ? 2 : 1),
+            wide,
+            amount,
+        });
+    }
+
+    return moves;
+};
+
+/**
+ * Formats a single move back into standard notation.
+ * @param {Move} move - The move.
+ * @returns {string} The move as text, e.g. `"3Rw'"`.
+ */
+export const formatMove = (move: Move) => {
+    let text = "";
+    if (FACE_LETTERS.includes(move.family)) {
+        // Omit the prefix when it is the default for the move kind
+        const defaultDepth = move.wide ? 2 : 1;
+        if (move.depth !== defaultDepth) text += move.depth;
+        text += move.family + (move.wide ? "w" : "");
+    } else {
+        text += move.family;
+    }
+    if (Math.abs(move.amount) === 2) text += "2";
+    if (move.amount < 0) text += "'";
+    return text;
+};
+
+/**
+ * Formats a list of moves as a space-separated algorithm string.
+ * @param {Move[]} moves - The moves.
+ * @returns {string} The algorithm string.
+ */
+export const formatAlgorithm = (moves: Move[]) =>
+    moves.map(formatMove).join(" ");
+
+/**
+ * Checks whether a move turns the whole cube (x, y or z) rather than some of its layers.
+ * @param {Move} move - The move.
+ * @returns {boolean} True for a whole-cube rotation.
+ */
+export const isRotation = (move: Move) =>
+    ROTATION_LETTERS.includes(move.family);
+
+/**
+ * Returns the inverse of a list of moves (reversed order, each move inverted).
+ * @param {Move[]} moves - The moves to invert.
+ * @returns {Move[]} The inverted moves.
+ */
+export const invertMoves = (moves: Move[]): Move[] =>
+    moves
+        .slice()
+        .reverse()
+        .map((move) => ({ ...move, amount: -move.amount }));
+
+/**
+ * Gets the number of layers along an axis of a cube or cuboid.
+ * @param {number | Vec3} size - The order of a cube, or the layers along X, Y and Z of a cuboid.
+ * @param {Axis} axis - The axis.
+ * @returns {number} The number of layers along the axis.
+ */
+const getLayerCount = (size: number | Vec3, axis: Axis) =>
+    typeof size === "number" ? size : size[axis];
+
+/**
+ * Resolves a move against a cube of the given order, producing the layers and direction to turn.
+ * On a cuboid, the move's layers are counted along its own axis.
+ *
+ * @param {Move} move - The move.
+ * @param {number | Vec3} size - The order of the cube, or the layers along X, Y and Z of a cuboid.
+ * @returns {LayerTurn} The resolved layer turn.
+ * @throws {Error} If the move does not exist on a cube of this order (e.g. `M` on a 2x2, `4R` on a 3x3).
+ */
+export const resolveMove = (move: Move, size: number | Vec3): LayerTurn => {
+    const def = MOVE_DEFINITIONS[move.family];
+    const order = getLayerCount(size, def.axis);
+    let depths: number[]; // Layer depths counted from the move's side (1 = outer layer)
+
+    if ("xyz".includes(move.family)) {
+        depths = Array.from({ length: order }, (_, i) => i + 1);
+    } else if ("MES".includes(move.family)) {
+        // On bigger cubes the slice moves turn every inner layer
+        if (order < 3) {
+            throw new Error(
+                `Move "${formatMove(move)}" needs a cube of order 3 or more`
+            );
+        }
+        depths = Array.from({ length: order - 2 }, (_, i) => i + 2);
+    } else {
+        if (move.depth > order) {
+            // Name the whole puzzle, e.g. "2x2x3 cuboid"
+            const dims = toDimensions(size);
+            const puzzle = dims.every((v) => v === dims[0]) ? "cube" : "cuboid";
+            throw new Error(
+                `Move "${formatMove(move)}" is too deep for a ${dims.join(
+                    "x"
+                )} ${puzzle}`
+            );
+        }
+        depths = move.wide
+            ? Array.from({ length: move.depth }, (_, i) => i + 1)
+            : [move.depth];
+    }
+
+    return {
+        axis: def.axis,
+        // Convert depths into layer indices along the axis
+        layers: depths.map((depth) =>
+            def.side > 0 ? order - depth : depth - 1
+        ),
+        quarterTurns: move.amount * def.clockwise,
+    };
+};
+
+/**
+ * Writes a layer turn as a move, the inverse of `resolveMove`.
+ * Outer and inner single layers become face moves (`R`, `2R`), layers counted from a side become
+ * wide moves (`Rw`, `3Rw`), all layers become rotations (`x`) and the middle layer of a 3x3 becomes `M`, `E` or `S`.
+ *
+ * @param {LayerTurn} turn - The layer turn.
+ * @param {number | Vec3} size - The order of the cube, or the layers along X, Y and Z of a cuboid.
+ * @returns {Move} The equivalent move.
+ * @throws {Error} If the layers cannot be written as a single move (e.g. two separate inner layers).
+ */
+export const layerTurnToMove = (turn: LayerTurn, size: number | Vec3): Move => {
+    const order = getLayerCount(size, turn.axis);
+    const layers = turn.layers.slice().sort((a, b) => a - b);
+    const axisFamilies = (Object.keys(MOVE_DEFINITIONS) as MoveFamily[]).filter(
+        (family) => MOVE_DEFINITIONS[family].axis === turn.axis
+    );
+    // The face on each side of the axis, then the slice and rotation letters
+    const [positive, negative, slice, rotation] = [
+        axisFamilies.find(
+            (f) => FACE_LETTERS.includes(f) && MOVE_DEFINITIONS[f].side > 0
+        )!,
+        axisFamilies.find(
+            (f) => FACE_LETTERS.includes(f) && MOVE_DEFINITIONS[f].side < 0
+        )!,
+        axisFamilies.find((f) => OTHER_LETTERS.slice(0, 3).includes(f))!,
+        axisFamilies.find((f) => ROTATION_LETTERS.includes(f))!,
+    ];
+    const contiguous = layers.every(
+        (l, i) => i === 0 || l === layers[i - 1] + 1
+    );
+
+    let family: MoveFamily;
+    let depth = 1;
+    let wide = false;
+    if (layers.length === order && order > 1) {
+        family = rotation;
+    } else if (order === 3 && layers.length === 1 && layers[0] === 1) {
+        family = slice;
+    } else if (layers.length === 1) {
+        // Name a single layer from the nearer side
+        const fromPositive = order - layers[0];
+        family = fromPositive <= layers[0] + 1 ? positive : negative;
+        depth = family === positive ? fromPositive : layers[0] + 1;
+    } else if (contiguous && layers[layers.length - 1] === order - 1) {
+        family = positive;
+        depth = layers.length;
+        wide = true;
+    } else if (contiguous && layers[0] === 0) {
+        family = negative;
+        depth = layers.length;
+        wide = true;
+    } else {
+        throw new Error("These layers cannot be written as a single move");
+    }
+
+    // Quarter turns in the move's clockwise direction, normalised to -1, 1 or 2
+    const quarters =
+        (((turn.quarterTurns * MOVE_DEFINITIONS[family].clockwise) % 4) + 4) %
+        4;
+    return { family, depth, wide, amount: [0, 1, 2, -1][quarters] };
+};
+
+/**
+ * Applies moves to a headless cube model.
+ *
+ * @param {CubeModel} model - The model to turn.
+ * @param {Move[] | string} algorithm - Parsed moves or an algorithm string.
+ * @throws {NotationError} If an algorithm string contains a syntax error.
+ */
+export const applyAlgorithmToModel = (
+    model: CubeModel,
+    algorithm: Move[] | string
+) => {
+    const moves =
+        typeof algorithm === "string" ? parseAlgorithm(algorithm) : algorithm;
+    // Resolve every move first so an invalid move leaves the model untouched
+    const turns = moves.map((move) => resolveMove(move, model.dims));
+    turns.forEach((turn) =>
+        model.turnLayers(turn.axis, turn.layers, turn.quarterTurns)
+    );
+};
+
+/**
+ * Finds the whole-cube rotations that bring the fixed centers of an odd-order cube back to
+ * their home faces, e.g. after `x` moves or middle-layer turns. Useful for code that expects
+ * face moves to be relative to the solved orientation (the solver, the tutor).
+ * Even-order cubes and cuboids have no fixed centers, so nothing is rotated for them.
+ *
+ * @param {CubeModel} model - The model. It is not modified.
+ * @returns {Move[]} Up to two rotations (e.g. `x y'`), empty if the centers are already home or there are none.
+ */
+export const getCenteringRotations = (model: CubeModel): Move[] => {
+    if (!model.isCube || model.order % 2 === 0) return [];
+    const work = model.clone();
+    const b = work.border;
+    const rotations: Move[] = [];
+    const centerAt = (home: Vec3) =>
+        work.cubies.find(
+            (c) =>
+                c.home[0] === home[0] &&
+                c.home[1] === home[1] &&
+                c.home[2] === home[2]
+        )!.pos;
+    const rotate = (family: MoveFamily, amount: number) => {
+        const move: Move = { family, depth: 1, wide: false, amount };
+        applyAlgorithmToModel(work, [move]);
+        rotations.push(move);
+    };
+
+    // First put the U center on top...
+    const up = centerAt([0, b, 0]);
+    if (up[0] > 0) rotate("z", -1);
+    else if (up[0] < 0) rotate("z", 1);
+    else if (up[2] > 0) rotate("x", 1);
+    else if (up[2] < 0) rotate("x", -1);
+    else if (up[1] < 0) rotate("x", 2);
+    // ...then turn the F center to the front
+    const front = centerAt([0, 0, b]);
+    if (front[0] > 0) rotate("y", 1);
+    else if (front[0] < 0) rotate("y", -1);
+    else if (front[2] < 0) rotate("y", 2);
+
+    return rotations;
+};
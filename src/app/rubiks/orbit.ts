@@ -0,0 +1,177 @@
+import { Euler, Object3D, Quaternion, Vector3 } from "three";
+import { rotateAroundWorldAxis } from "./transform";
+import { easeOutCubic } from "./easing";
+
+/**
+ * The cube's starting orientation: tilted towards the camera and turned by 45 degrees,
+ * so the U, F and R faces are all visible with U on top.
+ */
+export const HOME_VIEW = new Quaternion().setFromEuler(
+    new Euler(Math.PI * 0.25, Math.PI * 0.25, 0)
+);
+
+/** Time (ms) over which a gliding cube loses about two thirds of its speed. */
+const DAMPING_TIME = 350;
+/** Angular speed (radians per millisecond) below which a gliding cube stops. */
+const MIN_SPEED = 0.0002;
+/** A drag that paused longer than this (ms) before being released does not glide. */
+const RELEASE_WINDOW = 80;
+/** Duration (ms) of the snap-to-view tween. */
+const SNAP_DURATION = 400;
+
+/**
+ * Rotates an object (the whole cube) as a user orbits it, with momentum.
+ * Rotations made through `rotate` are sampled into an angular velocity; after `release`, the object
+ * keeps gliding and slows down smoothly. `snapToView` tweens the object to the nearest standard view.
+ * Any new rotation stops a glide or a tween in progress.
+ */
+class Orbit {
+    /** The object being rotated. */
+    private object: Object3D;
+    /** Angular velocity in world space: the axis scaled by the speed in radians per millisecond. */
+    private velocity = new Vector3();
+    /** Timestamp of the last rotation sample. */
+    private lastSample: number | null = null;
+    /** ID returned by requestAnimationFrame for the glide or tween loop. */
+    private frameId: number | null = null;
+
+    /**
+     * Creates an Orbit for an object.
+     * @param {Object3D} object - The object to rotate.
+     */
+    public constructor(object: Object3D) {
+        this.object = object;
+    }
+
+    /**
+     * Checks whether the object is gliding or snapping to a view.
+     * @returns {boolean} True while an orbit animation runs.
+     */
+    public get moving() {
+        return this.frameId !== null;
+    }
+
+    /**
+     * Rotates the object around a world axis right away and records the movement for momentum.
+     *
+     * @param {Vector3} axis - The axis of rotation in world space.
+     * @param {number} angle - The angle of rotation in radians.
+     */
+    public rotate(axis: Vector3, angle: number) {
+        // Grabbing a gliding or snapping object stops it
+        if (this.moving) this.stop();
+        if (angle === 0 || axis.lengthSq() === 0) return;
+        rotateAroundWorldAxis(this.object, axis.clone(), angle);
+
+        // Blend this movement into the velocity, forgetting it after a pause
+        const now = performance.now();
+        const elapsed = this.lastSample !== null ? now - this.lastSample : 0;
+        this.lastSample = now;
+        if (elapsed <= 0) return;
+        const sample = axis
+            .clone()
+            .normalize()
+            .multiplyScalar(angle / elapsed);
+        if (elapsed > RELEASE_WINDOW) this.velocity.copy(sample);
+        else this.velocity.lerp(sample, 0.5);
+    }
+
+    /**
+     * Lets go of the object: it keeps rotating with the recorded velocity and slows down.
+     * Nothing happens if the movement stopped before the release.
+     */
+    public release() {
+        const recent =
+            this.lastSample !== null &&
+            performance.now() - this.lastSample < RELEASE_WINDOW;
+        this.lastSample = null;
+        if (!recent || this.velocity.length() < MIN_SPEED) {
+            this.velocity.set(0, 0, 0);
+            return;
+        }
+
+        let lastTick: number | null = null;
+        const glide = (now: number) => {
+            const elapsed = lastTick !== null ? now - lastTick : 0;
+            lastTick = now;
+            const speed = this.velocity.length();
+            if (speed < MIN_SPEED) {
+                this.stop();
+                return;
+            }
+            rotateAroundWorldAxis(
+                this.object,
+                this.velocity.clone(),
+                speed * elapsed
+            );
+            // Exponential damping, independent of the frame rate
+            this.velocity.multiplyScalar(Math.exp(-elapsed / DAMPING_TIME));
+            this.frameId = requestAnimationFrame(glide);
+        };
+        this.frameId = requestAnimationFrame(glide);
+    }
+
+    /**
+     * Tweens the object to the nearest standard view: the starting view turned a multiple of
+     * 90 degrees around U, so U is on top and the faces towards the camera read upright.
+     *
+     * @param {() => void} [onComplete] - Optional callback executed when the tween finishes.
+     */
+    public snapToView(onComplete?: () => void) {
+        this.stop();
+        const from = this.object.quaternion.clone();
+        const to = getNearestView(from);
+
+        let start: number | null = null;
+        const tween = (now: number) => {
+            if (start === null) start = now;
+            const t = Math.min(1, (now - start) / SNAP_DURATION);
+            this.object.quaternion.slerpQuaternions(from, to, easeOutCubic(t));
+            this.object.updateMatrix();
+            if (t < 1) {
+                this.frameId = requestAnimationFrame(tween);
+            } else {
+                this.frameId = null;
+                if (onComplete) onComplete();
+            }
+        };
+        this.frameId = requestAnimationFrame(tween);
+    }
+
+    /**
+     * Stops gliding or snapping right away.
+     */
+    public stop() {
+        if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+        this.frameId = null;
+        this.velocity.set(0, 0, 0);
+    }
+}
+
+/**
+ * Finds the standard view closest to an orientation.
+ * @param {Quaternion} orientation - The current orientation.
+ * @returns {Quaternion} The closest of the four standard views (U on top).
+ */
+export const getNearestView = (orientation: Quaternion) => {
+    let best = HOME_VIEW.clone();
+    let bestDot = -1;
+    for (let k = 0; k < 4; k++) {
+        // Turn the home view around the object's own Y (U) axis
+        const view = HOME_VIEW.clone().multiply(
+            new Quaternion().setFromAxisAngle(
+                new Vector3(0, 1, 0),
+                (k * Math.PI) / 2
+            )
+        );
+        // q and -q are the same rotation, so compare the absolute dot product
+        const dot = Math.abs(view.dot(orientation));
+        if (dot > bestDot) {
+            bestDot = dot;
+            best = view;
+        }
+    }
+    return best;
+};
+
+export default Orbit;
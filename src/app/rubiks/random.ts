@@ -0,0 +1,69 @@
+/**
+ * Seedable pseudo-random number generation, so scrambles can be replayed and shared.
+ */
+
+/** Seed value that stands for "today's" seed, e.g. in `/challenge?seed=daily`. */
+export const DAILY_SEED = "daily";
+
+/**
+ * Hashes a seed string into a 32-bit unsigned integer (FNV-1a).
+ *
+ * @param {string} seed - The seed string.
+ * @returns {number} The 32-bit hash.
+ */
+export const hashSeed = (seed: string) => {
+    let hash = 0x811c9dc5; // FNV offset basis
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        // Multiply by the FNV prime, keeping 32 bits
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/**
+ * Creates a deterministic random number generator (mulberry32) from a seed.
+ * The same seed always yields the same sequence of numbers.
+ *
+ * @param {string} seed - The seed string.
+ * @returns {() => number} A function returning numbers in [0, 1), like `Math.random`.
+ */
+export const createRandom = (seed: string) => {
+    let state = hashSeed(seed);
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+/**
+ * Creates a new random seed, short enough to share in a URL.
+ * @returns {string} An 8-character base-36 seed.
+ */
+export const createSeed = () =>
+    Math.floor(Math.random() * 36 ** 8)
+        .toString(36)
+        .padStart(8, "0");
+
+/**
+ * Returns the seed of the daily scramble for a given date.
+ * Days are counted in UTC so every teammate gets the same daily scramble.
+ *
+ * @param {Date} [date=new Date()] - The date.
+ * @returns {string} The daily seed, e.g. `"daily-2025-05-01"`.
+ */
+export const getDailySeed = (date = new Date()) =>
+    `${DAILY_SEED}-${date.toISOString().slice(0, 10)}`;
+
+/**
+ * Turns a seed as written by the user (e.g. in a URL) into the seed to use.
+ * `"daily"` becomes today's daily seed; any other value is used as-is.
+ *
+ * @param {string} seed - The seed as given.
+ * @returns {string} The resolved seed.
+ */
+export const resolveSeed = (seed: string) =>
+    seed === DAILY_SEED ? getDailySeed() : seed;
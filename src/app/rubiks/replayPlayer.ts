@@ -0,0 +1,247 @@
+import { Cube } from "./cube";
+
+/**
+ * Interface describing one turn of a recorded solve.
+ * @interface ReconstructionMove
+ * @property {string} move - The turn in standard notation (e.g. `"R'"`).
+ * @property {number} time - Milliseconds from the start of the timer to the end of the turn.
+ */
+export interface ReconstructionMove {
+    move: string;
+    time: number;
+}
+
+/**
+ * Re-animates a recorded solve on a cube, in real time or faster or slower.
+ * Supports playing, pausing, changing the speed and seeking (scrubbing) to any time.
+ * Moves are animated as their timestamps are reached; when playback outruns the animation
+ * (fast solves or high speeds), the moves in between are applied instantly.
+ */
+class ReplayPlayer {
+    /** The scramble the solve started from. */
+    public readonly scramble: string;
+    /** The recorded turns, in order. */
+    public readonly moves: ReconstructionMove[];
+    /** The cube the solve is replayed on. */
+    private cube: Cube;
+    /** Playback time in milliseconds from the start of the solve. */
+    private _time = 0;
+    /** Number of recorded turns currently shown on the cube. */
+    private _applied = 0;
+    /** Whether playback is running. */
+    private _playing = false;
+    /** Playback speed multiplier (1 = real time). */
+    private _speed = 1;
+    /** Whether a turn is currently animating. */
+    private animating = false;
+    /** Incremented on every seek so callbacks of cancelled animations can be ignored. */
+    private generation = 0;
+    /** ID returned by requestAnimationFrame for the playback loop. */
+    private frameId: number | null = null;
+    /** Timestamp of the previous playback frame. */
+    private lastTick: number | null = null;
+    /** Callback executed whenever the playback state changes. */
+    private onChange?: (player: ReplayPlayer) => void;
+
+    /**
+     * Creates a ReplayPlayer and shows the scrambled cube.
+     *
+     * @param {Cube} cube - The cube to replay the solve on.
+     * @param {string} scramble - The scramble the solve started from, in standard notation.
+     * @param {ReconstructionMove[]} moves - The recorded turns.
+     * @param {(player: ReplayPlayer) => void} [onChange] - Optional callback executed on every change.
+     */
+    public constructor(
+        cube: Cube,
+        scramble: string,
+        moves: ReconstructionMove[],
+        onChange?: (player: ReplayPlayer) => void
+    ) {
+        this.cube = cube;
+        this.scramble = scramble;
+        this.moves = moves;
+        this.onChange = onChange;
+        this.seek(0);
+    }
+
+    /**
+     * Gets the length of the solve.
+     * @returns {number} The time of the last turn, in milliseconds.
+     */
+    public get duration() {
+        return this.moves.length > 0
+            ? this.moves[this.moves.length - 1].time
+            : 0;
+    }
+
+    /**
+     * Gets the playback time.
+     * @returns {number} Milliseconds from the start of the solve.
+     */
+    public get time() {
+        return this._time;
+    }
+
+    /**
+     * Gets the number of recorded turns currently shown on the cube.
+     * @returns {number} The number of applied turns.
+     */
+    public get applied() {
+        return this._applied;
+    }
+
+    /**
+     * Checks whether playback is running.
+     * @returns {boolean} True while playing.
+     */
+    public get playing() {
+        return this._playing;
+    }
+
+    /**
+     * Gets the playback speed.
+     * @returns {number} The speed multiplier (1 = real time).
+     */
+    public get speed() {
+        return this._speed;
+    }
+
+    /**
+     * Sets the playback speed.
+     * @param {number} speed - The speed multiplier (e.g. 0.5 for half speed, 2 for double speed).
+     */
+    public setSpeed(speed: number) {
+        this._speed = speed;
+        this.emitChange();
+    }
+
+    /**
+     * Starts or resumes playback. Starts over if the end has been reached.
+     */
+    public play() {
+        if (this._playing) return;
+        if (this._time >= this.duration) this.seek(0);
+        this._playing = true;
+        this.lastTick = null;
+        this.frameId = requestAnimationFrame(this.tick);
+        this.emitChange();
+    }
+
+    /**
+     * Pauses playback. A turn that is animating still completes.
+     */
+    public pause() {
+        this._playing = false;
+        if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+        this.frameId = null;
+        this.emitChange();
+    }
+
+    /**
+     * Jumps to a time in the solve, showing the cube as it was at that moment.
+     * @param {number} time - Milliseconds from the start of the solve.
+     */
+    public seek(time: number) {
+        // Drop any animating turn; its completion callback will be ignored
+        this.generation++;
+        this.animating = false;
+        this._time = Math.max(0, Math.min(time, this.duration));
+
+        // Rebuild the state from the scramble and every turn made by then
+        const due = this.countDue();
+        this.cube.restore();
+        this.cube.applyAlgorithm(
+            [this.scramble, ...this.moves.slice(0, due).map((m) => m.move)]
+                .filter((part) => part)
+                .join(" ")
+        );
+        this._applied = due;
+        this.emitChange();
+    }
+
+    /**
+     * Stops playback for good, e.g. when leaving the replay.
+     */
+    public dispose() {
+        this.pause();
+        this.generation++;
+        this.onChange = undefined;
+    }
+
+    /**
+     * Advances the playback clock by one animation frame and shows the turns that are due.
+     * @param {number} now - The frame timestamp from requestAnimationFrame.
+     */
+    private tick = (now: number) => {
+        if (!this._playing) return;
+        const elapsed = this.lastTick !== null ? now - this.lastTick : 0;
+        this.lastTick = now;
+        this._time = Math.min(
+            this.duration,
+            this._time + elapsed * this._speed
+        );
+        this.advance();
+
+        // Stop once the clock has reached the end and every turn is shown
+        if (
+            this._time >= this.duration &&
+            this._applied >= this.moves.length &&
+            !this.animating
+        ) {
+            this._playing = false;
+            this.frameId = null;
+        } else {
+            this.frameId = requestAnimationFrame(this.tick);
+        }
+        this.emitChange();
+    };
+
+    /**
+     * Shows the turns whose time has come: animates the next one, applying any backlog instantly first.
+     */
+    private advance() {
+        if (this.animating) return;
+        const due = this.countDue();
+        if (due <= this._applied) return;
+
+        // Catch up instantly when playback has outrun the animation
+        if (due - this._applied > 1) {
+            this.cube.applyAlgorithm(
+                this.moves
+                    .slice(this._applied, due - 1)
+                    .map((m) => m.move)
+                    .join(" ")
+            );
+            this._applied = due - 1;
+        }
+
+        const generation = this.generation;
+        this.animating = true;
+        this.cube.applyAlgorithm(this.moves[this._applied].move, true, () => {
+            if (generation !== this.generation) return;
+            this.animating = false;
+            this._applied++;
+            this.emitChange();
+        });
+    }
+
+    /**
+     * Counts the recorded turns made by the current playback time.
+     * @returns {number} The number of turns due.
+     */
+    private countDue() {
+        let due = 0;
+        while (due < this.moves.length && this.moves[due].time <= this._time)
+            due++;
+        return due;
+    }
+
+    /**
+     * Notifies the change listener, if any.
+     */
+    private emitChange() {
+        if (this.onChange) this.onChange(this);
+    }
+}
+
+export default ReplayPlayer;
@@ -0,0 +1,127 @@
+import { formatAlgorithm, Move, MoveFamily } from "./notation";
+import { toDimensions, Vec3 } from "./cubeModel";
+
+/**
+ * The faces scrambles are made of, grouped by axis.
+ * Moves on the same axis commute, so the generator tracks them together.
+ */
+const AXIS_FACES: MoveFamily[][] = [
+    ["R", "L"],
+    ["U", "D"],
+    ["F", "B"],
+];
+
+/**
+ * Returns the default scramble length for a cube order, following common WCA-style practice:
+ * 11 moves for 2x2, 20 for 3x3, then 40, 60, 80, 100 ... for 4x4, 5x5, 6x6, 7x7 and beyond.
+ *
+ * @param {number} order - The order of the cube.
+ * @returns {number} The number of moves in a scramble.
+ */
+export const getScrambleLength = (order: number) => {
+    if (order <= 1) return 0; // A 1x1 cannot be scrambled by layer turns
+    if (order === 2) return 11;
+    if (order === 3) return 20;
+    return 20 * (order - 2);
+};
+
+/**
+ * Generates a random-move scramble in standard notation for a cube of the given order.
+ *
+ * Redundant sequences are avoided: a move never repeats a layer already turned since the
+ * last change of axis, which rules out both `R R` and cancelling runs such as `R L R`.
+ * 2x2 scrambles only use R, U and F (the other faces are equivalent up to rotation);
+ * 4x4 and larger also use wide moves up to half the cube (only R, U and F for the half-cube
+ * wide moves of even cubes, e.g. `3Rw` on a 6x6).
+ * On a cuboid, each axis follows these rules for its own number of layers, axes with a single
+ * layer are never turned and faces that are not square only get half turns.
+ *
+ * @param {number | Vec3} size - The order of the cube, or the layers along X, Y and Z of a cuboid.
+ * @param {number} [length] - The number of moves. Defaults to `getScrambleLength` of the largest dimension.
+ * @param {() => number} [random=Math.random] - Source of random numbers in [0, 1).
+ * @returns {Move[]} The scramble moves.
+ */
+export const generateScrambleMoves = (
+    size: number | Vec3,
+    length = getScrambleLength(Math.max(...toDimensions(size))),
+    random: () => number = Math.random
+): Move[] => {
+    const dims = toDimensions(size);
+
+    // Every distinct layer set that may be turned, per axis: (face, depth) pairs
+    const candidates = AXIS_FACES.map((faces, axis) => {
+        const order = dims[axis];
+        if (order <= 1) return []; // Turning the only layer is a rotation
+        const maxDepth = order <= 3 ? 1 : Math.floor(order / 2);
+        return (
+            faces
+                // On a 2x2 the second face of each axis is redundant
+                .filter((_, i) => order > 2 || i === 0)
+                .flatMap((family, i) =>
+                    Array.from({ length: maxDepth }, (_, d) => ({
+                        family,
+                        depth: d + 1,
+                    }))
+                        // On even cubes, half-cube wide moves of opposite faces only differ by a rotation
+                        .filter(({ depth }) => i === 0 || depth * 2 !== order)
+                )
+        );
+    });
+    // Quarter turns need the two other dimensions to be equal
+    const amounts = dims.map((_, axis) => {
+        const [u, v] = [0, 1, 2].filter((a) => a !== axis);
+        return dims[u] === dims[v] ? [1, -1, 2] : [2];
+    });
+
+    const turnable = candidates.filter((options) => options.length > 0);
+    if (turnable.length === 0) return [];
+    // With a single turnable axis, each layer set can only be used once
+    if (turnable.length === 1) length = Math.min(length, turnable[0].length);
+
+    const moves: Move[] = [];
+    let lastAxis = -1; // Axis of the current run of same-axis moves
+    let usedInRun: string[] = []; // Layer sets already turned in the current run
+
+    while (moves.length < length) {
+        const axis = Math.floor(random() * 3);
+        const options = candidates[axis];
+        if (options.length === 0) continue;
+        const pick = options[Math.floor(random() * options.length)];
+        const key = `${pick.family}${pick.depth}`;
+
+        if (axis === lastAxis) {
+            // Turning a layer twice in a run would merge or cancel the moves
+            if (usedInRun.includes(key)) continue;
+        } else {
+            lastAxis = axis;
+            usedInRun = [];
+        }
+        usedInRun.push(key);
+
+        const amount =
+            amounts[axis][Math.floor(random() * amounts[axis].length)];
+        moves.push({
+            family: pick.family,
+            depth: pick.depth,
+            // Deeper moves are written as wide moves (e.g. `Rw`, `3Rw`)
+            wide: pick.depth > 1,
+            amount,
+        });
+    }
+
+    return moves;
+};
+
+/**
+ * Generates a random-move scramble as a notation string, e.g. `"R U' F2 ..."`.
+ *
+ * @param {number | Vec3} size - The order of the cube, or the layers along X, Y and Z of a cuboid.
+ * @param {number} [length] - The number of moves. Defaults to `getScrambleLength` of the largest dimension.
+ * @param {() => number} [random=Math.random] - Source of random numbers in [0, 1).
+ * @returns {string} The scramble in standard notation.
+ */
+export const generateScramble = (
+    size: number | Vec3,
+    length?: number,
+    random?: () => number
+) => formatAlgorithm(generateScrambleMoves(size, length, random));
@@ -0,0 +1,123 @@
+import { invertMoves, Move } from "./notation";
+
+/**
+ * Steps through a list of moves on the cube, e.g. a solver's solution, one animated move at a time.
+ * Supports playing, pausing, and stepping forward and back. Only one move animates at a time;
+ * requests made while a move is animating are ignored.
+ *
+ * Turning the cube by hand during playback makes the remaining moves meaningless, so callers
+ * should discard the player (and solve again) in that case.
+ */
+class SolutionPlayer {
+    /** The moves to play, in order. */
+    public readonly moves: Move[];
+    /** Number of moves currently applied to the cube (0 = none, `moves.length` = all). */
+    private _position = 0;
+    /** Whether the player advances automatically after each move. */
+    private _playing = false;
+    /** Whether a move is currently animating. */
+    private _busy = false;
+    /** Applies one move with animation and calls back when it finishes. */
+    private applyMove: (move: Move, onComplete: () => void) => void;
+    /** Callback executed whenever the position or playing state changes. */
+    private onChange?: (player: SolutionPlayer) => void;
+
+    /**
+     * Creates a SolutionPlayer.
+     *
+     * @param {Move[]} moves - The moves to play.
+     * @param {(move: Move, onComplete: () => void) => void} applyMove - Animates one move on the cube.
+     * @param {(player: SolutionPlayer) => void} [onChange] - Optional callback executed on every change.
+     */
+    public constructor(
+        moves: Move[],
+        applyMove: (move: Move, onComplete: () => void) => void,
+        onChange?: (player: SolutionPlayer) => void
+    ) {
+        this.moves = moves;
+        this.applyMove = applyMove;
+        this.onChange = onChange;
+    }
+
+    /**
+     * Gets the number of moves currently applied to the cube.
+     * @returns {number} The position in the move list.
+     */
+    public get position() {
+        return this._position;
+    }
+
+    /**
+     * Checks whether the player is playing automatically.
+     * @returns {boolean} True while playing.
+     */
+    public get playing() {
+        return this._playing;
+    }
+
+    /**
+     * Checks whether every move has been applied.
+     * @returns {boolean} True at the end of the move list.
+     */
+    public get finished() {
+        return this._position >= this.moves.length;
+    }
+
+    /**
+     * Starts playing the remaining moves one after another.
+     */
+    public play() {
+        if (this.finished) return;
+        this._playing = true;
+        this.emitChange();
+        this.stepForward();
+    }
+
+    /**
+     * Pauses playback. The move currently animating, if any, still completes.
+     */
+    public pause() {
+        this._playing = false;
+        this.emitChange();
+    }
+
+    /**
+     * Applies the next move.
+     */
+    public stepForward() {
+        if (this._busy || this.finished) return;
+        this._busy = true;
+        this.applyMove(this.moves[this._position], () => {
+            this._busy = false;
+            this._position++;
+            if (this.finished) this._playing = false;
+            this.emitChange();
+            // Keep going while playing
+            if (this._playing) this.stepForward();
+        });
+    }
+
+    /**
+     * Undoes the last applied move. Pauses playback first.
+     */
+    public stepBack() {
+        if (this._playing) this.pause();
+        if (this._busy || this._position === 0) return;
+        this._busy = true;
+        const [inverse] = invertMoves([this.moves[this._position - 1]]);
+        this.applyMove(inverse, () => {
+            this._busy = false;
+            this._position--;
+            this.emitChange();
+        });
+    }
+
+    /**
+     * Notifies the change listener, if any.
+     */
+    private emitChange() {
+        if (this.onChange) this.onChange(this);
+    }
+}
+
+export default SolutionPlayer;
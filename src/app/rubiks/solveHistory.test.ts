@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import {
+    AVERAGES,
+    getAverage,
+    getBestProgression,
+    getHistogram,
+    getRollingAverages,
+    getSolveStats,
+    SolveRecord,
+} from "./solveHistory";
+import { Penalty } from "./solveTimer";
+
+/**
+ * Builds the solve records of a list of times.
+ * @param {(number | "DNF")[]} times - The times in milliseconds, or "DNF", oldest first.
+ * @returns {SolveRecord[]} The records.
+ */
+const solves = (times: (number | "DNF")[]): SolveRecord[] =>
+    times.map((time) => ({
+        time: time === "DNF" ? 30000 : time,
+        penalty: (time === "DNF" ? "DNF" : "none") as Penalty,
+        date: "2024-01-01T00:00:00.000Z",
+        puzzle: "3",
+        session: 1,
+        mode: "standard",
+        scramble: "",
+        seed: "",
+    }));
+
+/**
+ * Gets a statistic by name.
+ * @param {string} name - The name of the statistic.
+ * @returns {AverageKind} The statistic.
+ */
+const kind = (name: string) => AVERAGES.find((item) => item.name === name)!;
+
+describe("AVERAGES", () => {
+    it.each([
+        ["mo3", 3, 0],
+        ["ao5", 5, 1],
+        ["ao12", 12, 1],
+        ["ao50", 50, 3],
+        ["ao100", 100, 5],
+    ])("leaves out the best and worst of %s", (name, size, trim) => {
+        expect(kind(name)).toEqual({ name, size, trim });
+    });
+});
+
+describe("getAverage", () => {
+    it("takes the plain mean when nothing is trimmed", () => {
+        expect(getAverage([1000, 2000, 6000], 0)).toBe(3000);
+    });
+
+    it("leaves out the best and the worst solves", () => {
+        expect(getAverage([9000, 1000, 5000, 4000, 3000], 1)).toBe(4000);
+    });
+
+    it("leaves out a single DNF as the worst solve", () => {
+        expect(getAverage([1000, Infinity, 5000, 4000, 3000], 1)).toBe(4000);
+    });
+
+    it("is a DNF with more DNFs than are left out", () => {
+        expect(getAverage([1000, Infinity, 5000, Infinity, 3000], 1)).toBe(
+            Infinity
+        );
+        expect(getAverage([1000, Infinity, 2000], 0)).toBe(Infinity);
+    });
+});
+
+describe("getRollingAverages", () => {
+    it("has no value until there are enough solves", () => {
+        expect(
+            getRollingAverages([3000, 1000, 2000, 6000], kind("mo3"))
+        ).toEqual([null, null, 2000, 3000]);
+    });
+
+    it("averages the latest window after each solve", () => {
+        const values = [5000, 1000, 3000, 4000, 2000, 9000];
+        expect(getRollingAverages(values, kind("ao5")).slice(4)).toEqual([
+            3000, 3000,
+        ]);
+    });
+});
+
+describe("getSolveStats", () => {
+    it("has no values without solves", () => {
+        const stats = getSolveStats([]);
+        expect(stats).toMatchObject({
+            count: 0,
+            dnf: 0,
+            single: { current: null, best: null },
+            worst: null,
+            mean: null,
+            deviation: null,
+        });
+        expect(stats.averages.mo3).toEqual({ current: null, best: null });
+    });
+
+    it("finds the best and worst singles, leaving DNFs out of the worst", () => {
+        const stats = getSolveStats(solves([4000, 2000, "DNF", 6000]));
+        expect(stats.count).toBe(4);
+        expect(stats.dnf).toBe(1);
+        expect(stats.single).toEqual({ current: 6000, best: 2000 });
+        expect(stats.worst).toBe(6000);
+    });
+
+    it("computes the mean and standard deviation of the finished solves", () => {
+        const stats = getSolveStats(solves([2000, "DNF", 4000, 6000]));
+        expect(stats.mean).toBe(4000);
+        expect(stats.deviation).toBeCloseTo(Math.sqrt(8000000 / 3));
+    });
+
+    it("keeps the latest and the best of each average", () => {
+        const stats = getSolveStats(
+            solves([5000, 1000, 3000, 4000, 2000, 9000, 8000])
+        );
+        // The best mo3 is of (1, 3, 4), the latest of (2, 9, 8)
+        expect(stats.averages.mo3).toEqual({
+            current: 19000 / 3,
+            best: 8000 / 3,
+        });
+        expect(stats.averages.ao5).toEqual({ current: 5000, best: 3000 });
+        expect(stats.averages.ao12).toEqual({ current: null, best: null });
+    });
+
+    it("reports an average with too many DNFs as a DNF", () => {
+        const stats = getSolveStats(solves([1000, "DNF", 2000, "DNF", 3000]));
+        expect(stats.averages.ao5.current).toBe(Infinity);
+        expect(stats.single.current).toBe(3000);
+        expect(getSolveStats(solves(["DNF"])).single.best).toBe(Infinity);
+    });
+});
+
+describe("getBestProgression", () => {
+    it("keeps the best value so far", () => {
+        expect(
+            getBestProgression([null, Infinity, 5000, 6000, 3000, null])
+        ).toEqual([null, null, 5000, 5000, 3000, 3000]);
+    });
+});
+
+describe("getHistogram", () => {
+    it("sorts the finished solves into bars of equal width", () => {
+        const bins = getHistogram([1000, 2000, 2500, 4999, 5000, Infinity], 4);
+        expect(bins).toEqual([
+            { from: 1000, to: 2000, count: 1 },
+            { from: 2000, to: 3000, count: 2 },
+            { from: 3000, to: 4000, count: 0 },
+            // The slowest solve goes into the last bar
+            { from: 4000, to: 5000, count: 2 },
+        ]);
+    });
+
+    it("spreads equal times over one second", () => {
+        expect(getHistogram([3000, 3000], 2)).toEqual([
+            { from: 3000, to: 3500, count: 2 },
+            { from: 3500, to: 4000, count: 0 },
+        ]);
+    });
+
+    it("has no bars without finished solves", () => {
+        expect(getHistogram([Infinity], 5)).toEqual([]);
+    });
+});
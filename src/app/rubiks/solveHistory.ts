@@ -0,0 +1,270 @@
+import { formatTime, Penalty } from "./solveTimer";
+import { SolveMode } from "./cubeState";
+import { PhaseSplits } from "./splits";
+
+/**
+ * Interface describing one timed solve in the history, persisted in localStorage under "rubiksSolves".
+ * Unlike the leaderboard, the history keeps every solve, including DNFs.
+ * @interface SolveRecord
+ * @property {number} time - The time of the solve in milliseconds, including a +2 penalty.
+ * @property {Penalty} penalty - The inspection penalty.
+ * @property {string} date - The ISO string representation of the date when the solve finished.
+ * @property {string} puzzle - The puzzle, as formatted by `formatDimensions` (e.g. "3", or "2x2x3" for a cuboid).
+ * @property {number} session - The session the solve belongs to.
+ * @property {SolveMode} mode - How strictly the solve was checked.
+ * @property {string} scramble - The scramble the solve started from, in standard notation.
+ * @property {string} seed - The seed that generated the scramble.
+ * @property {PhaseSplits} [splits] - When each phase was completed (3x3x3 solves only).
+ */
+export interface SolveRecord {
+    time: number;
+    penalty: Penalty;
+    date: string;
+    puzzle: string;
+    session: number;
+    mode: SolveMode;
+    scramble: string;
+    seed: string;
+    splits?: PhaseSplits;
+}
+
+/** Names of the statistics computed over consecutive solves. */
+export type AverageName = "mo3" | "ao5" | "ao12" | "ao50" | "ao100";
+
+/**
+ * Interface describing a statistic over consecutive solves.
+ * @interface AverageKind
+ * @property {AverageName} name - The name of the statistic.
+ * @property {number} size - The number of consecutive solves it covers.
+ * @property {number} trim - The number of best and of worst solves left out (5% each, rounded up; none for a mean).
+ */
+export interface AverageKind {
+    name: AverageName;
+    size: number;
+    trim: number;
+}
+
+/** The statistics over consecutive solves, as in WCA regulation 9f and common timers. */
+export const AVERAGES: readonly AverageKind[] = [
+    { name: "mo3", size: 3, trim: 0 },
+    { name: "ao5", size: 5, trim: 1 },
+    { name: "ao12", size: 12, trim: 1 },
+    { name: "ao50", size: 50, trim: 3 },
+    { name: "ao100", size: 100, trim: 5 },
+];
+
+/**
+ * Interface describing the latest and the best value of a statistic.
+ * Times are in milliseconds; `Infinity` stands for DNF and null for "not enough solves".
+ * @interface StatValue
+ * @property {number | null} current - The value over the latest solves.
+ * @property {number | null} best - The best value over any consecutive solves.
+ */
+export interface StatValue {
+    current: number | null;
+    best: number | null;
+}
+
+/**
+ * Interface describing the statistics of a list of solves.
+ * @interface SolveStats
+ * @property {number} count - The number of solves.
+ * @property {number} dnf - The number of DNF solves.
+ * @property {StatValue} single - The latest and the best single solve.
+ * @property {number | null} worst - The slowest finished solve.
+ * @property {number | null} mean - The mean of the finished solves.
+ * @property {number | null} deviation - The standard deviation of the finished solves.
+ * @property {Record<AverageName, StatValue>} averages - The statistics over consecutive solves.
+ */
+export interface SolveStats {
+    count: number;
+    dnf: number;
+    single: StatValue;
+    worst: number | null;
+    mean: number | null;
+    deviation: number | null;
+    averages: Record<AverageName, StatValue>;
+}
+
+/**
+ * Gets the value a solve counts for in statistics.
+ * @param {SolveRecord} record - The solve.
+ * @returns {number} The time in milliseconds, or `Infinity` for a DNF.
+ */
+export const getSolveValue = (record: SolveRecord) =>
+    record.penalty === "DNF" ? Infinity : record.time;
+
+/**
+ * Computes an average over a window of solves, leaving out the best and the worst ones.
+ * DNFs count as the worst solves, so the average is a DNF only if more of them remain than are left out.
+ *
+ * @param {number[]} values - The values of the solves (`Infinity` for a DNF).
+ * @param {number} trim - The number of best and of worst solves left out.
+ * @returns {number} The average in milliseconds, or `Infinity` for a DNF.
+ */
+export const getAverage = (values: number[], trim: number) => {
+    const counted = [...values]
+        .sort((a, b) => a - b)
+        .slice(trim, values.length - trim);
+    if (counted.length === 0 || counted.includes(Infinity)) return Infinity;
+    return counted.reduce((sum, value) => sum + value, 0) / counted.length;
+};
+
+/**
+ * Computes a statistic after each solve, over the solves up to it.
+ * @param {number[]} values - The values of the solves, oldest first (`Infinity` for a DNF).
+ * @param {AverageKind} kind - The statistic.
+ * @returns {(number | null)[]} One value per solve; null until there are enough solves.
+ */
+export const getRollingAverages = (values: number[], kind: AverageKind) =>
+    values.map((_, i) =>
+        i + 1 < kind.size
+            ? null
+            : getAverage(values.slice(i + 1 - kind.size, i + 1), kind.trim)
+    );
+
+/**
+ * Computes the statistics of a list of solves.
+ * @param {SolveRecord[]} records - The solves, oldest first.
+ * @returns {SolveStats} The statistics.
+ */
+export const getSolveStats = (records: SolveRecord[]): SolveStats => {
+    const values = records.map(getSolveValue);
+    const finished = values.filter((value) => value !== Infinity);
+    const mean =
+        finished.length > 0
+            ? finished.reduce((sum, value) => sum + value, 0) / finished.length
+            : null;
+    const averages = {} as Record<AverageName, StatValue>;
+    for (const kind of AVERAGES) {
+        const rolling = getRollingAverages(values, kind).filter(
+            (value): value is number => value !== null
+        );
+        averages[kind.name] = {
+            current: rolling.length > 0 ? rolling[rolling.length - 1] : null,
+            best: rolling.length > 0 ? Math.min(...rolling) : null,
+        };
+    }
+    return {
+        count: values.length,
+        dnf: values.length - finished.length,
+        single: {
+            current: values.length > 0 ? values[values.length - 1] : null,
+            best: values.length > 0 ? Math.min(...values) : null,
+        },
+        worst: finished.length > 0 ? Math.max(...finished) : null,
+        mean,
+        deviation:
+            mean !== null
+                ? Math.sqrt(
+                      finished.reduce(
+                          (sum, value) => sum + (value - mean) ** 2,
+                          0
+                      ) / finished.length
+                  )
+                : null,
+        averages,
+    };
+};
+
+/**
+ * Formats a statistic for display.
+ * @param {number | null} value - The value in milliseconds, `Infinity` for a DNF, or null.
+ * @returns {string} The formatted time, "DNF", or "-" when there are not enough solves.
+ */
+export const formatStat = (value: number | null) =>
+    value === null ? "-" : value === Infinity ? "DNF" : formatTime(value);
+
+/**
+ * Reads the solve history from localStorage.
+ * @returns {SolveRecord[]} Every solve, oldest first, or an empty array if none is saved or it cannot be read.
+ */
+export const loadSolves = (): SolveRecord[] => {
+    if (typeof localStorage === "undefined") return [];
+    try {
+        const saved = JSON.parse(localStorage.getItem("rubiksSolves") || "[]");
+        return Array.isArray(saved) ? saved : [];
+    } catch (error) {
+        console.error("Error parsing solve history from localStorage:", error);
+        return [];
+    }
+};
+
+/**
+ * Adds a solve to the history in localStorage.
+ * @param {SolveRecord} record - The finished solve.
+ */
+export const addSolve = (record: SolveRecord) => {
+    localStorage.setItem(
+        "rubiksSolves",
+        JSON.stringify([...loadSolves(), record])
+    );
+};
+
+/**
+ * Reads the current session from localStorage.
+ * @returns {number} The session new solves belong to, starting at 1.
+ */
+export const getSession = () => {
+    if (typeof localStorage === "undefined") return 1;
+    return Number(localStorage.getItem("rubiksSession")) || 1;
+};
+
+/**
+ * Starts a new session: solves made from now on are counted apart from the earlier ones.
+ * @returns {number} The new session.
+ */
+export const startSession = () => {
+    const session = getSession() + 1;
+    localStorage.setItem("rubiksSession", String(session));
+    return session;
+};
+
+/**
+ * Interface describing one bar of a histogram of solve times.
+ * @interface HistogramBin
+ * @property {number} from - The shortest time in the bin, in milliseconds.
+ * @property {number} to - The time the bin ends at (excluded, except for the last bin), in milliseconds.
+ * @property {number} count - The number of solves in the bin.
+ */
+export interface HistogramBin {
+    from: number;
+    to: number;
+    count: number;
+}
+
+/**
+ * Tracks a personal best over time.
+ * @param {(number | null)[]} values - The values after each solve (`Infinity` for a DNF, null for none), oldest first.
+ * @returns {(number | null)[]} The best value so far after each solve; null until the first finished one.
+ */
+export const getBestProgression = (values: (number | null)[]) => {
+    let best = Infinity;
+    return values.map((value) => {
+        if (value !== null && value < best) best = value;
+        return best === Infinity ? null : best;
+    });
+};
+
+/**
+ * Sorts the finished solves into bars of equal width, from the fastest to the slowest.
+ * @param {number[]} values - The values of the solves (`Infinity` for a DNF, which is left out).
+ * @param {number} binCount - The number of bars.
+ * @returns {HistogramBin[]} The bars, or an empty array if no solve is finished.
+ */
+export const getHistogram = (values: number[], binCount: number) => {
+    const finished = values.filter((value) => value !== Infinity);
+    if (finished.length === 0) return [];
+    const min = Math.min(...finished);
+    // When every time is the same, spread the bars over one second
+    const width = (Math.max(...finished) - min || 1000) / binCount;
+    const bins: HistogramBin[] = Array.from({ length: binCount }, (_, i) => ({
+        from: min + i * width,
+        to: min + (i + 1) * width,
+        count: 0,
+    }));
+    for (const value of finished) {
+        bins[Math.min(binCount - 1, Math.floor((value - min) / width))].count++;
+    }
+    return bins;
+};
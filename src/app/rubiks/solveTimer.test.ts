@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import SolveTimer, {
+    formatResult,
+    formatTime,
+    getInspectionPenalty,
+} from "./solveTimer";
+
+/** The timestamp returned by the mocked `performance.now`. */
+let now = 0;
+
+beforeEach(() => {
+    now = 0;
+    vi.spyOn(performance, "now").mockImplementation(() => now);
+    vi.stubGlobal(
+        "requestAnimationFrame",
+        vi.fn(() => 1)
+    );
+    vi.stubGlobal("cancelAnimationFrame", vi.fn());
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+});
+
+describe("getInspectionPenalty", () => {
+    it.each([
+        [0, "none"],
+        [15000, "none"],
+        [15001, "+2"],
+        [17000, "+2"],
+        [17001, "DNF"],
+    ])("gives a solve started after %i ms of inspection %s", (ms, penalty) => {
+        expect(getInspectionPenalty(ms)).toBe(penalty);
+    });
+});
+
+describe("SolveTimer", () => {
+    /**
+     * Times a solve after an inspection.
+     * @param {number} inspection - How long the inspection lasts, in milliseconds.
+     * @param {number} solve - How long the solve lasts, in milliseconds.
+     * @returns {SolveTimer} The stopped timer.
+     */
+    const timeSolve = (inspection: number, solve: number) => {
+        const timer = new SolveTimer();
+        timer.arm(true);
+        now += inspection;
+        timer.start();
+        now += solve;
+        timer.stop();
+        return timer;
+    };
+
+    it("has no penalty for a solve started within the inspection", () => {
+        const timer = timeSolve(15000, 12345);
+        expect(timer.penalty).toBe("none");
+        expect(timer.result).toBe(12345);
+    });
+
+    it("adds two seconds to a solve started just after the inspection", () => {
+        const timer = timeSolve(16000, 12345);
+        expect(timer.penalty).toBe("+2");
+        expect(timer.result).toBe(14345);
+        // The elapsed time is the time spent solving
+        expect(timer.elapsed()).toBe(12345);
+    });
+
+    it("is a DNF when the solve started more than two seconds late", () => {
+        expect(timeSolve(17001, 12345).penalty).toBe("DNF");
+    });
+
+    it("has no penalty without inspection", () => {
+        const timer = new SolveTimer();
+        timer.arm();
+        expect(timer.phase).toBe("ready");
+        now = 60000;
+        timer.start();
+        expect(timer.penalty).toBe("none");
+    });
+
+    it("goes through its phases and measures the time so far", () => {
+        const timer = new SolveTimer();
+        expect(timer.waiting).toBe(false);
+        timer.arm(true);
+        expect(timer.phase).toBe("inspection");
+        expect(timer.waiting).toBe(true);
+        now = 4000;
+        expect(timer.inspected()).toBe(4000);
+        expect(timer.elapsed()).toBe(0);
+        timer.start();
+        expect(timer.phase).toBe("running");
+        now = 9000;
+        expect(timer.elapsed()).toBe(5000);
+        // The solve can be stopped at an earlier timestamp, when the solving turn completed
+        expect(timer.stop(8000)).toBe(4000);
+        expect(timer.phase).toBe("stopped");
+        now = 20000;
+        expect(timer.elapsed()).toBe(4000);
+    });
+
+    it("forgets the solve when reset", () => {
+        const timer = timeSolve(16000, 5000);
+        timer.reset();
+        expect(timer.phase).toBe("idle");
+        expect(timer.penalty).toBe("none");
+        expect(timer.result).toBe(0);
+    });
+});
+
+describe("formatResult", () => {
+    it("formats times, +2 and DNF results", () => {
+        expect(formatTime(62345)).toBe("01:02.34");
+        expect(formatResult(14345, "+2")).toBe("00:14.34+");
+        expect(formatResult(14345, "DNF")).toBe("DNF");
+    });
+});
@@ -0,0 +1,214 @@
+/** Inspection time allowed before the solve starts, in milliseconds (WCA regulation A3a1). */
+export const INSPECTION_TIME = 15000;
+/** Starting the solve later than this after inspection began is a DNF instead of +2, in milliseconds. */
+export const INSPECTION_DNF_TIME = 17000;
+/** Time added to a solve that started during the two seconds after inspection, in milliseconds. */
+export const PLUS_TWO = 2000;
+
+/** Penalty of a solve under WCA rules: none, two extra seconds, or "did not finish". */
+export type Penalty = "none" | "+2" | "DNF";
+
+/**
+ * Phases of a solve: nothing to time, waiting for the first turn (with or without inspection),
+ * solving, or solved.
+ */
+export type TimerPhase =
+    | "idle"
+    | "ready"
+    | "inspection"
+    | "running"
+    | "stopped";
+
+/**
+ * Finds the penalty of a solve from how long the inspection lasted.
+ * @param {number} inspection - Time from the start of inspection to the first turn, in milliseconds.
+ * @returns {Penalty} "none" within 15 seconds, "+2" within 17 seconds, else "DNF".
+ */
+export const getInspectionPenalty = (inspection: number): Penalty =>
+    inspection <= INSPECTION_TIME
+        ? "none"
+        : inspection <= INSPECTION_DNF_TIME
+        ? "+2"
+        : "DNF";
+
+/**
+ * Formats a time as minutes, seconds and centiseconds (e.g. "01:02.34").
+ * Centiseconds are truncated, as on a stackmat timer.
+ * @param {number} ms - The time in milliseconds.
+ * @returns {string} The formatted time.
+ */
+export const formatTime = (ms: number) => {
+    const centis = Math.floor(Math.max(0, ms) / 10);
+    const mins = Math.floor(centis / 6000);
+    const secs = Math.floor(centis / 100) % 60;
+    return (
+        `${String(mins).padStart(2, "0")}:${String(secs).padStart(2, "0")}` +
+        `.${String(centis % 100).padStart(2, "0")}`
+    );
+};
+
+/**
+ * Formats the result of a solve: its time with a "+" mark for a +2, or "DNF".
+ * @param {number} ms - The time of the solve in milliseconds, including a +2 penalty.
+ * @param {Penalty} [penalty="none"] - The penalty of the solve.
+ * @returns {string} The formatted result.
+ */
+export const formatResult = (ms: number, penalty: Penalty = "none") =>
+    penalty === "DNF" ? "DNF" : formatTime(ms) + (penalty === "+2" ? "+" : "");
+
+/**
+ * Times a solve with `performance.now()`, with an optional WCA-style inspection before it.
+ * Timestamps can be passed in, so the solve can be stopped at the exact frame the solving turn completed.
+ * While inspecting or solving, `onTick` is called on every animation frame to update a display.
+ */
+class SolveTimer {
+    /** The current phase of the solve. */
+    private _phase: TimerPhase = "idle";
+    /** Timestamp at which the inspection started. */
+    private inspectionStart = 0;
+    /** Timestamp at which the solve started. */
+    private startTime = 0;
+    /** Time of the stopped solve without its penalty, in milliseconds. */
+    private finalTime = 0;
+    /** Penalty earned during inspection. */
+    private _penalty: Penalty = "none";
+    /** ID returned by requestAnimationFrame for the display loop. */
+    private frameId: number | null = null;
+    /** Optional callback executed on every animation frame while inspecting or solving. */
+    public onTick?: (timer: SolveTimer) => void;
+
+    /**
+     * Creates a SolveTimer.
+     */
+    public constructor() {
+        this.tick = this.tick.bind(this);
+    }
+
+    /**
+     * Gets the current phase of the solve.
+     * @returns {TimerPhase} The phase.
+     */
+    public get phase() {
+        return this._phase;
+    }
+
+    /**
+     * Checks whether the timer is waiting for the first turn of a solve.
+     * @returns {boolean} True while ready or inspecting.
+     */
+    public get waiting() {
+        return this._phase === "ready" || this._phase === "inspection";
+    }
+
+    /**
+     * Gets the penalty of the solve, known once it has started.
+     * @returns {Penalty} The penalty.
+     */
+    public get penalty() {
+        return this._penalty;
+    }
+
+    /**
+     * Gets the time of the stopped solve, including a +2 penalty.
+     * @returns {number} The time in milliseconds.
+     */
+    public get result() {
+        return this.finalTime + (this._penalty === "+2" ? PLUS_TWO : 0);
+    }
+
+    /**
+     * Waits for the first turn of a solve, optionally with an inspection countdown.
+     * @param {boolean} [inspection=false] - Whether to start a 15-second inspection.
+     * @param {number} [now=performance.now()] - The timestamp at which the inspection starts.
+     */
+    public arm(inspection = false, now = performance.now()) {
+        this._phase = inspection ? "inspection" : "ready";
+        this.inspectionStart = now;
+        this._penalty = "none";
+        this.finalTime = 0;
+        if (inspection) this.startLoop();
+    }
+
+    /**
+     * Starts the solve, settling the inspection penalty.
+     * @param {number} [now=performance.now()] - The timestamp of the first turn.
+     */
+    public start(now = performance.now()) {
+        if (this._phase === "inspection") {
+            this._penalty = getInspectionPenalty(now - this.inspectionStart);
+        }
+        this._phase = "running";
+        this.startTime = now;
+        this.startLoop();
+    }
+
+    /**
+     * Stops the solve.
+     * @param {number} [now=performance.now()] - The timestamp at which the solving turn completed.
+     * @returns {number} The time of the solve in milliseconds, including a +2 penalty.
+     */
+    public stop(now = performance.now()) {
+        if (this._phase === "running") this.finalTime = now - this.startTime;
+        this._phase = "stopped";
+        this.stopLoop();
+        return this.result;
+    }
+
+    /**
+     * Stops timing without a result, e.g. when the cube is reset.
+     */
+    public reset() {
+        this._phase = "idle";
+        this._penalty = "none";
+        this.finalTime = 0;
+        this.stopLoop();
+    }
+
+    /**
+     * Gets the time spent solving so far, or the time of the stopped solve, without penalty.
+     * @param {number} [now=performance.now()] - The current timestamp.
+     * @returns {number} The time in milliseconds; 0 before the solve starts.
+     */
+    public elapsed(now = performance.now()) {
+        if (this._phase === "running") return now - this.startTime;
+        return this._phase === "stopped" ? this.finalTime : 0;
+    }
+
+    /**
+     * Gets the time spent inspecting so far.
+     * @param {number} [now=performance.now()] - The current timestamp.
+     * @returns {number} The time in milliseconds; 0 when not inspecting.
+     */
+    public inspected(now = performance.now()) {
+        return this._phase === "inspection" ? now - this.inspectionStart : 0;
+    }
+
+    /**
+     * Calls `onTick` once per animation frame while inspecting or solving.
+     */
+    private tick() {
+        this.frameId = null;
+        if (this._phase !== "inspection" && this._phase !== "running") return;
+        if (this.onTick) this.onTick(this);
+        this.frameId = requestAnimationFrame(this.tick);
+    }
+
+    /**
+     * Starts the display loop if it is not running.
+     */
+    private startLoop() {
+        if (this.frameId === null) {
+            this.frameId = requestAnimationFrame(this.tick);
+        }
+    }
+
+    /**
+     * Stops the display loop.
+     */
+    private stopLoop() {
+        if (this.frameId !== null) cancelAnimationFrame(this.frameId);
+        this.frameId = null;
+    }
+}
+
+export default SolveTimer;
@@ -0,0 +1,55 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import CubeModel from "./cubeModel";
+import { applyAlgorithmToModel } from "./notation";
+import { createRandom } from "./random";
+import { generateScrambleMoves } from "./scramble";
+import { prepareSolver, solveModel } from "./solver";
+
+/** Search limits that keep each solve short; any solution is checked. */
+const OPTIONS = { maxLength: 30, timeout: 50 };
+
+describe("solveModel", () => {
+    beforeAll(() => {
+        // Generating the tables takes a while, once
+        prepareSolver();
+    }, 60000);
+
+    it.each(["a", "b", "c", "d", "e"])(
+        "solves the scramble of seed %j",
+        (seed) => {
+            const model = new CubeModel(3);
+            applyAlgorithmToModel(
+                model,
+                generateScrambleMoves(3, undefined, createRandom(seed))
+            );
+            expect(model.isSolved()).toBe(false);
+            const solution = solveModel(model, OPTIONS);
+            // The model given to the solver is left untouched
+            expect(model.isSolved()).toBe(false);
+            applyAlgorithmToModel(model, solution);
+            expect(model.isSolved()).toBe(true);
+        }
+    );
+
+    it("solves a scrambled cube held in another orientation", () => {
+        const model = new CubeModel(3);
+        applyAlgorithmToModel(model, "x y' R U2 F' D L2 B");
+        applyAlgorithmToModel(model, solveModel(model, OPTIONS));
+        expect(model.isSolved()).toBe(true);
+    });
+
+    it("returns no moves for a solved cube", () => {
+        expect(solveModel(new CubeModel(3))).toEqual([]);
+    });
+
+    it("rejects other puzzles and unreachable states", () => {
+        expect(() => solveModel(new CubeModel(4))).toThrow(/3x3x3/);
+        const model = new CubeModel(3);
+        // Swap the positions of two edges, an odd permutation on its own
+        const [a, b] = model.cubies.filter(
+            (cubie) => cubie.pos.filter((v) => v !== 0).length === 2
+        );
+        [a.pos, b.pos] = [b.pos, a.pos];
+        expect(() => solveModel(model)).toThrow(/cannot be solved/);
+    });
+});
@@ -0,0 +1,620 @@
+/**
+ * Two-phase (Kociemba-style) solver for the 3x3x3 cube.
+ *
+ * Phase 1 brings the cube into the subgroup <U, D, R2, L2, F2, B2> (all corners and edges oriented,
+ * the four middle-layer edges in the middle layer); phase 2 solves it using only those moves.
+ * Move and pruning tables are generated locally the first time a cube is solved (about a second),
+ * then cached for the rest of the session. No network access is needed.
+ */
+import CubeModel, { applyMat3, Vec3 } from "./cubeModel";
+import {
+    applyAlgorithmToModel,
+    getCenteringRotations,
+    Move,
+    MoveFamily,
+} from "./notation";
+
+/**
+ * Cubie-level description of a 3x3x3 state, following Kociemba's conventions.
+ * Each array is indexed by position; `cp`/`ep` hold the index of the piece sitting there,
+ * `co`/`eo` its twist (0..2) or flip (0..1).
+ */
+interface CubieState {
+    cp: number[];
+    co: number[];
+    ep: number[];
+    eo: number[];
+}
+
+/** Faces in the order used by the move indices: move = face * 3 + (quarter turns - 1). */
+const FACES: MoveFamily[] = ["U", "R", "F", "D", "L", "B"];
+/** Number of moves in the full move set (6 faces x 3 amounts). */
+const N_MOVES = 18;
+/** Moves allowed in phase 2: U, U2, U', D, D2, D' and the half turns of R, F, L, B. */
+const PHASE2_MOVES = [0, 1, 2, 4, 7, 9, 10, 11, 13, 16];
+
+/** Corner positions URF, UFL, ULB, UBR, DFR, DLF, DBL, DRB as unit coordinates (X right, Y up, Z front). */
+const CORNERS: Vec3[] = [
+    [1, 1, 1],
+    [-1, 1, 1],
+    [-1, 1, -1],
+    [1, 1, -1],
+    [1, -1, 1],
+    [-1, -1, 1],
+    [-1, -1, -1],
+    [1, -1, -1],
+];
+/** Edge positions UR, UF, UL, UB, DR, DF, DL, DB, FR, FL, BL, BR; the last four form the middle (slice) layer. */
+const EDGES: Vec3[] = [
+    [1, 1, 0],
+    [0, 1, 1],
+    [-1, 1, 0],
+    [0, 1, -1],
+    [1, -1, 0],
+    [0, -1, 1],
+    [-1, -1, 0],
+    [0, -1, -1],
+    [1, 0, 1],
+    [-1, 0, 1],
+    [-1, 0, -1],
+    [1, 0, -1],
+];
+
+const N_TWIST = 2187; // 3^7 corner orientations
+const N_FLIP = 2048; // 2^11 edge orientations
+const N_SLICE = 495; // C(12, 4) placements of the slice edges
+const N_PERM8 = 40320; // 8! corner or U/D edge permutations
+const N_PERM4 = 24; // 4! slice edge permutations
+
+/** Compares two integer vectors. */
+const sameVec = (a: Vec3, b: Vec3) =>
+    a[0] === b[0] && a[1] === b[1] && a[2] === b[2];
+
+/** Determinant of three row vectors, used to find the clockwise order of a corner's faces. */
+const det3 = (a: Vec3, b: Vec3, c: Vec3) =>
+    a[0] * (b[1] * c[2] - b[2] * c[1]) -
+    a[1] * (b[0] * c[2] - b[2] * c[0]) +
+    a[2] * (b[0] * c[1] - b[1] * c[0]);
+
+/**
+ * The three face normals of each corner position, starting with the U/D face and continuing clockwise.
+ * A corner's twist is the index of the face its U/D sticker currently lies on.
+ */
+const CORNER_FACES: Vec3[][] = CORNERS.map(([x, y, z]) => {
+    const ud: Vec3 = [0, y, 0];
+    const a: Vec3 = [x, 0, 0];
+    const b: Vec3 = [0, 0, z];
+    // Clockwise (seen from outside) when the determinant is negative
+    return det3(ud, a, b) < 0 ? [ud, a, b] : [ud, b, a];
+});
+
+/**
+ * The reference face of a piece or position for edge orientation: U/D if it has one, otherwise F/B.
+ * @param {Vec3} pos - Unit coordinates of the edge.
+ * @returns {Vec3} The reference face normal.
+ */
+const edgeReference = (pos: Vec3): Vec3 =>
+    pos[1] !== 0 ? [0, pos[1], 0] : [0, 0, pos[2]];
+
+/**
+ * Reads the cubie-level state out of a 3x3x3 model.
+ * The model must have its centers in their home positions.
+ *
+ * @param {CubeModel} model - The model.
+ * @returns {CubieState} The cubie-level state.
+ */
+const toCubieState = (model: CubeModel): CubieState => {
+    const state: CubieState = { cp: [], co: [], ep: [], eo: [] };
+    // Convert doubled coordinates to unit coordinates
+    const unit = (v: Vec3) => v.map((c) => Math.sign(c)) as Vec3;
+
+    model.cubies.forEach((cubie) => {
+        const pos = unit(cubie.pos);
+        const home = unit(cubie.home);
+        const zeros = pos.filter((c) => c === 0).length;
+
+        if (zeros === 0) {
+            // Corner: find where its U/D sticker now faces
+            const i = CORNERS.findIndex((c) => sameVec(c, pos));
+            const udSticker = applyMat3(cubie.rot, [0, home[1], 0]);
+            state.cp[i] = CORNERS.findIndex((c) => sameVec(c, home));
+            state.co[i] = CORNER_FACES[i].findIndex((f) =>
+                sameVec(f, udSticker)
+            );
+        } else if (zeros === 1) {
+            // Edge: flipped if its reference sticker is off the position's reference face
+            const i = EDGES.findIndex((e) => sameVec(e, pos));
+            const refSticker = applyMat3(cubie.rot, edgeReference(home));
+            state.ep[i] = EDGES.findIndex((e) => sameVec(e, home));
+            state.eo[i] = sameVec(refSticker, edgeReference(pos)) ? 0 : 1;
+        }
+    });
+    return state;
+};
+
+/**
+ * Applies a move to a cubie state (`state * move`).
+ * @param {CubieState} state - The state to start from.
+ * @param {CubieState} move - The move, as the state it produces from solved.
+ * @returns {CubieState} The resulting state.
+ */
+const multiply = (state: CubieState, move: CubieState): CubieState => ({
+    cp: move.cp.map((p) => state.cp[p]),
+    co: move.cp.map((p, i) => (state.co[p] + move.co[i]) % 3),
+    ep: move.ep.map((p) => state.ep[p]),
+    eo: move.ep.map((p, i) => (state.eo[p] + move.eo[i]) % 2),
+});
+
+/** Builds the move for an index (face * 3 + quarter turns - 1). */
+const toMove = (m: number): Move => ({
+    family: FACES[Math.floor(m / 3)],
+    depth: 1,
+    wide: false,
+    amount: [1, 2, -1][m % 3],
+});
+
+/** Binomial coefficient C(n, k). */
+const choose = (n: number, k: number) => {
+    if (k < 0 || k > n) return 0;
+    let result = 1;
+    for (let i = 0; i < k; i++) result = (result * (n - i)) / (i + 1);
+    return result;
+};
+
+/** Ranks a permutation of 0..n-1 (Lehmer code). */
+const permToIndex = (perm: number[]) => {
+    let index = 0;
+    for (let i = 0; i < perm.length; i++) {
+        let smaller = 0;
+        for (let j = i + 1; j < perm.length; j++) {
+            if (perm[j] < perm[i]) smaller++;
+        }
+        index = index * (perm.length - i) + smaller;
+    }
+    return index;
+};
+
+/** Inverse of `permToIndex`. */
+const indexToPerm = (index: number, n: number) => {
+    const digits: number[] = [];
+    for (let i = 1; i <= n; i++) {
+        digits.unshift(index % i);
+        index = Math.floor(index / i);
+    }
+    const remaining = Array.from({ length: n }, (_, i) => i);
+    return digits.map((d) => remaining.splice(d, 1)[0]);
+};
+
+/** Corner orientation coordinate (base 3, the last corner is implied). */
+const getTwist = (co: number[]) =>
+    co.slice(0, 7).reduce((acc, v) => acc * 3 + v, 0);
+/** Edge orientation coordinate (base 2, the last edge is implied). */
+const getFlip = (eo: number[]) =>
+    eo.slice(0, 11).reduce((acc, v) => acc * 2 + v, 0);
+/** Slice coordinate: where the four middle-layer edges are, 0 when they are home. */
+const getSlice = (ep: number[]) => {
+    let index = 0;
+    let found = 0;
+    for (let j = 11; j >= 0; j--) {
+        if (ep[j] >= 8) {
+            index += choose(11 - j, found + 1);
+            found++;
+        }
+    }
+    return index;
+};
+
+/**
+ * All lookup tables used by the search.
+ * Move tables map `coord * 18 + move` to the new coordinate; pruning tables hold a lower
+ * bound on the number of moves needed to bring a pair of coordinates home.
+ */
+interface Tables {
+    moves: CubieState[];
+    twistMove: Uint16Array;
+    flipMove: Uint16Array;
+    sliceMove: Uint16Array;
+    cpermMove: Uint16Array;
+    epermMove: Uint16Array;
+    spermMove: Uint16Array;
+    twistSlicePrune: Int8Array;
+    flipSlicePrune: Int8Array;
+    cpermSpermPrune: Int8Array;
+    epermSpermPrune: Int8Array;
+}
+
+/** Cached tables, generated on first use. */
+let tables: Tables | null = null;
+
+/**
+ * Builds a move table by decoding each coordinate into a representative state,
+ * applying every allowed move and encoding the result.
+ */
+const buildMoveTable = (
+    size: number,
+    decode: (coord: number) => CubieState,
+    encode: (state: CubieState) => number,
+    moves: CubieState[],
+    allowed: number[]
+) => {
+    const table = new Uint16Array(size * N_MOVES);
+    for (let coord = 0; coord < size; coord++) {
+        const state = decode(coord);
+        allowed.forEach((m) => {
+            table[coord * N_MOVES + m] = encode(multiply(state, moves[m]));
+        });
+    }
+    return table;
+};
+
+/**
+ * Builds a pruning table over two coordinates with a breadth-first search from the solved state.
+ */
+const buildPruneTable = (
+    sizeA: number,
+    sizeB: number,
+    moveA: Uint16Array,
+    moveB: Uint16Array,
+    allowed: number[]
+) => {
+    const table = new Int8Array(sizeA * sizeB).fill(-1);
+    const queue = new Uint32Array(sizeA * sizeB);
+    let head = 0;
+    let tail = 0;
+    table[0] = 0;
+    queue[tail++] = 0;
+    while (head < tail) {
+        const index = queue[head++];
+        const a = Math.floor(index / sizeB);
+        const b = index % sizeB;
+        for (let i = 0; i < allowed.length; i++) {
+            const m = allowed[i];
+            const next =
+                moveA[a * N_MOVES + m] * sizeB + moveB[b * N_MOVES + m];
+            if (table[next] === -1) {
+                table[next] = table[index] + 1;
+                queue[tail++] = next;
+            }
+        }
+    }
+    return table;
+};
+
+/**
+ * Generates (or returns the cached) move and pruning tables.
+ * @returns {Tables} The tables.
+ */
+const getTables = (): Tables => {
+    if (tables) return tables;
+
+    // Read the cubie-level effect of each move off the headless model, so the
+    // conventions can never drift from the rest of the app
+    const moves = Array.from({ length: N_MOVES }, (_, m) => {
+        const model = new CubeModel(3);
+        applyAlgorithmToModel(model, [toMove(m)]);
+        return toCubieState(model);
+    });
+    const all = Array.from({ length: N_MOVES }, (_, m) => m);
+    const identity = (n: number) => Array.from({ length: n }, (_, i) => i);
+    const solved = (): CubieState => ({
+        cp: identity(8),
+        co: new Array(8).fill(0),
+        ep: identity(12),
+        eo: new Array(12).fill(0),
+    });
+
+    // Representative states for every slice coordinate
+    const sliceStates: CubieState[] = [];
+    for (let a = 0; a < 12; a++)
+        for (let b = a + 1; b < 12; b++)
+            for (let c = b + 1; c < 12; c++)
+                for (let d = c + 1; d < 12; d++) {
+                    const state = solved();
+                    const slots = [a, b, c, d];
+                    let other = 0;
+                    let slice = 8;
+                    state.ep = identity(12).map((j) =>
+                        slots.includes(j) ? slice++ : other++
+                    );
+                    sliceStates[getSlice(state.ep)] = state;
+                }
+
+    const twistMove = buildMoveTable(
+        N_TWIST,
+        (coord) => {
+            const state = solved();
+            for (let i = 6; i >= 0; i--) {
+                state.co[i] = coord % 3;
+                coord = Math.floor(coord / 3);
+            }
+            state.co[7] =
+                (3 - (state.co.slice(0, 7).reduce((s, v) => s + v, 0) % 3)) % 3;
+            return state;
+        },
+        (state) => getTwist(state.co),
+        moves,
+        all
+    );
+    const flipMove = buildMoveTable(
+        N_FLIP,
+        (coord) => {
+            const state = solved();
+            for (let i = 10; i >= 0; i--) {
+                state.eo[i] = coord % 2;
+                coord = Math.floor(coord / 2);
+            }
+            state.eo[11] = state.eo.slice(0, 11).reduce((s, v) => s + v, 0) % 2;
+            return state;
+        },
+        (state) => getFlip(state.eo),
+        moves,
+        all
+    );
+    const sliceMove = buildMoveTable(
+        N_SLICE,
+        (coord) => sliceStates[coord],
+        (state) => getSlice(state.ep),
+        moves,
+        all
+    );
+    const cpermMove = buildMoveTable(
+        N_PERM8,
+        (coord) => ({ ...solved(), cp: indexToPerm(coord, 8) }),
+        (state) => permToIndex(state.cp),
+        moves,
+        all
+    );
+    const epermMove = buildMoveTable(
+        N_PERM8,
+        (coord) => ({
+            ...solved(),
+            ep: [...indexToPerm(coord, 8), 8, 9, 10, 11],
+        }),
+        (state) => permToIndex(state.ep.slice(0, 8)),
+        moves,
+        PHASE2_MOVES
+    );
+    const spermMove = buildMoveTable(
+        N_PERM4,
+        (coord) => ({
+            ...solved(),
+            ep: [...identity(8), ...indexToPerm(coord, 4).map((p) => p + 8)],
+        }),
+        (state) => permToIndex(state.ep.slice(8).map((p) => p - 8)),
+        moves,
+        PHASE2_MOVES
+    );
+
+    tables = {
+        moves,
+        twistMove,
+        flipMove,
+        sliceMove,
+        cpermMove,
+        epermMove,
+        spermMove,
+        twistSlicePrune: buildPruneTable(
+            N_TWIST,
+            N_SLICE,
+            twistMove,
+            sliceMove,
+            all
+        ),
+        flipSlicePrune: buildPruneTable(
+            N_FLIP,
+            N_SLICE,
+            flipMove,
+            sliceMove,
+            all
+        ),
+        cpermSpermPrune: buildPruneTable(
+            N_PERM8,
+            N_PERM4,
+            cpermMove,
+            spermMove,
+            PHASE2_MOVES
+        ),
+        epermSpermPrune: buildPruneTable(
+            N_PERM8,
+            N_PERM4,
+            epermMove,
+            spermMove,
+            PHASE2_MOVES
+        ),
+    };
+    return tables;
+};
+
+/**
+ * Checks whether consecutive moves are redundant: the same face twice, or opposite faces
+ * in the non-canonical order (e.g. D then U, which is the same as U then D).
+ */
+const isRedundant = (move: number, last: number) => {
+    if (last < 0) return false;
+    const face = Math.floor(move / 3);
+    const lastFace = Math.floor(last / 3);
+    return face === lastFace || face === lastFace - 3;
+};
+
+/**
+ * Counts the parity (0 = even, 1 = odd) of a permutation.
+ */
+const parity = (perm: number[]) => {
+    let p = 0;
+    for (let i = 0; i < perm.length; i++)
+        for (let j = i + 1; j < perm.length; j++) if (perm[j] < perm[i]) p++;
+    return p % 2;
+};
+
+/**
+ * Options for `solveModel`.
+ * @interface SolveOptions
+ * @property {number} [maxLength=22] - Stop as soon as a solution this short is found.
+ * @property {number} [timeout=1000] - Milliseconds to keep searching for a shorter solution once one is found.
+ */
+export interface SolveOptions {
+    maxLength?: number;
+    timeout?: number;
+}
+
+/**
+ * Pre-generates the solver tables, e.g. while the page is idle, so the first solve is fast.
+ */
+export const prepareSolver = () => {
+    getTables();
+};
+
+/**
+ * Finds a sequence of moves that solves a 3x3x3 cube model.
+ * If the model's centers are not in their home positions (after whole-cube rotations),
+ * the solution starts with the rotations that bring them back.
+ *
+ * @param {CubeModel} model - The model to solve. It is not modified.
+ * @param {SolveOptions} [options] - Search limits.
+ * @returns {Move[]} The solution moves, empty if the cube is already solved.
+ * @throws {Error} If the model is not a 3x3x3 or its state cannot be reached by legal turns.
+ */
+export const solveModel = (
+    model: CubeModel,
+    options: SolveOptions = {}
+): Move[] => {
+    if (model.order !== 3 || !model.isCube) {
+        throw new Error("The solver only supports 3x3x3 cubes");
+    }
+    const { maxLength = 22, timeout = 1000 } = options;
+
+    // Bring the centers home with whole-cube rotations, if needed
+    const work = model.clone();
+    const rotations = getCenteringRotations(work);
+    applyAlgorithmToModel(work, rotations);
+
+    const start = toCubieState(work);
+    // Reject states that cannot be reached by legal turns
+    if (
+        start.co.reduce((s, v) => s + v, 0) % 3 !== 0 ||
+        start.eo.reduce((s, v) => s + v, 0) % 2 !== 0 ||
+        parity(start.cp) !== parity(start.ep)
+    ) {
+        throw new Error("This cube state cannot be solved by legal turns");
+    }
+    if (work.isSolved()) return rotations;
+
+    const t = getTables();
+    const twist = getTwist(start.co);
+    const flip = getFlip(start.eo);
+    const slice = getSlice(start.ep);
+
+    let best: number[] | null = null;
+    const deadline = { time: Infinity };
+    const path: number[] = [];
+    let done = false;
+
+    // Phase 2: solve within <U, D, R2, L2, F2, B2> using at most `depth` moves
+    const search2 = (
+        cperm: number,
+        eperm: number,
+        sperm: number,
+        depth: number,
+        last: number
+    ): boolean => {
+        if (cperm === 0 && eperm === 0 && sperm === 0) return true;
+        if (depth === 0) return false;
+        for (let i = 0; i < PHASE2_MOVES.length; i++) {
+            const m = PHASE2_MOVES[i];
+            if (isRedundant(m, last)) continue;
+            const c = t.cpermMove[cperm * N_MOVES + m];
+            const e = t.epermMove[eperm * N_MOVES + m];
+            const s = t.spermMove[sperm * N_MOVES + m];
+            const bound = Math.max(
+                t.cpermSpermPrune[c * N_PERM4 + s],
+                t.epermSpermPrune[e * N_PERM4 + s]
+            );
+            if (bound >= depth) continue;
+            path.push(m);
+            if (search2(c, e, s, depth - 1, m)) return true;
+            path.pop();
+        }
+        return false;
+    };
+
+    // Starts phase 2 from the end of a phase 1 solution
+    const startPhase2 = () => {
+        const limit = Math.min(
+            18,
+            (best ? best.length - 1 : maxLength + 8) - path.length
+        );
+        if (limit < 0) return;
+        const phase1Length = path.length;
+        const state = path.reduce((s, m) => multiply(s, t.moves[m]), start);
+        const cperm = permToIndex(state.cp);
+        const eperm = permToIndex(state.ep.slice(0, 8));
+        const sperm = permToIndex(state.ep.slice(8).map((p) => p - 8));
+        const last = phase1Length > 0 ? path[phase1Length - 1] : -1;
+        // Iterative deepening: the first success is the shortest phase 2 for this phase 1
+        for (let depth = 0; depth <= limit; depth++) {
+            if (search2(cperm, eperm, sperm, depth, last)) {
+                best = path.slice();
+                path.length = phase1Length;
+                if (best.length <= maxLength) done = true;
+                // Once a solution exists, keep improving only until the deadline
+                if (deadline.time === Infinity) {
+                    deadline.time = Date.now() + timeout;
+                }
+                return;
+            }
+        }
+        path.length = phase1Length;
+    };
+
+    // Phase 1: reach the subgroup (oriented pieces, slice edges in the slice)
+    const search1 = (
+        tw: number,
+        fl: number,
+        sl: number,
+        depth: number,
+        last: number
+    ) => {
+        if (done || Date.now() > deadline.time) {
+            done = true;
+            return;
+        }
+        if (depth === 0) {
+            // A phase 1 ending in a phase 2 move was already covered by a shorter one
+            if (
+                tw === 0 &&
+                fl === 0 &&
+                sl === 0 &&
+                (last < 0 || !PHASE2_MOVES.includes(last))
+            ) {
+                startPhase2();
+            }
+            return;
+        }
+        for (let m = 0; m < N_MOVES; m++) {
+            if (isRedundant(m, last)) continue;
+            const nt = t.twistMove[tw * N_MOVES + m];
+            const nf = t.flipMove[fl * N_MOVES + m];
+            const ns = t.sliceMove[sl * N_MOVES + m];
+            const bound = Math.max(
+                t.twistSlicePrune[nt * N_SLICE + ns],
+                t.flipSlicePrune[nf * N_SLICE + ns]
+            );
+            if (bound >= depth) continue;
+            path.push(m);
+            search1(nt, nf, ns, depth - 1, m);
+            path.pop();
+            if (done) return;
+        }
+    };
+
+    for (let depth = 0; depth <= 12 && !done; depth++) {
+        // Stop deepening once phase 1 alone would exceed the best solution found
+        if (best && depth >= (best as number[]).length) break;
+        search1(twist, flip, slice, depth, -1);
+    }
+
+    if (!best) {
+        throw new Error("No solution found");
+    }
+    return [...rotations, ...(best as number[]).map(toMove)];
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it } from "vitest";
+import CubeModel from "./cubeModel";
+import { applyAlgorithmToModel } from "./notation";
+import SplitTracker, { getPhaseAverages, getPhaseDurations } from "./splits";
+
+/** Sune: twists three last-layer corners, keeping the first two layers. */
+const SUNE = "R U R' U R U2 R'";
+/** T permutation: swaps last-layer pieces, keeping every piece oriented. */
+const T_PERM = "R U R' U' R' F R2 U' R' U' R U R' F'";
+
+/**
+ * Records the splits of a cube state reached from solved.
+ * @param {string} algorithm - The moves leading to the state.
+ * @param {number | [number, number, number]} [size=3] - The size of the puzzle.
+ * @returns {PhaseSplits} The splits, all at time 1000.
+ */
+const splitsOf = (
+    algorithm: string,
+    size: number | [number, number, number] = 3
+) => {
+    const model = new CubeModel(size);
+    applyAlgorithmToModel(model, algorithm);
+    const tracker = new SplitTracker();
+    tracker.update(model, 1000);
+    return tracker.splits;
+};
+
+describe("SplitTracker", () => {
+    it("completes every phase on a solved cube", () => {
+        expect(splitsOf("")).toEqual({
+            cross: 1000,
+            pairs: [1000, 1000, 1000, 1000],
+            f2l: 1000,
+            oll: 1000,
+            pll: 1000,
+        });
+    });
+
+    it("stops at the cross when a pair is out", () => {
+        // The front right pair leaves its slot; the other three stay
+        expect(splitsOf("R U R' U'")).toEqual({
+            cross: 1000,
+            pairs: [1000, 1000, 1000],
+        });
+    });
+
+    it("stops at F2L when the last layer is not oriented", () => {
+        expect(splitsOf(SUNE)).toEqual({
+            cross: 1000,
+            pairs: [1000, 1000, 1000, 1000],
+            f2l: 1000,
+        });
+    });
+
+    it("stops at OLL when the last layer is oriented but not permuted", () => {
+        expect(splitsOf(T_PERM)).toMatchObject({ oll: 1000 });
+        expect(splitsOf(T_PERM).pll).toBeUndefined();
+    });
+
+    it("finds the cross on any face", () => {
+        // A Sune on the left face, with the cross on the right face
+        expect(splitsOf(`z ${SUNE} z'`)).toMatchObject({ f2l: 1000 });
+        // A T permutation on the front face, with the cross on the back face
+        expect(splitsOf(`x ${T_PERM} x'`)).toMatchObject({ oll: 1000 });
+        expect(splitsOf(`x ${T_PERM} x'`).pll).toBeUndefined();
+    });
+
+    it("ignores the whole-cube orientation", () => {
+        expect(splitsOf(`y x2 ${SUNE}`)).toMatchObject({ f2l: 1000 });
+    });
+
+    it("has no cross when every cross is broken", () => {
+        expect(splitsOf("R L U D F B")).toEqual({});
+    });
+
+    it("keeps each split from the first time it is reached", () => {
+        const model = new CubeModel(3);
+        const tracker = new SplitTracker();
+        applyAlgorithmToModel(model, "R U R' U'");
+        tracker.update(model, 1000);
+        // Breaking another pair keeps the time of the pairs already inserted
+        applyAlgorithmToModel(model, "L' U' L U");
+        tracker.update(model, 2000);
+        applyAlgorithmToModel(model, "U' L' U L U R U' R'");
+        tracker.update(model, 3000);
+        expect(tracker.splits).toEqual({
+            cross: 1000,
+            pairs: [1000, 1000, 1000, 3000],
+            f2l: 3000,
+            oll: 3000,
+            pll: 3000,
+        });
+        tracker.reset();
+        expect(tracker.splits).toEqual({});
+    });
+
+    it("only splits 3x3x3 cubes", () => {
+        expect(splitsOf("", 4)).toEqual({});
+        expect(splitsOf("", [3, 3, 2])).toEqual({});
+    });
+});
+
+describe("getPhaseDurations", () => {
+    it("measures each phase from the end of the one before", () => {
+        expect(
+            getPhaseDurations({ cross: 1000, f2l: 3000, oll: 4000, pll: 6000 })
+        ).toEqual({ cross: 1000, f2l: 2000, oll: 1000, pll: 2000 });
+    });
+
+    it("leaves out phases whose start is unknown", () => {
+        expect(getPhaseDurations({ cross: 1000, pll: 6000 })).toEqual({
+            cross: 1000,
+        });
+    });
+});
+
+describe("getPhaseAverages", () => {
+    it("averages each phase over the solves that have it", () => {
+        expect(
+            getPhaseAverages([
+                { cross: 1000, f2l: 3000, oll: 4000, pll: 6000 },
+                undefined,
+                { cross: 3000, f2l: 7000 },
+            ])
+        ).toEqual({ cross: 2000, f2l: 3000, oll: 1000, pll: 2000 });
+    });
+});
@@ -0,0 +1,203 @@
+import CubeModel, {
+    Face,
+    FACE_NORMALS,
+    faceOfNormal,
+    Sticker,
+} from "./cubeModel";
+
+/**
+ * Phases of a CFOP solve, in order: the cross, the first two layers (F2L),
+ * orienting the last layer (OLL) and permuting it (PLL).
+ */
+export type SolvePhase = "cross" | "f2l" | "oll" | "pll";
+
+/** The phases of a solve, in the order they are completed. */
+export const PHASES: readonly SolvePhase[] = ["cross", "f2l", "oll", "pll"];
+
+/** Labels of the phases. */
+export const PHASE_LABELS: Record<SolvePhase, string> = {
+    cross: "Cross",
+    f2l: "F2L",
+    oll: "OLL",
+    pll: "PLL",
+};
+
+/**
+ * Interface describing when each phase of a solve was completed, in milliseconds since the solve started.
+ * Phases that were skipped get the time of the phase completed with them (e.g. an OLL skip ends with F2L).
+ * @interface PhaseSplits
+ * @property {number} [cross] - When the cross was completed.
+ * @property {number[]} [pairs] - When the first, second, third and fourth F2L pair were inserted.
+ * @property {number} [f2l] - When the first two layers were completed.
+ * @property {number} [oll] - When the last layer was oriented.
+ * @property {number} [pll] - When the cube was solved.
+ */
+export interface PhaseSplits {
+    cross?: number;
+    pairs?: number[];
+    f2l?: number;
+    oll?: number;
+    pll?: number;
+}
+
+/**
+ * Interface describing how far a solve has progressed.
+ * @interface PhaseProgress
+ * @property {number} phases - The number of phases completed, in the order of `PHASES`.
+ * @property {number} pairs - The number of F2L pairs inserted around a completed cross.
+ */
+interface PhaseProgress {
+    phases: number;
+    pairs: number;
+}
+
+/**
+ * Finds how far a 3x3x3 solve has progressed. Each face is tried as the cross face (color neutral)
+ * and the one furthest along counts. A sticker is in place when it matches the center of the face it is on.
+ *
+ * @param {CubeModel} model - The cube model.
+ * @returns {PhaseProgress} The completed phases and inserted pairs.
+ */
+const getProgress = (model: CubeModel): PhaseProgress => {
+    const stickers = model.getStickers();
+    // The color of each face is the color of its center
+    const centers: Face[] = [];
+    const byCubie = new Map<string, Sticker[]>();
+    for (const sticker of stickers) {
+        const key = sticker.pos.join(",");
+        byCubie.set(key, [...(byCubie.get(key) ?? []), sticker]);
+        if (sticker.pos.filter((v) => v !== 0).length === 1) {
+            centers[faceOfNormal(sticker.normal)] = sticker.color;
+        }
+    }
+    const fits = (sticker: Sticker) =>
+        sticker.color === centers[faceOfNormal(sticker.normal)];
+    const cubieFits = (key: string) => (byCubie.get(key) ?? []).every(fits);
+
+    const cubies = Array.from(byCubie.keys()).map((key) =>
+        key.split(",").map(Number)
+    );
+    const edges = cubies.filter(
+        (pos) => pos.filter((v) => v !== 0).length === 2
+    );
+
+    let best: PhaseProgress = { phases: 0, pairs: 0 };
+    FACE_NORMALS.forEach((normal) => {
+        const axis = normal.findIndex((v) => v !== 0);
+        // Layer of a cubie counted from the cross face: 1 (cross layer), 0 (middle) or -1 (last layer)
+        const layer = (pos: number[]) => (pos[axis] * normal[axis]) / 2;
+        const cross = edges
+            .filter((pos) => layer(pos) === 1)
+            .every((pos) => cubieFits(pos.join(",")));
+        if (!cross) return;
+
+        // A pair is a corner of the cross layer with the middle edge above (or below) it
+        const pairs = cubies
+            .filter(
+                (pos) =>
+                    pos.every((v) => v !== 0) &&
+                    layer(pos) === 1 &&
+                    cubieFits(pos.join(","))
+            )
+            .filter((pos) =>
+                cubieFits(pos.map((v, i) => (i === axis ? 0 : v)).join(","))
+            ).length;
+        const lastLayer = stickers
+            .filter((sticker) => sticker.normal[axis] === -normal[axis])
+            .every(fits);
+        const phases =
+            pairs < 4 ? 1 : !lastLayer ? 2 : !model.isSolved() ? 3 : 4;
+        if (
+            phases > best.phases ||
+            (phases === best.phases && pairs > best.pairs)
+        ) {
+            best = { phases, pairs };
+        }
+    });
+    return best;
+};
+
+/**
+ * Records the phase splits of a timed 3x3x3 solve from the cube state after each turn.
+ * Each split is kept from the first time it is reached, even if the phase is broken up again later.
+ */
+class SplitTracker {
+    /** The splits recorded so far. */
+    private _splits: PhaseSplits = {};
+
+    /**
+     * Gets the splits recorded so far.
+     * @returns {PhaseSplits} The splits, in milliseconds since the solve started.
+     */
+    public get splits() {
+        return this._splits;
+    }
+
+    /**
+     * Forgets the splits, before a new solve.
+     */
+    public reset() {
+        this._splits = {};
+    }
+
+    /**
+     * Records the phases and pairs completed by a turn.
+     * Only 3x3x3 cubes are split; other puzzles are ignored.
+     *
+     * @param {CubeModel} model - The cube model after the turn.
+     * @param {number} time - When the turn completed, in milliseconds since the solve started.
+     */
+    public update(model: CubeModel, time: number) {
+        if (model.order !== 3 || !model.isCube) return;
+        const progress = getProgress(model);
+        const pairs = this._splits.pairs ?? [];
+        // Pairs inserted together share a time; a finished F2L has all four
+        const pairCount = progress.phases >= 2 ? 4 : progress.pairs;
+        while (pairs.length < pairCount) pairs.push(time);
+        if (pairs.length > 0) this._splits.pairs = pairs;
+        PHASES.slice(0, progress.phases).forEach((phase) => {
+            if (this._splits[phase] === undefined) this._splits[phase] = time;
+        });
+    }
+}
+
+/**
+ * Computes how long each phase of a solve took.
+ * @param {PhaseSplits} splits - The splits of the solve.
+ * @returns {Partial<Record<SolvePhase, number>>} The duration of each phase whose start and end are known, in milliseconds.
+ */
+export const getPhaseDurations = (splits: PhaseSplits) => {
+    const durations: Partial<Record<SolvePhase, number>> = {};
+    PHASES.forEach((phase, i) => {
+        const end = splits[phase];
+        const start = i === 0 ? 0 : splits[PHASES[i - 1]];
+        if (end !== undefined && start !== undefined) {
+            durations[phase] = end - start;
+        }
+    });
+    return durations;
+};
+
+/**
+ * Averages the duration of each phase over several solves.
+ * @param {(PhaseSplits | undefined)[]} splits - The splits of each solve; solves without splits are left out.
+ * @returns {Record<SolvePhase, number | null>} The mean duration of each phase in milliseconds, or null if no solve has it.
+ */
+export const getPhaseAverages = (splits: (PhaseSplits | undefined)[]) => {
+    const averages = {} as Record<SolvePhase, number | null>;
+    const durations = splits
+        .filter((split): split is PhaseSplits => split !== undefined)
+        .map(getPhaseDurations);
+    PHASES.forEach((phase) => {
+        const values = durations
+            .map((duration) => duration[phase])
+            .filter((value): value is number => value !== undefined);
+        averages[phase] =
+            values.length > 0
+                ? values.reduce((sum, value) => sum + value, 0) / values.length
+                : null;
+    });
+    return averages;
+};
+
+export default SplitTracker;
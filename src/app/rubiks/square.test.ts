@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DEFAULT_IMAGE_LAYOUT, loadImageLayout } from "./square";
+
+/** In-memory stand-in for the browser's localStorage. */
+const store = new Map<string, string>();
+
+beforeEach(() => {
+    store.clear();
+    vi.stubGlobal("localStorage", {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+        removeItem: (key: string) => store.delete(key),
+    });
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe("loadImageLayout", () => {
+    it("reads the saved image layout", () => {
+        const layout = { mode: "picture", faces: ["a.png", "", "b.png"] };
+        store.set("rubiksImageLayout", JSON.stringify(layout));
+        expect(loadImageLayout()).toEqual(layout);
+    });
+
+    it("falls back to stickers when nothing is saved", () => {
+        expect(loadImageLayout()).toEqual({ mode: "sticker" });
+    });
+
+    it.each([
+        "",
+        "null",
+        "{",
+        '"picture"',
+        '{"mode":"mosaic"}',
+        '{"mode":"picture","faces":"a.png"}',
+        '{"mode":"picture","faces":[1,2]}',
+    ])("falls back to stickers for %j", (saved) => {
+        store.set("rubiksImageLayout", saved);
+        expect(loadImageLayout()).toBe(DEFAULT_IMAGE_LAYOUT);
+    });
+});
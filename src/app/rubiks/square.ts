@@ -12,24 +12,63 @@ import {
 } from "three";
 import { CubeElement } from "./cubeData";
 
+/**
+ * How images are laid out on the cube.
+ * @typedef {object} ImageLayout
+ * @property {"sticker" | "picture"} mode - "sticker" shows the whole image on every sticker; "picture" slices
+ *           each face's image into one tile per sticker, so scrambling mixes the picture up.
+ * @property {string[]} [faces] - Picture mode only: one image per face, indexed by `Face` ("" for a plain face).
+ *           Defaults to the selected image on every face.
+ */
+export type ImageLayout = {
+    mode: "sticker" | "picture";
+    faces?: string[];
+};
+
+/** The image layout used until the user picks a picture cube. */
+export const DEFAULT_IMAGE_LAYOUT: Readonly<ImageLayout> = { mode: "sticker" };
+
+/**
+ * Reads the image layout from localStorage.
+ * @returns {ImageLayout} The saved image layout, or `DEFAULT_IMAGE_LAYOUT` if none is saved or it cannot be read.
+ */
+export const loadImageLayout = (): ImageLayout => {
+    if (typeof localStorage === "undefined") return DEFAULT_IMAGE_LAYOUT;
+    try {
+        const saved = JSON.parse(
+            localStorage.getItem("rubiksImageLayout") || "null"
+        );
+        const valid =
+            (saved?.mode === "sticker" || saved?.mode === "picture") &&
+            (saved.faces === undefined ||
+                (Array.isArray(saved.faces) &&
+                    saved.faces.every(
+                        (face: unknown) => typeof face === "string"
+                    )));
+        return valid ? saved : DEFAULT_IMAGE_LAYOUT;
+    } catch {
+        return DEFAULT_IMAGE_LAYOUT;
+    }
+};
+
+/**
+ * The part of an image shown by one sticker of a picture cube, in texture coordinates (0 to 1, origin bottom-left).
+ * @typedef {object} ImageTile
+ * @property {number} u - The left edge of the tile.
+ * @property {number} v - The bottom edge of the tile.
+ * @property {number} width - The width of the tile.
+ * @property {number} height - The height of the tile.
+ */
+export type ImageTile = { u: number; v: number; width: number; height: number };
+
 // Initialize a texture loader for loading images onto squares.
 const textureLoader = new TextureLoader();
 
 /**
- * Creates a single square mesh for the Rubik's Cube.
- * This includes the colored face, a black backing, and optionally an image texture.
- * The square is positioned and oriented based on the provided CubeElement data.
- *
- * @param {Color} color - The primary color of the square face.
- * @param {CubeElement} element - The data defining the square's properties (position, normal, etc.).
- * @param {string} [imageUrl] - Optional URL of an image to apply as a texture to the square face.
- * @returns {SquareMesh} A configured SquareMesh object ready to be added to the cube group.
+ * Creates the rounded square shared by the colored face and the backing of every square.
+ * @returns {ShapeGeometry} The geometry of a unit square with rounded corners.
  */
-export const createSquare = (
-    color: Color,
-    element: CubeElement,
-    imageUrl?: string
-) => {
+const createSquareGeometry = () => {
     // Define the shape of the square with rounded corners using Three.js Shape API.
     const squareShape = new Shape();
     const x = 0,
@@ -80,8 +119,93 @@ export const createSquare = (
         y + 0.5
     );
 
-    // Create geometry from the defined shape.
-    const geometry = new ShapeGeometry(squareShape);
+    return new ShapeGeometry(squareShape);
+};
+
+// Shared by every square, so large cubes (600 squares on a 10x10x10) don't rebuild them.
+const squareGeometry = createSquareGeometry();
+// Black material for the backing plane behind each colored face.
+const backingMaterial = new MeshBasicMaterial({
+    color: "black",
+    side: DoubleSide, // Render both sides of the backing plane.
+});
+// Plane showing the image in front of a colored face.
+const imageGeometry = new PlaneGeometry(1, 1, 1);
+// Image materials by URL and opacity, loaded once and shared by every square showing them.
+const imageMaterials = new Map<string, Promise<MeshBasicMaterial>>();
+// Planes showing one tile of a picture, by tile; shared by every cube of the same size.
+const tileGeometries = new Map<string, PlaneGeometry>();
+
+/**
+ * Loads the material showing an image on the squares, or reuses it if it was already loaded.
+ * @param {string} imageUrl - The URL of the image.
+ * @param {number} [opacity=0.5] - The opacity of the image: semi-transparent over the sticker color, or 1 for picture tiles.
+ * @returns {Promise<MeshBasicMaterial>} Resolves to the material once the image has loaded.
+ */
+const getImageMaterial = (imageUrl: string, opacity = 0.5) => {
+    const key = `${opacity}:${imageUrl}`;
+    let material = imageMaterials.get(key);
+    if (!material) {
+        material = textureLoader.loadAsync(imageUrl).then(
+            (texture) =>
+                new MeshBasicMaterial({
+                    map: texture,
+                    transparent: opacity < 1,
+                    opacity,
+                })
+        );
+        // Report a failed image once and forget it, so it is tried again next time
+        material.catch((error) => {
+            console.error("Failed to load cube image:", error);
+            imageMaterials.delete(key);
+        });
+        imageMaterials.set(key, material);
+    }
+    return material;
+};
+
+/**
+ * Creates the plane showing one tile of a picture, or reuses it if it was already created.
+ * @param {ImageTile} tile - The part of the image to show.
+ * @returns {PlaneGeometry} A unit plane whose texture coordinates cover the tile.
+ */
+const getTileGeometry = (tile: ImageTile) => {
+    const key = `${tile.u},${tile.v},${tile.width},${tile.height}`;
+    let geometry = tileGeometries.get(key);
+    if (!geometry) {
+        geometry = new PlaneGeometry(1, 1, 1);
+        // Squeeze the plane's 0..1 texture coordinates into the tile
+        const uv = geometry.attributes.uv;
+        for (let i = 0; i < uv.count; i++) {
+            uv.setXY(
+                i,
+                tile.u + uv.getX(i) * tile.width,
+                tile.v + uv.getY(i) * tile.height
+            );
+        }
+        tileGeometries.set(key, geometry);
+    }
+    return geometry;
+};
+
+/**
+ * Creates a single square mesh for the Rubik's Cube.
+ * This includes the colored face, a black backing, and optionally an image texture.
+ * The square is positioned and oriented based on the provided CubeElement data.
+ *
+ * @param {Color} color - The primary color of the square face.
+ * @param {CubeElement} element - The data defining the square's properties (position, normal, etc.).
+ * @param {string} [imageUrl] - Optional URL of an image to apply as a texture to the square face.
+ * @param {ImageTile} [tile] - Optional part of the image to show, covering the whole face (picture cubes).
+ *        Without it, the whole image is shown semi-transparent over the color.
+ * @returns {SquareMesh} A configured SquareMesh object ready to be added to the cube group.
+ */
+export const createSquare = (
+    color: Color,
+    element: CubeElement,
+    imageUrl?: string,
+    tile?: ImageTile
+) => {
     // Create the main material for the colored face with some metallic/roughness properties.
     const material = new MeshStandardMaterial({
         color,
@@ -90,7 +214,7 @@ export const createSquare = (
         envMapIntensity: 1,
     });
     // Create the mesh for the colored face.
-    const mesh = new Mesh(geometry, material);
+    const mesh = new Mesh(squareGeometry, material);
     // Slightly scale down the colored face to create a border effect with the backing.
     mesh.scale.set(0.9, 0.9, 0.9);
 
@@ -99,14 +223,8 @@ export const createSquare = (
     // Add the colored face mesh to the container.
     square.add(mesh);
 
-    // Create a simple black material for the backing plane.
-    const mat2 = new MeshBasicMaterial({
-        color: "black",
-        side: DoubleSide, // Render both sides of the backing plane.
-    });
-
     // Create the backing plane using the same rounded square geometry.
-    const plane = new Mesh(geometry, mat2);
+    const plane = new Mesh(squareGeometry, backingMaterial);
     // Position the backing plane slightly behind the colored face.
     plane.position.set(0, 0, -0.01);
     // Add the backing plane to the container.
@@ -119,30 +237,41 @@ export const createSquare = (
     // Set the position of the SquareMesh container in world space.
     square.position.set(posX, posY, posZ);
 
-    // If an image URL is provided, load and apply it as a texture.
-    if (imageUrl) {
-        textureLoader.load(imageUrl, (texture) => {
-            // Create a simple plane geometry for the image.
-            const geo2 = new PlaneGeometry(1, 1, 1);
-            // Create material with the loaded texture, making it semi-transparent.
-            const mat3 = new MeshBasicMaterial({
-                map: texture,
-                transparent: true,
-                opacity: 0.5,
-            });
-            // Create the mesh for the image plane.
-            const avatarPlane = new Mesh(geo2, mat3);
-            // Position the image plane slightly in front of the colored face.
-            avatarPlane.position.set(0, 0, 0.01);
-            // Scale the image plane slightly smaller than the square face.
-            avatarPlane.scale.set(0.8, 0.8, 0.8);
-            // Add the image plane to the container.
-            square.add(avatarPlane);
-        });
+    // A picture tile covers the colored face, so the picture is what has to be reassembled.
+    if (imageUrl && tile) {
+        getImageMaterial(imageUrl, 1).then(
+            (imageMaterial) => {
+                const tilePlane = new Mesh(
+                    getTileGeometry(tile),
+                    imageMaterial
+                );
+                tilePlane.position.set(0, 0, 0.01);
+                tilePlane.scale.set(0.9, 0.9, 0.9);
+                square.add(tilePlane);
+            },
+            () => undefined // Already reported by getImageMaterial
+        );
+    } else if (imageUrl) {
+        // If an image URL is provided, load and apply it as a texture.
+        getImageMaterial(imageUrl).then(
+            (imageMaterial) => {
+                // Create the mesh for the image plane.
+                const avatarPlane = new Mesh(imageGeometry, imageMaterial);
+                // Position the image plane slightly in front of the colored face.
+                avatarPlane.position.set(0, 0, 0.01);
+                // Scale the image plane slightly smaller than the square face.
+                avatarPlane.scale.set(0.8, 0.8, 0.8);
+                // Add the image plane to the container.
+                square.add(avatarPlane);
+            },
+            () => undefined // Already reported by getImageMaterial
+        );
     }
 
-    // Orient the square container to face outwards according to its normal vector.
+    // Orient the square container to face outwards according to its normal vector,
+    // with its top edge (and the image) pointing along the element's up direction.
     // It looks at a point slightly offset from its position along its normal.
+    square.up.copy(element.up);
     square.lookAt(element.pos.clone().add(element.normal));
     // Return the fully configured SquareMesh object.
     return square;
@@ -164,4 +293,15 @@ export class SquareMesh extends Object3D {
         super();
         this.element = element;
     }
+
+    /**
+     * Highlights the square (e.g. for the tutor) by making its colored face glow.
+     * @param {boolean} highlighted - Whether the square should be highlighted.
+     */
+    public setHighlighted(highlighted: boolean) {
+        // The colored face is the first child added by createSquare
+        const face = this.children[0] as Mesh;
+        const material = face.material as MeshStandardMaterial;
+        material.emissive.set(highlighted ? 0x666666 : 0x000000);
+    }
 }
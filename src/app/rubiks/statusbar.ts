@@ -1,3 +1,10 @@
+import {
+    formatResult,
+    getInspectionPenalty,
+    INSPECTION_TIME,
+    Penalty,
+} from "./solveTimer";
+
 /**
  * Updates the text content of an HTML element with the ID "finish".
  * Displays a congratulatory message if the cube is finished and the timer is not showing the initial state,
@@ -25,25 +32,50 @@ export const setFinish = (finish: boolean) => {
 
 /**
  * Updates the text content of an HTML element with the ID "timer".
- * Formats the given time in seconds into an MM:SS string.
+ * Formats the given time in seconds into an MM:SS.cc string, marked with "+" for a +2 penalty,
+ * or shows "DNF".
  *
- * @param {number} seconds - The total elapsed time in seconds.
+ * @param {number} seconds - The total elapsed time in seconds, including a +2 penalty.
+ * @param {Penalty} [penalty="none"] - The penalty of the solve.
  */
-export const setTime = (seconds: number) => {
+export const setTime = (seconds: number, penalty: Penalty = "none") => {
     // Get the HTML element that displays the timer.
     const timerEle = document.getElementById("timer");
     // Check if the element exists.
     if (timerEle) {
-        // Calculate minutes by dividing total seconds by 60 and taking the floor.
-        const mins = Math.floor(seconds / 60);
-        // Calculate remaining seconds using the modulo operator.
-        const secs = Math.floor(seconds % 60);
-        // Format the time as MM:SS, padding with leading zeros if necessary.
-        const text = `${String(mins).padStart(2, "0")}:${String(secs).padStart(
-            2,
-            "0"
-        )}`;
-        // Update the timer element's text content.
-        timerEle.innerText = text;
+        // Format the time as MM:SS.cc (or DNF) and update the timer element's text content.
+        timerEle.innerText = formatResult(seconds * 1000, penalty);
+    }
+};
+
+/**
+ * Updates the text content of an HTML element with the ID "timer" during inspection.
+ * Counts the seconds left down from 15, then shows the penalty the solve would get if it started now.
+ *
+ * @param {number} inspected - The time spent inspecting so far, in milliseconds.
+ */
+export const setInspection = (inspected: number) => {
+    const timerEle = document.getElementById("timer");
+    if (timerEle) {
+        const penalty = getInspectionPenalty(inspected);
+        timerEle.innerText =
+            penalty === "none"
+                ? String(Math.ceil((INSPECTION_TIME - inspected) / 1000))
+                : penalty;
+    }
+};
+
+/**
+ * Updates the text content of an HTML element with the ID "scramble".
+ * Displays the scramble applied to the cube in standard notation.
+ *
+ * @param {string} scramble - The scramble in standard notation, or an empty string to clear it.
+ */
+export const setScramble = (scramble: string) => {
+    // Get the HTML element that displays the scramble.
+    const scrambleEle = document.getElementById("scramble");
+    // Check if the element exists.
+    if (scrambleEle) {
+        scrambleEle.innerText = scramble;
     }
 };
@@ -0,0 +1,114 @@
+import { CubeColor, DEFAULT_COLORS } from "./cubeData";
+
+/**
+ * Interface describing how the faces of the cube look, persisted in localStorage.
+ * The selected theme is stored under "rubiksTheme"; themes made in the editor under "rubiksThemes".
+ * @interface CubeTheme
+ * @property {string} name - The name shown in the theme picker.
+ * @property {CubeColor} colors - The six face colors, in the order Top, Bottom, Left, Right, Front, Back.
+ * @property {string[]} [images] - Optional image per face, in the same order ("" for a face without one).
+ */
+export interface CubeTheme {
+    name: string;
+    colors: CubeColor;
+    images?: string[];
+}
+
+/** Names of the faces, in the order of the colors of a theme. */
+export const THEME_FACE_NAMES = [
+    "Top",
+    "Bottom",
+    "Left",
+    "Right",
+    "Front",
+    "Back",
+] as const;
+
+/** Built-in themes, offered before the ones the user saved. The first one is the default. */
+export const THEME_PRESETS: readonly Readonly<CubeTheme>[] = [
+    { name: "Classic", colors: [...DEFAULT_COLORS] },
+    {
+        // White opposite yellow, blue opposite green, red opposite orange
+        name: "Western",
+        colors: [
+            "#FFFFFF", // Top (White)
+            "#FFD500", // Bottom (Yellow)
+            "#FF5800", // Left (Orange)
+            "#B71234", // Right (Red)
+            "#009B48", // Front (Green)
+            "#0045AD", // Back (Blue)
+        ],
+    },
+    {
+        // White opposite blue, yellow opposite green
+        name: "Japanese",
+        colors: [
+            "#FFFFFF", // Top (White)
+            "#0045AD", // Bottom (Blue)
+            "#FF5800", // Left (Orange)
+            "#B71234", // Right (Red)
+            "#009B48", // Front (Green)
+            "#FFD500", // Back (Yellow)
+        ],
+    },
+    {
+        // Saturated colors that stay apart for most kinds of color blindness
+        name: "High contrast",
+        colors: [
+            "#FFFFFF", // Top (White)
+            "#000000", // Bottom (Black)
+            "#FF00FF", // Left (Magenta)
+            "#FFFF00", // Right (Yellow)
+            "#00FFFF", // Front (Cyan)
+            "#0000FF", // Back (Blue)
+        ],
+    },
+];
+
+/** The theme used until the user picks another one. */
+export const DEFAULT_THEME = THEME_PRESETS[0];
+
+/**
+ * Checks that a parsed value is a usable theme: a name and six colors, and six images if any.
+ * @param {unknown} value - The value read from localStorage.
+ * @returns {boolean} True if the value is a theme.
+ */
+export const isTheme = (value: unknown): value is CubeTheme => {
+    const theme = value as CubeTheme;
+    return (
+        !!theme &&
+        typeof theme.name === "string" &&
+        Array.isArray(theme.colors) &&
+        theme.colors.length === 6 &&
+        (theme.images === undefined ||
+            (Array.isArray(theme.images) && theme.images.length === 6))
+    );
+};
+
+/**
+ * Reads the selected theme from localStorage.
+ * @returns {CubeTheme} The saved theme, or the default one if none is saved or it cannot be read.
+ */
+export const loadTheme = (): Readonly<CubeTheme> => {
+    if (typeof localStorage === "undefined") return DEFAULT_THEME;
+    try {
+        const saved = JSON.parse(localStorage.getItem("rubiksTheme") || "null");
+        return isTheme(saved) ? saved : DEFAULT_THEME;
+    } catch {
+        return DEFAULT_THEME;
+    }
+};
+
+/**
+ * Reads the themes the user saved in the editor from localStorage.
+ * @returns {CubeTheme[]} The saved themes, without any that cannot be read.
+ */
+export const loadCustomThemes = (): CubeTheme[] => {
+    if (typeof localStorage === "undefined") return [];
+    try {
+        const saved = JSON.parse(localStorage.getItem("rubiksThemes") || "[]");
+        return Array.isArray(saved) ? saved.filter(isTheme) : [];
+    } catch {
+        return [];
+    }
+};
@@ -0,0 +1,749 @@
+/**
+ * Beginner-method (layer-by-layer) tutor for the 3x3x3 cube.
+ *
+ * Recognises which stage of the method the cube is in and suggests the next algorithm,
+ * with an explanation and the pieces it is about. The first layer is built on the bottom (D) face.
+ * Suggestions are found by trying the method's algorithms (with the setup turns of the top layer)
+ * on a copy of the model and keeping the shortest one that makes progress without breaking
+ * the finished stages.
+ */
+import CubeModel, {
+    applyMat3,
+    Axis,
+    Cubie,
+    Mat3,
+    multiplyMat3,
+    quarterTurnMatrix,
+    Vec3,
+} from "./cubeModel";
+import {
+    applyAlgorithmToModel,
+    formatAlgorithm,
+    getCenteringRotations,
+    Move,
+    parseAlgorithm,
+    resolveMove,
+} from "./notation";
+
+/**
+ * Interface describing one stage of the beginner method.
+ * @interface TutorStage
+ * @property {string} id - Stable identifier of the stage.
+ * @property {string} title - Short name shown to the user.
+ * @property {string} description - What the stage achieves.
+ */
+export interface TutorStage {
+    id: string;
+    title: string;
+    description: string;
+}
+
+/**
+ * Interface describing the tutor's advice for the current cube.
+ * @interface TutorHint
+ * @property {number} stageIndex - Index of the current stage in `TUTOR_STAGES`.
+ * @property {TutorStage} stage - The current stage.
+ * @property {string} algorithm - The next algorithm to apply, in standard notation. Empty when solved.
+ * @property {string} explanation - Why and how to apply the algorithm.
+ * @property {Vec3[]} highlight - Current positions (doubled coordinates) of the pieces the step is about.
+ */
+export interface TutorHint {
+    stageIndex: number;
+    stage: TutorStage;
+    algorithm: string;
+    explanation: string;
+    highlight: Vec3[];
+}
+
+/** The stages of the beginner method, in solving order. */
+export const TUTOR_STAGES: TutorStage[] = [
+    {
+        id: "orientation",
+        title: "Hold the cube",
+        description:
+            "Turn the whole cube so every center is back on its own face.",
+    },
+    {
+        id: "cross",
+        title: "Bottom cross",
+        description:
+            "Place the four bottom edges so they match the bottom center and their side centers.",
+    },
+    {
+        id: "firstLayer",
+        title: "First-layer corners",
+        description:
+            "Insert the four bottom corners to finish the first layer.",
+    },
+    {
+        id: "secondLayer",
+        title: "Second layer",
+        description: "Insert the four middle-layer edges from the top layer.",
+    },
+    {
+        id: "lastLayerCross",
+        title: "Last-layer cross",
+        description: "Flip the top edges so the top face shows a cross.",
+    },
+    {
+        id: "lastLayerEdges",
+        title: "Last-layer edges",
+        description:
+            "Swap the top edges until each one matches its side center.",
+    },
+    {
+        id: "lastLayerCorners",
+        title: "Position last-layer corners",
+        description:
+            "Cycle the top corners until each one is in its home spot, even if twisted.",
+    },
+    {
+        id: "lastLayerOrientation",
+        title: "Orient last-layer corners",
+        description: "Twist the top corners in place to finish the cube.",
+    },
+    {
+        id: "solved",
+        title: "Solved",
+        description: "The cube is solved. Well done!",
+    },
+];
+
+/**
+ * A candidate step: an algorithm the tutor may suggest and how to explain it.
+ * @interface Candidate
+ * @property {Move[]} moves - The moves of the step.
+ * @property {string} explanation - The explanation shown with it.
+ */
+interface Candidate {
+    moves: Move[];
+    explanation: string;
+}
+
+/** Setup turns of the top layer, tried before the stage algorithms. */
+const AUF = ["", "U", "U2", "U'"];
+
+/** The four first-layer corner slots, with the trigger that inserts a corner from above the slot. */
+const CORNER_SLOTS = [
+    { corner: [2, -2, 2], trigger: "R U R' U'" },
+    { corner: [-2, -2, 2], trigger: "L' U' L U" },
+    { corner: [-2, -2, -2], trigger: "L U L' U'" },
+    { corner: [2, -2, -2], trigger: "R' U' R U" },
+];
+
+/** The four side faces, each with its right and left neighbours (seen from that face) and the slot to its right. */
+const SIDES = [
+    { face: "F", right: "R", left: "L", slot: [2, 0, 2] },
+    { face: "R", right: "B", left: "F", slot: [2, 0, -2] },
+    { face: "B", right: "L", left: "R", slot: [-2, 0, -2] },
+    { face: "L", right: "F", left: "B", slot: [-2, 0, 2] },
+];
+
+/** Edge flipping algorithms for the last-layer cross. */
+const CROSS_ALGORITHMS = ["F R U R' U' F'", "F U R U' R' F'"];
+/** Swaps the front and left top edges (and disturbs the top corners). */
+const EDGE_SWAP = "R U R' U R U2 R' U";
+/** Cycles three top corners, keeping the front-right one in place. */
+const CORNER_CYCLE = "U R U' L' U R' U' L";
+/** Twists the front-right top corner; repeated 6 times it does nothing. */
+const CORNER_TWIST = "R' D' R D";
+
+/** Compares two integer vectors. */
+const sameVec = (a: Vec3, b: Vec3) =>
+    a[0] === b[0] && a[1] === b[1] && a[2] === b[2];
+
+/** Lists the pieces whose solved position matches a filter. */
+const homes = (filter: (home: Vec3) => boolean): Vec3[] =>
+    new CubeModel(3).cubies.map((c) => c.home).filter(filter);
+
+/** Counts the non-zero coordinates of a position: 1 for centers, 2 for edges, 3 for corners. */
+const kind = (v: Vec3) => v.filter((c) => c !== 0).length;
+
+const CROSS_EDGES = homes((h) => h[1] < 0 && kind(h) === 2);
+const BOTTOM_CORNERS = homes((h) => h[1] < 0 && kind(h) === 3);
+const MIDDLE_EDGES = homes((h) => h[1] === 0 && kind(h) === 2);
+const TOP_EDGES = homes((h) => h[1] > 0 && kind(h) === 2);
+const TOP_CORNERS = homes((h) => h[1] > 0 && kind(h) === 3);
+
+/**
+ * Names a piece by the faces it belongs to when solved, e.g. `DFR` or `FR`.
+ * @param {Vec3} home - The piece's solved position.
+ * @returns {string} The piece name.
+ */
+const pieceName = (home: Vec3) =>
+    (home[1] > 0 ? "U" : home[1] < 0 ? "D" : "") +
+    (home[2] > 0 ? "F" : home[2] < 0 ? "B" : "") +
+    (home[0] > 0 ? "R" : home[0] < 0 ? "L" : "");
+
+/** Finds the cubie whose solved position is `home`. */
+const findCubie = (cubies: Cubie[], home: Vec3) =>
+    cubies.find((c) => sameVec(c.home, home))!;
+
+/**
+ * Checks whether a piece is in its home position with every sticker facing its own face.
+ * @param {Cubie} cubie - The piece.
+ * @returns {boolean} True if the piece is solved.
+ */
+const isPieceSolved = (cubie: Cubie) => {
+    if (!sameVec(cubie.pos, cubie.home)) return false;
+    return ([0, 1, 2] as Axis[]).every((axis) => {
+        if (cubie.home[axis] === 0) return true;
+        const normal: Vec3 = [0, 0, 0];
+        normal[axis] = Math.sign(cubie.home[axis]);
+        return sameVec(applyMat3(cubie.rot, normal), normal);
+    });
+};
+
+/** Counts how many of the given pieces are solved. */
+const countSolved = (model: CubeModel, pieces: Vec3[]) =>
+    pieces.filter((home) => isPieceSolved(findCubie(model.cubies, home)))
+        .length;
+
+/** Checks whether a top edge shows its top sticker on the top face. */
+const isTopOriented = (cubie: Cubie) =>
+    sameVec(applyMat3(cubie.rot, [0, 1, 0]), [0, 1, 0]);
+
+/** Applies moves to a copy of a model. */
+const afterMoves = (model: CubeModel, moves: Move[]) => {
+    const copy = model.clone();
+    applyAlgorithmToModel(copy, moves);
+    return copy;
+};
+
+/**
+ * Merges consecutive turns of the same layers (e.g. `U U` into `U2`, `U U'` into nothing),
+ * so setup turns read naturally.
+ * @param {Move[]} moves - The moves.
+ * @returns {Move[]} The simplified moves.
+ */
+const simplify = (moves: Move[]) => {
+    const result: Move[] = [];
+    moves.forEach((move) => {
+        const last = result[result.length - 1];
+        if (
+            last &&
+            last.family === move.family &&
+            last.depth === move.depth &&
+            last.wide === move.wide
+        ) {
+            // Normalise the sum to -1, 1 or 2 quarter turns
+            const sum = (((last.amount + move.amount) % 4) + 4) % 4;
+            result.pop();
+            if (sum !== 0) result.push({ ...move, amount: [0, 1, 2, -1][sum] });
+        } else {
+            result.push(move);
+        }
+    });
+    return result;
+};
+
+/** Builds a candidate from algorithm parts, skipping empty ones. */
+const candidate = (parts: string[], explanation: string): Candidate => ({
+    moves: simplify(parseAlgorithm(parts.filter((p) => p).join(" "))),
+    explanation,
+});
+
+/** The inverse of a setup turn of the top layer. */
+const undoAuf = (auf: string) =>
+    auf === "U" ? "U'" : auf === "U'" ? "U" : auf;
+
+/**
+ * Searches sequences of candidate steps (up to `maxDepth` long) for the shortest one that raises `progress`.
+ * A progress below 0 means a finished stage was broken, so those branches are dropped.
+ *
+ * @returns {Candidate | null} The first step of the best sequence, or null if none makes progress.
+ */
+const findStep = (
+    model: CubeModel,
+    candidates: Candidate[],
+    progress: (model: CubeModel) => number,
+    maxDepth: number
+): Candidate | null => {
+    const base = progress(model);
+    let frontier = [{ model, first: null as Candidate | null }];
+
+    for (let depth = 1; depth <= maxDepth; depth++) {
+        let best: { first: Candidate; score: number } | null = null;
+        const next: typeof frontier = [];
+        frontier.forEach((node) => {
+            candidates.forEach((c) => {
+                const after = afterMoves(node.model, c.moves);
+                const score = progress(after);
+                if (score < 0) return;
+                const first = node.first ?? c;
+                // Prefer the most progress, then the shortest first step
+                if (
+                    score > base &&
+                    (!best ||
+                        score > best.score ||
+                        (score === best.score &&
+                            first.moves.length < best.first.moves.length))
+                ) {
+                    best = { first, score };
+                }
+                next.push({ model: after, first });
+            });
+        });
+        if (best) return (best as { first: Candidate }).first;
+        frontier = next;
+    }
+    return null;
+};
+
+/** The 18 face moves, pre-resolved for the cross search. */
+const FACE_TURNS = "U U2 U' D D2 D' R R2 R' L L2 L' F F2 F' B B2 B'"
+    .split(" ")
+    .map((text) => {
+        const move = parseAlgorithm(text)[0];
+        const turn = resolveMove(move, 3);
+        return {
+            move,
+            axis: turn.axis,
+            // Layer coordinates of the turned layer (doubled)
+            coord: turn.layers[0] * 2 - 2,
+            mat: quarterTurnMatrix(turn.axis, turn.quarterTurns),
+        };
+    });
+
+/** Applies a face move to a few tracked pieces, returning moved copies. */
+const turnPieces = (pieces: Cubie[], t: (typeof FACE_TURNS)[number]) =>
+    pieces.map((p) =>
+        p.pos[t.axis] === t.coord
+            ? {
+                  home: p.home,
+                  pos: applyMat3(t.mat, p.pos),
+                  rot: multiplyMat3(t.mat, p.rot) as Mat3,
+              }
+            : p
+    );
+
+/** Key describing where a cross edge is and which way its bottom sticker faces. */
+const edgeKey = (p: Cubie) =>
+    `${p.pos.join(",")}|${applyMat3(p.rot, [0, -1, 0]).join(",")}`;
+
+/** Distance (in face moves) from every placement of a cross edge to its home, by breadth-first search. */
+const crossDistances = new Map<string, Map<string, number>>();
+const getCrossDistances = (home: Vec3) => {
+    const key = home.join(",");
+    if (!crossDistances.has(key)) {
+        const dist = new Map<string, number>();
+        let layer: Cubie[] = [
+            {
+                home,
+                pos: home.slice() as Vec3,
+                rot: [1, 0, 0, 0, 1, 0, 0, 0, 1],
+            },
+        ];
+        dist.set(edgeKey(layer[0]), 0);
+        for (let d = 1; layer.length > 0; d++) {
+            const next: Cubie[] = [];
+            layer.forEach((piece) =>
+                FACE_TURNS.forEach((t) => {
+                    const [moved] = turnPieces([piece], t);
+                    if (!dist.has(edgeKey(moved))) {
+                        dist.set(edgeKey(moved), d);
+                        next.push(moved);
+                    }
+                })
+            );
+            layer = next;
+        }
+        crossDistances.set(key, dist);
+    }
+    return crossDistances.get(key)!;
+};
+
+/**
+ * Finds the shortest move sequence that solves `target` without disturbing the cross edges in `keep`.
+ * Only the cross edges are tracked, which keeps the search small.
+ */
+const searchCrossEdge = (model: CubeModel, target: Vec3, keep: Vec3[]) => {
+    const required = [...keep, target];
+    const pieces = required.map((home) => {
+        const c = findCubie(model.cubies, home);
+        return { home, pos: c.pos, rot: c.rot };
+    });
+    const tables = required.map(getCrossDistances);
+    const bound = (ps: Cubie[]) =>
+        Math.max(...ps.map((p, i) => tables[i].get(edgeKey(p))!));
+    const path: Move[] = [];
+
+    const search = (ps: Cubie[], depth: number, lastAxis: number): boolean => {
+        const h = bound(ps);
+        if (h === 0) return true;
+        if (h > depth) return false;
+        for (let i = 0; i < FACE_TURNS.length; i++) {
+            const t = FACE_TURNS[i];
+            // Skip turning the same face twice in a row
+            if (i - (i % 3) === lastAxis) continue;
+            path.push(t.move);
+            if (search(turnPieces(ps, t), depth - 1, i - (i % 3))) return true;
+            path.pop();
+        }
+        return false;
+    };
+
+    for (let depth = 0; depth <= 8; depth++) {
+        if (search(pieces, depth, -1)) return path.slice();
+    }
+    return null;
+};
+
+/** Builds a hint for a stage. */
+const hint = (
+    stageIndex: number,
+    moves: Move[],
+    explanation: string,
+    highlight: Vec3[]
+): TutorHint => ({
+    stageIndex,
+    stage: TUTOR_STAGES[stageIndex],
+    algorithm: formatAlgorithm(moves),
+    explanation,
+    highlight,
+});
+
+/** Current positions of the given pieces. */
+const positionsOf = (model: CubeModel, pieces: Vec3[]) =>
+    pieces.map((home) => findCubie(model.cubies, home).pos);
+
+/**
+ * Recognises the beginner-method stage of a 3x3x3 cube and suggests the next step.
+ *
+ * @param {CubeModel} model - The cube to look at. It is not modified.
+ * @returns {TutorHint} The current stage and the suggested next algorithm.
+ * @throws {Error} If the model is not a 3x3x3.
+ */
+export const getTutorHint = (model: CubeModel): TutorHint => {
+    if (model.order !== 3 || !model.isCube) {
+        throw new Error("The tutor only supports 3x3x3 cubes");
+    }
+
+    // Stage 0: the method assumes the centers are on their own faces
+    const rotations = getCenteringRotations(model);
+    if (rotations.length > 0) {
+        return hint(
+            0,
+            rotations,
+            "Some centers are away from their faces (after a middle-layer turn or a whole-cube rotation). " +
+                "Rotate the whole cube so the highlighted centers are back on top and in front.",
+            positionsOf(model, [
+                [0, 2, 0],
+                [0, 0, 2],
+            ])
+        );
+    }
+
+    // Stage 1: bottom cross, one edge at a time, picking the quickest edge
+    const crossLeft = CROSS_EDGES.filter(
+        (home) => !isPieceSolved(findCubie(model.cubies, home))
+    );
+    if (crossLeft.length > 0) {
+        const keep = CROSS_EDGES.filter((home) => !crossLeft.includes(home));
+        let best: { home: Vec3; moves: Move[] } | null = null;
+        crossLeft.forEach((home) => {
+            const moves = searchCrossEdge(model, home, keep);
+            if (moves && (!best || moves.length < best.moves.length)) {
+                best = { home, moves };
+            }
+        });
+        const { home, moves } = best!;
+        return hint(
+            1,
+            moves,
+            `Bring the ${pieceName(
+                home
+            )} edge down next to the bottom center, ` +
+                "with its bottom color facing down and its side color matching the side center. " +
+                "The cross edges already in place are kept.",
+            positionsOf(model, [home])
+        );
+    }
+
+    // Stage 2: first-layer corners with the R U R' U' trigger
+    const crossDone = (m: CubeModel) =>
+        countSolved(m, CROSS_EDGES) === CROSS_EDGES.length;
+    const cornersLeft = BOTTOM_CORNERS.filter(
+        (home) => !isPieceSolved(findCubie(model.cubies, home))
+    );
+    if (cornersLeft.length > 0) {
+        const candidates: Candidate[] = [];
+        CORNER_SLOTS.forEach(({ trigger }) =>
+            AUF.forEach((auf) => {
+                for (let n = 1; n <= 5; n++) {
+                    candidates.push(
+                        candidate(
+                            [auf, ...new Array(n).fill(trigger)],
+                            (auf
+                                ? "Turn the top layer so the corner is above its slot, then repeat "
+                                : "The corner is above its slot: repeat ") +
+                                `${trigger} (${n} time${
+                                    n > 1 ? "s" : ""
+                                }) until it drops in with its colors matching.`
+                        )
+                    );
+                }
+            })
+        );
+        const step = findStep(
+            model,
+            candidates,
+            (m) => (crossDone(m) ? countSolved(m, BOTTOM_CORNERS) : -1),
+            1
+        );
+        if (step) {
+            const after = afterMoves(model, step.moves);
+            const placed = cornersLeft.filter((home) =>
+                isPieceSolved(findCubie(after.cubies, home))
+            );
+            return hint(
+                2,
+                step.moves,
+                `Insert the ${placed.map(pieceName).join(" and ")} corner. ` +
+                    step.explanation,
+                positionsOf(model, placed)
+            );
+        }
+        // A corner is stuck in the wrong bottom slot (or twisted there): pop it out first
+        const stuck = cornersLeft.find(
+            (home) => findCubie(model.cubies, home).pos[1] < 0
+        )!;
+        const pos = findCubie(model.cubies, stuck).pos;
+        const slot = CORNER_SLOTS.find((s) => sameVec(s.corner as Vec3, pos))!;
+        return hint(
+            2,
+            parseAlgorithm(slot.trigger),
+            `The ${pieceName(stuck)} corner is stuck in the bottom layer. ` +
+                `Do ${slot.trigger} once to lift it into the top layer, then insert it above its own slot.`,
+            [pos]
+        );
+    }
+
+    // Stage 3: second-layer edges, inserted to the right or left of a side face
+    const firstLayerDone = (m: CubeModel) =>
+        crossDone(m) &&
+        countSolved(m, BOTTOM_CORNERS) === BOTTOM_CORNERS.length;
+    const middleLeft = MIDDLE_EDGES.filter(
+        (home) => !isPieceSolved(findCubie(model.cubies, home))
+    );
+    if (middleLeft.length > 0) {
+        const candidates: Candidate[] = [];
+        SIDES.forEach(({ face, right, left }) =>
+            AUF.forEach((auf) => {
+                candidates.push(
+                    candidate(
+                        [auf, `U ${right} U' ${right}' U' ${face}' U ${face}`],
+                        `Line the edge up with the ${face} center, then insert it to the right: ` +
+                            `U ${right} U' ${right}' U' ${face}' U ${face}.`
+                    ),
+                    candidate(
+                        [auf, `U' ${left}' U ${left} U ${face} U' ${face}'`],
+                        `Line the edge up with the ${face} center, then insert it to the left: ` +
+                            `U' ${left}' U ${left} U ${face} U' ${face}'.`
+                    )
+                );
+            })
+        );
+        const step = findStep(
+            model,
+            candidates,
+            (m) => (firstLayerDone(m) ? countSolved(m, MIDDLE_EDGES) : -1),
+            1
+        );
+        if (step) {
+            const after = afterMoves(model, step.moves);
+            const placed = middleLeft.filter((home) =>
+                isPieceSolved(findCubie(after.cubies, home))
+            );
+            return hint(
+                3,
+                step.moves,
+                `Insert the ${placed.map(pieceName).join(" and ")} edge. ` +
+                    step.explanation,
+                positionsOf(model, placed)
+            );
+        }
+        // An edge is stuck in the wrong middle slot (or flipped there): pop it out first
+        const stuck = middleLeft.find(
+            (home) => findCubie(model.cubies, home).pos[1] === 0
+        )!;
+        const pos = findCubie(model.cubies, stuck).pos;
+        const side = SIDES.find((s) => sameVec(s.slot as Vec3, pos))!;
+        const popOut = `U ${side.right} U' ${side.right}' U' ${side.face}' U ${side.face}`;
+        return hint(
+            3,
+            parseAlgorithm(popOut),
+            `The ${pieceName(stuck)} edge is stuck in the middle layer. ` +
+                `Insert any top edge into its slot with ${popOut} to bring it back to the top layer.`,
+            [pos]
+        );
+    }
+
+    // The last-layer stages search short sequences of the method's algorithms
+    const f2lDone = (m: CubeModel) =>
+        firstLayerDone(m) &&
+        countSolved(m, MIDDLE_EDGES) === MIDDLE_EDGES.length;
+    const orientedEdges = (m: CubeModel) =>
+        TOP_EDGES.filter((home) => isTopOriented(findCubie(m.cubies, home)))
+            .length;
+    const edgesDone = (m: CubeModel) =>
+        orientedEdges(m) === 4 && countSolved(m, TOP_EDGES) === 4;
+    const cornersPlaced = (m: CubeModel) =>
+        TOP_CORNERS.filter((home) => {
+            const c = findCubie(m.cubies, home);
+            return sameVec(c.pos, c.home);
+        }).length;
+
+    const stages: {
+        index: number;
+        pieces: Vec3[];
+        progress: (m: CubeModel) => number;
+        done: (m: CubeModel) => boolean;
+        candidates: Candidate[];
+        maxDepth: number;
+    }[] = [
+        {
+            index: 4,
+            pieces: TOP_EDGES.filter(
+                (home) => !isTopOriented(findCubie(model.cubies, home))
+            ),
+            progress: (m) => (f2lDone(m) ? orientedEdges(m) : -1),
+            done: (m) => orientedEdges(m) === 4,
+            candidates: AUF.flatMap((auf) =>
+                CROSS_ALGORITHMS.map((alg) =>
+                    candidate(
+                        [auf, alg],
+                        (auf
+                            ? "Turn the top layer to the shape shown, then do "
+                            : "Do ") +
+                            `${alg} to flip top edges until the top shows a cross ` +
+                            "(dot, then L-shape, then line)."
+                    )
+                )
+            ),
+            maxDepth: 2,
+        },
+        {
+            index: 5,
+            pieces: TOP_EDGES.filter(
+                (home) => !isPieceSolved(findCubie(model.cubies, home))
+            ),
+            // Most edges matching for any turn of the top layer, plus one once they match without it
+            progress: (m) => {
+                if (!f2lDone(m) || orientedEdges(m) !== 4) return -1;
+                const matched = AUF.map((auf) =>
+                    countSolved(afterMoves(m, parseAlgorithm(auf)), TOP_EDGES)
+                );
+                return Math.max(...matched) + (matched[0] === 4 ? 1 : 0);
+            },
+            done: edgesDone,
+            candidates: AUF.filter((auf) => auf)
+                .map((auf) =>
+                    candidate(
+                        [auf],
+                        "Turn the top layer so every top edge matches its side center."
+                    )
+                )
+                .concat(
+                    AUF.map((auf) =>
+                        candidate(
+                            [auf, EDGE_SWAP],
+                            (auf ? "Turn the top layer, then do " : "Do ") +
+                                `${EDGE_SWAP} to swap the front and left top edges.`
+                        )
+                    )
+                ),
+            maxDepth: 3,
+        },
+        {
+            index: 6,
+            pieces: TOP_CORNERS.filter((home) => {
+                const c = findCubie(model.cubies, home);
+                return !sameVec(c.pos, c.home);
+            }),
+            progress: (m) =>
+                f2lDone(m) && edgesDone(m) ? cornersPlaced(m) : -1,
+            done: (m) => cornersPlaced(m) === 4,
+            candidates: AUF.flatMap((auf) =>
+                [
+                    CORNER_CYCLE,
+                    formatAlgorithm(
+                        parseAlgorithm(CORNER_CYCLE)
+                            .reverse()
+                            .map((mv) => ({ ...mv, amount: -mv.amount }))
+                    ),
+                ].map((alg) =>
+                    candidate(
+                        [auf, alg, undoAuf(auf)],
+                        (auf
+                            ? "Turn the top layer to bring a correctly placed corner to the front right, then "
+                            : "Keeping the front-right corner, ") +
+                            `cycle the other three top corners with ${alg}` +
+                            (auf ? " and turn the top layer back." : ".")
+                    )
+                )
+            ),
+            maxDepth: 2,
+        },
+        {
+            index: 7,
+            pieces: TOP_CORNERS.filter(
+                (home) => !isPieceSolved(findCubie(model.cubies, home))
+            ),
+            progress: (m) =>
+                f2lDone(m) && edgesDone(m) && cornersPlaced(m) === 4
+                    ? countSolved(m, TOP_CORNERS)
+                    : -1,
+            done: (m) => countSolved(m, TOP_CORNERS) === 4,
+            candidates: AUF.flatMap((auf) =>
+                ["U", "U2", "U'"].flatMap((turn) =>
+                    [
+                        [2, 4],
+                        [4, 2],
+                    ].map(([first, second]) =>
+                        candidate(
+                            [
+                                auf,
+                                ...new Array(first).fill(CORNER_TWIST),
+                                turn,
+                                ...new Array(second).fill(CORNER_TWIST),
+                                undoAuf(turn),
+                                undoAuf(auf),
+                            ],
+                            (auf
+                                ? "Turn the top layer to bring a twisted corner to the front right. "
+                                : "") +
+                                `Repeat ${CORNER_TWIST} until that corner is oriented (${first} times), ` +
+                                `turn only the top layer (${turn}) to bring the next twisted corner there, ` +
+                                `and repeat ${CORNER_TWIST} again (${second} times). ` +
+                                "The bottom layers look scrambled in between; they come back at the end."
+                        )
+                    )
+                )
+            ),
+            maxDepth: 1,
+        },
+    ];
+
+    for (const stage of stages) {
+        if (stage.done(model)) continue;
+        const step = findStep(
+            model,
+            stage.candidates,
+            stage.progress,
+            stage.maxDepth
+        );
+        if (!step) break; // Should not happen for legal states
+        return hint(
+            stage.index,
+            step.moves,
+            step.explanation,
+            positionsOf(model, stage.pieces)
+        );
+    }
+
+    if (!model.isSolved()) {
+        throw new Error("The tutor could not find a next step");
+    }
+    return hint(TUTOR_STAGES.length - 1, [], "Nothing left to do!", []);
+};
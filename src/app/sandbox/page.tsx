@@ -1,17 +1,14 @@
 "use client";
 import React, { useEffect, useRef, useState } from "react";
-import Rubiks from "../rubiks";
+import Rubiks, { MAX_ORDER, MIN_ORDER } from "../rubiks";
+import SolutionPlayer from "../rubiks/solutionPlayer";
+import { formatMove } from "../rubiks/notation";
+import { formatDimensions, toDimensions, Vec3 } from "../rubiks/cubeModel";
+import { TUTOR_STAGES, TutorHint } from "../rubiks/tutor";
+import { formatResult } from "../rubiks/solveTimer";
+import { LeaderboardEntry, loadLeaderboard } from "../rubiks/leaderboard";
 import { useRouter } from "next/navigation";
 
-/**
- * Defines the structure for an entry in the leaderboard.
- * @typedef {object} LeaderboardEntry
- * @property {number} time - The time taken to solve the cube in seconds.
- * @property {string} date - The ISO string representation of the date when the record was set.
- * @property {string} image - The URL of the image used on the cube face for this record.
- */
-type LeaderboardEntry = { time: number; date: string; image: string };
-
 /**
  * Array of default images available for the cube face.
  * Moved outside the component to prevent re-creation on every render.
@@ -23,6 +20,36 @@ const defaultImages = [
     { label: "Trippi Troppi", url: "/TrippiTroppi.jpg" },
 ];
 
+/** Cube orders offered in the order picker. */
+const ORDERS = Array.from(
+    { length: MAX_ORDER - MIN_ORDER + 1 },
+    (_, i) => MIN_ORDER + i
+);
+
+/** Cuboids offered in the order picker: the usual name and the layers along X, Y (up) and Z. */
+const CUBOIDS: { label: string; dims: Vec3 }[] = [
+    { label: "2x2x3", dims: [2, 3, 2] },
+    { label: "2x2x4", dims: [2, 4, 2] },
+    { label: "3x3x2", dims: [3, 2, 3] },
+    { label: "3x3x4", dims: [3, 4, 3] },
+];
+
+/**
+ * Reads a puzzle size as written by `formatDimensions`: an order (e.g. "3") or cuboid
+ * dimensions (e.g. "2x3x2").
+ * @param {string} size - The size as text.
+ * @returns {number | Vec3 | null} The order or the dimensions, or null if some dimension is
+ * out of range.
+ */
+const parseSize = (size: string): number | Vec3 | null => {
+    const parts = size.split("x").map(Number);
+    if (parts.length !== 1 && parts.length !== 3) return null;
+    const inRange = (n: number) =>
+        Number.isInteger(n) && n >= MIN_ORDER && n <= MAX_ORDER;
+    if (!parts.every(inRange)) return null;
+    return parts.length === 1 ? parts[0] : (parts as Vec3);
+};
+
 /**
  * The main page component for the Rubik's Cube sandbox.
  * Handles rendering the cube, controls, image selection, uploading, and leaderboard display.
@@ -46,6 +73,24 @@ export default function Page() {
     const fileInputRef = useRef<HTMLInputElement>(null);
     /** State to control the visibility of the hamburger menu. */
     const [isMenuOpen, setIsMenuOpen] = useState(false);
+    /** State holding the player for the current solver solution, if one is shown. */
+    const [player, setPlayer] = useState<SolutionPlayer | null>(null);
+    /** State incremented whenever the solution player changes, to re-render its controls. */
+    const [, setPlayerTick] = useState(0);
+    /** State indicating the solver is computing a solution. */
+    const [isSolving, setIsSolving] = useState(false);
+    /** State holding the last solver error message, if any. */
+    const [solveError, setSolveError] = useState("");
+    /** State to control the visibility of the beginner-method tutor panel. */
+    const [isTutorOpen, setIsTutorOpen] = useState(false);
+    /** State holding the tutor's current hint. */
+    const [tutorHint, setTutorHint] = useState<TutorHint | null>(null);
+    /** State holding the last tutor error message, if any. */
+    const [tutorError, setTutorError] = useState("");
+    /** State holding the size of the puzzle (e.g. "3" or "2x3x2"), persisted in localStorage. */
+    const [size, setSize] = useState("3");
+    /** The order of the cube, or 0 for a cuboid. */
+    const order = size.includes("x") ? 0 : Number(size);
 
     /** Next.js router instance for navigation. */
     const router = useRouter();
@@ -54,8 +99,7 @@ export default function Page() {
      * Effect hook to load the leaderboard data from localStorage when the component mounts.
      */
     useEffect(() => {
-        const data = localStorage.getItem("rubiksLeaderboard") || "[]";
-        setLeaderboard(JSON.parse(data));
+        setLeaderboard(loadLeaderboard());
     }, []);
 
     /**
@@ -110,7 +154,15 @@ export default function Page() {
     useEffect(() => {
         // Ensure the container exists and the Rubik instance is not already set
         if (containerRef.current && !rubik) {
-            const instance = new Rubiks(containerRef.current);
+            // Reopen the sandbox on the order (or cuboid) used last time
+            const savedSize =
+                parseSize(localStorage.getItem("rubiksOrder") || "3") ?? 3;
+            const instance = new Rubiks(
+                containerRef.current,
+                undefined,
+                savedSize
+            );
+            setSize(formatDimensions(instance.dims));
             setRubik(instance);
         }
     }, [rubik]);
@@ -125,9 +177,99 @@ export default function Page() {
         }
     }, [rubik]); // Run this effect when the rubik instance becomes available
 
-    /** Filters the leaderboard to show only entries matching the currently selected image. */
+    /**
+     * Computes a solution for the current cube and opens the playback controls.
+     * The solver builds its tables on first use, so the work is deferred to let "Solving..."
+     * render first.
+     */
+    const handleSolve = () => {
+        if (!rubik) return;
+        player?.pause();
+        setPlayer(null);
+        setSolveError("");
+        setIsSolving(true);
+        setTimeout(() => {
+            try {
+                setPlayer(rubik.solve(() => setPlayerTick((t) => t + 1)));
+            } catch (err) {
+                setSolveError((err as Error).message);
+            }
+            setIsSolving(false);
+        }, 50);
+    };
+
+    /** Stops and hides the solution playback controls. */
+    const closePlayer = () => {
+        player?.pause();
+        setPlayer(null);
+        setSolveError("");
+    };
+
+    /**
+     * Switches to a cube of another order (or to a cuboid), scrambled, and remembers the choice.
+     * @param {string} newSize - The new size, as written by `formatDimensions`.
+     */
+    const handleOrderChange = (newSize: string) => {
+        const parsed = parseSize(newSize);
+        if (!rubik || parsed === null) return;
+        closePlayer();
+        setIsTutorOpen(false);
+        rubik.setOrder(parsed);
+        rubik.disorder();
+        setSize(formatDimensions(toDimensions(parsed)));
+        localStorage.setItem("rubiksOrder", newSize);
+    };
+
+    /**
+     * Effect hook to keep the tutor's hint and highlights up to date while the tutor panel is open.
+     * The hint is recomputed whenever the cube changes, whether the turn came from the mouse,
+     * touch, the keyboard or the tutor's own Apply button.
+     */
+    useEffect(() => {
+        if (!rubik || !isTutorOpen) return;
+        const update = () => {
+            try {
+                setTutorHint(rubik.updateTutor());
+                setTutorError("");
+            } catch (err) {
+                setTutorError((err as Error).message);
+            }
+        };
+        update();
+        rubik.onChange = update;
+        return () => {
+            rubik.onChange = undefined;
+            rubik.stopTutor();
+        };
+    }, [rubik, isTutorOpen]);
+
+    /**
+     * Effect hook to bind the undo/redo keyboard shortcuts:
+     * Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl/Cmd+Y to redo.
+     */
+    useEffect(() => {
+        if (!rubik) return;
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey)) return;
+            const key = e.key.toLowerCase();
+            if (key === "z" && !e.shiftKey) {
+                e.preventDefault();
+                rubik.undo();
+            } else if ((key === "z" && e.shiftKey) || key === "y") {
+                e.preventDefault();
+                rubik.redo();
+            }
+        };
+        window.addEventListener("keydown", onKeyDown);
+        return () => window.removeEventListener("keydown", onKeyDown);
+    }, [rubik]);
+
+    /** Filters the leaderboard to show only standard solves of the selected image and order. */
     const filteredLeaderboard = leaderboard.filter(
-        (entry) => entry.image === selectedImage
+        (entry) =>
+            entry.image === selectedImage &&
+            entry.order === order &&
+            entry.mode === "standard"
     );
 
     return (
@@ -138,7 +280,7 @@ export default function Page() {
                     id="timer" // ID used by Rubiks class to update time
                     className="text-5xl"
                 >
-                    00:00 {/* Initial timer display */}
+                    00:00.00 {/* Initial timer display */}
                 </span>
             </div>
             {/* Container for the Rubik's cube canvas, takes up remaining space */}
@@ -160,23 +302,90 @@ export default function Page() {
             {isMenuOpen && (
                 <div className="absolute top-16 right-4 z-10 bg-black bg-opacity-75 text-white p-4 rounded shadow-lg flex flex-col space-y-2">
                     <button
-                        onClick={() => { rubik?.disorder2(); setIsMenuOpen(false); }}
+                        onClick={() => {
+                            closePlayer();
+                            rubik?.disorder2();
+                            setIsMenuOpen(false);
+                        }}
                         className="px-3 py-1 bg-yellow-600 text-white rounded text-left"
                     >
                         Scramble
                     </button>
                     <button
-                        onClick={() => { rubik?.disorder(); setIsMenuOpen(false); }}
+                        onClick={() => {
+                            closePlayer();
+                            rubik?.disorder();
+                            setIsMenuOpen(false);
+                        }}
                         className="px-3 py-1 bg-blue-600 text-white rounded text-left"
                     >
                         Instant Scramble
                     </button>
                     <button
-                        onClick={() => { rubik?.restore(); setIsMenuOpen(false); }}
+                        onClick={() => {
+                            closePlayer();
+                            rubik?.restore();
+                            setIsMenuOpen(false);
+                        }}
                         className="px-3 py-1 bg-green-600 text-white rounded text-left"
                     >
                         Reset
                     </button>
+                    <button
+                        onClick={() => {
+                            handleSolve();
+                            setIsMenuOpen(false);
+                        }}
+                        disabled={isSolving || order !== 3}
+                        title={
+                            order !== 3
+                                ? "The solver only solves 3x3x3 cubes"
+                                : undefined
+                        }
+                        className="px-3 py-1 bg-purple-600 text-white rounded text-left disabled:opacity-50"
+                    >
+                        {isSolving ? "Solving..." : "Solve"}
+                    </button>
+                    <button
+                        onClick={() => {
+                            setIsTutorOpen(!isTutorOpen);
+                            setIsMenuOpen(false);
+                        }}
+                        disabled={order !== 3}
+                        title={
+                            order !== 3
+                                ? "The tutor only teaches 3x3x3 cubes"
+                                : undefined
+                        }
+                        className="px-3 py-1 bg-teal-600 text-white rounded text-left disabled:opacity-50"
+                    >
+                        {isTutorOpen ? "Hide Tutor" : "Tutor"}
+                    </button>
+                    {/* Order picker: from a 1x1 up to a 10x10, then a few cuboids */}
+                    <select
+                        value={size}
+                        onChange={(e) => {
+                            handleOrderChange(e.target.value);
+                            setIsMenuOpen(false);
+                        }}
+                        className="px-2 py-1 bg-gray-800 text-white rounded"
+                    >
+                        {ORDERS.map((value) => (
+                            <option key={value} value={String(value)}>
+                                {value}x{value}
+                            </option>
+                        ))}
+                        <optgroup label="Cuboids">
+                            {CUBOIDS.map(({ label, dims }) => (
+                                <option
+                                    key={label}
+                                    value={formatDimensions(dims)}
+                                >
+                                    {label}
+                                </option>
+                            ))}
+                        </optgroup>
+                    </select>
                     <button
                         onClick={() => { handleUploadClick(); setIsMenuOpen(false); }}
                         className="px-3 py-1 bg-gray-600 text-white rounded text-left"
@@ -206,6 +415,140 @@ export default function Page() {
                 </div>
             )}
 
+            {/* Beginner-method tutor panel: current stage, next algorithm and why */}
+            {isTutorOpen && (
+                <div className="absolute top-16 left-4 z-10 w-80 max-h-[60vh] overflow-auto bg-black bg-opacity-75 text-white p-4 rounded flex flex-col space-y-2 text-sm">
+                    <div className="flex justify-between items-center">
+                        <span className="text-lg font-bold">Tutor</span>
+                        <button
+                            onClick={() => setIsTutorOpen(false)}
+                            className="px-2 bg-gray-500 rounded"
+                        >
+                            Close
+                        </button>
+                    </div>
+                    {/* Stages of the method, with the current one highlighted */}
+                    <ol className="list-decimal list-inside">
+                        {TUTOR_STAGES.map((stage, i) => (
+                            <li
+                                key={stage.id}
+                                className={
+                                    tutorHint && i < tutorHint.stageIndex
+                                        ? "text-gray-400 line-through"
+                                        : tutorHint &&
+                                          i === tutorHint.stageIndex
+                                        ? "text-yellow-400 font-bold"
+                                        : ""
+                                }
+                            >
+                                {stage.title}
+                            </li>
+                        ))}
+                    </ol>
+                    {tutorError ? (
+                        <span className="text-red-400">{tutorError}</span>
+                    ) : (
+                        tutorHint && (
+                            <>
+                                <span className="italic">
+                                    {tutorHint.stage.description}
+                                </span>
+                                <span>{tutorHint.explanation}</span>
+                                {tutorHint.algorithm && (
+                                    <>
+                                        <span className="font-mono text-yellow-300">
+                                            {tutorHint.algorithm}
+                                        </span>
+                                        <button
+                                            onClick={() =>
+                                                rubik?.applyAlgorithm(
+                                                    tutorHint.algorithm,
+                                                    true
+                                                )
+                                            }
+                                            className="px-3 py-1 bg-teal-600 rounded"
+                                        >
+                                            Apply
+                                        </button>
+                                    </>
+                                )}
+                            </>
+                        )
+                    )}
+                </div>
+            )}
+
+            {/* Solution playback controls, shown after using Solve */}
+            {(player || solveError) && (
+                <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 bg-black bg-opacity-75 text-white p-4 rounded flex flex-col items-center space-y-2 max-w-[90vw]">
+                    {solveError ? (
+                        <span className="text-red-400">{solveError}</span>
+                    ) : player && player.moves.length === 0 ? (
+                        <span>The cube is already solved.</span>
+                    ) : (
+                        player && (
+                            <>
+                                {/* Solution moves: applied ones dimmed, the next one highlighted */}
+                                <div className="flex flex-wrap justify-center gap-x-2 font-mono">
+                                    {player.moves.map((move, i) => (
+                                        <span
+                                            key={i}
+                                            className={
+                                                i < player.position
+                                                    ? "text-gray-400"
+                                                    : i === player.position
+                                                    ? "text-yellow-400 font-bold"
+                                                    : ""
+                                            }
+                                        >
+                                            {formatMove(move)}
+                                        </span>
+                                    ))}
+                                </div>
+                                <span className="text-sm">
+                                    {player.position} / {player.moves.length}
+                                </span>
+                                <div className="flex space-x-2">
+                                    <button
+                                        onClick={() => player.stepBack()}
+                                        disabled={player.position === 0}
+                                        className="px-3 py-1 bg-gray-600 rounded disabled:opacity-50"
+                                    >
+                                        Step Back
+                                    </button>
+                                    <button
+                                        onClick={() =>
+                                            player.playing
+                                                ? player.pause()
+                                                : player.play()
+                                        }
+                                        disabled={player.finished}
+                                        className="px-3 py-1 bg-purple-600 rounded disabled:opacity-50"
+                                    >
+                                        {player.playing ? "Pause" : "Play"}
+                                    </button>
+                                    <button
+                                        onClick={() => player.stepForward()}
+                                        disabled={
+                                            player.finished || player.playing
+                                        }
+                                        className="px-3 py-1 bg-gray-600 rounded disabled:opacity-50"
+                                    >
+                                        Step Forward
+                                    </button>
+                                </div>
+                            </>
+                        )
+                    )}
+                    <button
+                        onClick={closePlayer}
+                        className="px-3 py-1 bg-gray-500 rounded"
+                    >
+                        Close
+                    </button>
+                </div>
+            )}
+
             {/* Hidden file input element - remains unchanged */}
             <input
                 type="file"
@@ -223,6 +566,29 @@ export default function Page() {
                 >
                     Back
                 </button>
+                {/* Undo/redo the last turns (also Ctrl+Z / Ctrl+Shift+Z) */}
+                <button
+                    onClick={() => rubik?.undo()}
+                    title="Undo (Ctrl+Z)"
+                    className="px-3 py-1 bg-gray-500 text-white rounded"
+                >
+                    Undo
+                </button>
+                <button
+                    onClick={() => rubik?.redo()}
+                    title="Redo (Ctrl+Shift+Z)"
+                    className="px-3 py-1 bg-gray-500 text-white rounded"
+                >
+                    Redo
+                </button>
+                {/* Turn the whole cube back to a standard view with U on top */}
+                <button
+                    onClick={() => rubik?.snapToView()}
+                    title="Snap to the nearest standard view"
+                    className="px-3 py-1 bg-gray-500 text-white rounded"
+                >
+                    View
+                </button>
             </div>
             {/* Leaderboard table container, positioned absolutely at the bottom-left */}
             {/* Only rendered if there are entries for the selected image */}
@@ -240,13 +606,11 @@ export default function Page() {
                         <tbody>
                             {/* Map through filtered leaderboard entries */}
                             {filteredLeaderboard.map((entry, i) => {
-                                // Format time (MM:SS)
-                                const mins = Math.floor(entry.time / 60);
-                                const secs = Math.floor(entry.time % 60);
-                                const timeStr = `${String(mins).padStart(
-                                    2,
-                                    "0"
-                                )}:${String(secs).padStart(2, "0")}`;
+                                // Format time (MM:SS.cc, "+" for a +2 penalty)
+                                const timeStr = formatResult(
+                                    entry.time * 1000,
+                                    entry.penalty
+                                );
                                 // Format date (locale specific)
                                 const dateStr = new Date(
                                     entry.date
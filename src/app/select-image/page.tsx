@@ -2,6 +2,14 @@
 import React, { useState, useEffect } from "react";
 import Image from "next/image";
 import { useRouter } from "next/navigation";
+import { ImageLayout, loadImageLayout } from "../rubiks/square";
+import {
+    CubeTheme,
+    loadCustomThemes,
+    loadTheme,
+    THEME_FACE_NAMES,
+    THEME_PRESETS,
+} from "../rubiks/theme";
 
 /**
  * Interface defining the structure for an image option.
@@ -27,6 +35,177 @@ const defaultImages: ImageOption[] = [
     { label: "Tung Tung Tung Sahur", url: "/tungtungtungsahur.png" },
 ];
 
+/**
+ * Ways to lay images out on the cube: the whole image on every sticker, one picture sliced across
+ * each face, or a different picture on each of the six faces.
+ */
+type LayoutChoice = "sticker" | "picture" | "six";
+
+/** Labels of the layout choices. */
+const LAYOUT_LABELS: Record<LayoutChoice, string> = {
+    sticker: "Every sticker",
+    picture: "Picture cube",
+    six: "Six pictures",
+};
+
+/**
+ * Editor for the cube theme: a preset or saved theme to start from, a color and an optional image
+ * per face, and a name to save the theme under. Every change is applied right away by saving the
+ * theme to localStorage, where the cube reads it when it is created.
+ *
+ * @component
+ * @param {{ images: ImageOption[] }} props - The images a face can show.
+ * @returns {React.ReactElement} The rendered editor.
+ */
+function ThemeEditor({ images }: { images: ImageOption[] }) {
+    /** State holding the theme being edited, which is also the selected theme. */
+    const [theme, setTheme] = useState<CubeTheme>({ ...THEME_PRESETS[0] });
+    /** State holding the themes the user saved. */
+    const [customThemes, setCustomThemes] = useState<CubeTheme[]>([]);
+
+    // Load the selected theme and the saved themes when the editor mounts.
+    useEffect(() => {
+        setTheme({ ...loadTheme() });
+        setCustomThemes(loadCustomThemes());
+    }, []);
+
+    /** Every theme to start from: the presets, then the saved ones. */
+    const themes = [...THEME_PRESETS, ...customThemes];
+
+    /**
+     * Selects a theme and saves it as the one the cube uses.
+     * @param {CubeTheme} next - The theme to select.
+     */
+    const applyTheme = (next: CubeTheme) => {
+        setTheme(next);
+        localStorage.setItem("rubiksTheme", JSON.stringify(next));
+    };
+
+    /**
+     * Changes the color or the image of one face.
+     * @param {number} face - The face, in the order of `THEME_FACE_NAMES`.
+     * @param {{ color?: string; image?: string }} change - The new color and/or image.
+     */
+    const handleFaceChange = (
+        face: number,
+        change: { color?: string; image?: string }
+    ) => {
+        const colors: CubeTheme["colors"] = [...theme.colors];
+        const faceImages = theme.images ? [...theme.images] : Array(6).fill("");
+        if (change.color !== undefined) colors[face] = change.color;
+        if (change.image !== undefined) faceImages[face] = change.image;
+        applyTheme({
+            ...theme,
+            colors,
+            // Themes without any image do not store the list
+            images: faceImages.some(Boolean) ? faceImages : undefined,
+        });
+    };
+
+    /**
+     * Saves the theme under its name, replacing a saved theme of the same name.
+     * The names of the presets are reserved.
+     */
+    const handleSave = () => {
+        const name = theme.name.trim();
+        if (!name || THEME_PRESETS.some((preset) => preset.name === name)) {
+            alert("Please give the theme a new name");
+            return;
+        }
+        const saved = { ...theme, name };
+        const updated = [
+            ...customThemes.filter((custom) => custom.name !== name),
+            saved,
+        ];
+        setCustomThemes(updated);
+        localStorage.setItem("rubiksThemes", JSON.stringify(updated));
+        applyTheme(saved);
+    };
+
+    /** Deletes the saved theme of the current name, if any. */
+    const handleDelete = () => {
+        const updated = customThemes.filter(
+            (custom) => custom.name !== theme.name
+        );
+        setCustomThemes(updated);
+        localStorage.setItem("rubiksThemes", JSON.stringify(updated));
+    };
+
+    return (
+        <div className="bg-gray-800 rounded-lg p-4 mb-8 max-w-3xl mx-auto">
+            {/* Theme to start from, and the name to save it under */}
+            <div className="flex flex-wrap items-center justify-center gap-2 mb-4">
+                <span className="text-xl font-bold">Theme</span>
+                <select
+                    value={themes.findIndex((t) => t.name === theme.name)}
+                    onChange={(e) =>
+                        applyTheme({ ...themes[Number(e.target.value)] })
+                    }
+                    className="px-2 py-1 bg-gray-700 rounded"
+                >
+                    <option value={-1} disabled>
+                        Custom
+                    </option>
+                    {themes.map((t, i) => (
+                        <option key={i} value={i}>
+                            {t.name}
+                        </option>
+                    ))}
+                </select>
+                <input
+                    value={theme.name}
+                    onChange={(e) => setTheme({ ...theme, name: e.target.value })}
+                    placeholder="Name"
+                    className="w-36 px-2 py-1 bg-gray-700 rounded"
+                />
+                <button
+                    onClick={handleSave}
+                    className="px-3 py-1 bg-blue-600 hover:bg-blue-700 rounded"
+                >
+                    Save theme
+                </button>
+                {customThemes.some((custom) => custom.name === theme.name) && (
+                    <button
+                        onClick={handleDelete}
+                        className="px-3 py-1 bg-red-500 hover:bg-red-600 rounded"
+                    >
+                        Delete
+                    </button>
+                )}
+            </div>
+            {/* One color and one optional image per face */}
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm">
+                {THEME_FACE_NAMES.map((faceName, face) => (
+                    <label key={faceName} className="flex items-center space-x-2">
+                        <input
+                            type="color"
+                            value={String(theme.colors[face])}
+                            onChange={(e) =>
+                                handleFaceChange(face, { color: e.target.value })
+                            }
+                            className="w-8 h-8 bg-transparent"
+                        />
+                        <span className="w-12">{faceName}</span>
+                        <select
+                            value={theme.images?.[face] ?? ""}
+                            onChange={(e) =>
+                                handleFaceChange(face, { image: e.target.value })
+                            }
+                            className="flex-1 min-w-0 px-1 py-1 bg-gray-700 rounded"
+                        >
+                            {images.map((image) => (
+                                <option key={image.url + image.label} value={image.url}>
+                                    {image.url ? image.label : "No image"}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                ))}
+            </div>
+        </div>
+    );
+}
+
 /**
  * Page component for selecting or uploading an image to be used on the Rubik's Cube.
  * Displays default images and allows users to upload their own.
@@ -46,6 +225,20 @@ export default function SelectImagePage() {
     const [newImageName, setNewImageName] = useState("");
     /** State holding the data URL of the new image being uploaded. */
     const [newImageDataUrl, setNewImageDataUrl] = useState("");
+    /** State holding how the selected image will be laid out on the cube. */
+    const [layout, setLayout] = useState<LayoutChoice>("sticker");
+    /** State holding the pictures chosen so far in six-picture mode, one per face. */
+    const [faceImages, setFaceImages] = useState<string[]>([]);
+
+    /**
+     * Effect hook to restore the layout chosen last time.
+     */
+    useEffect(() => {
+        const savedLayout = loadImageLayout();
+        if (savedLayout.mode === "picture") {
+            setLayout(savedLayout.faces ? "six" : "picture");
+        }
+    }, []);
 
     /**
      * Effect hook to load previously uploaded images from localStorage when the component mounts.
@@ -83,7 +276,21 @@ export default function SelectImagePage() {
      */
     const handleImageSelect = (imageUrl: string) => {
         console.log("Image card clicked:", imageUrl);
-        localStorage.setItem("rubiksImage", imageUrl);
+        // In six-picture mode, collect one picture per face before going on
+        const faces = [...faceImages, imageUrl];
+        if (layout === "six" && faces.length < THEME_FACE_NAMES.length) {
+            setFaceImages(faces);
+            return;
+        }
+        const imageLayout: ImageLayout =
+            layout === "sticker"
+                ? { mode: "sticker" }
+                : layout === "picture"
+                ? { mode: "picture" }
+                : { mode: "picture", faces };
+        localStorage.setItem("rubiksImageLayout", JSON.stringify(imageLayout));
+        // The image of a six-picture cube is its top face, e.g. for the leaderboard
+        localStorage.setItem("rubiksImage", layout === "six" ? faces[0] : imageUrl);
         // Determine the next page based on where the user came from (or default)
         const destination =
             localStorage.getItem("rubiksDestination") || "/challenge"; // Default to challenge mode
@@ -153,6 +360,31 @@ export default function SelectImagePage() {
             <h1 className="text-4xl font-bold text-center mb-12 lilita-one-regular">
                 Select Your Cube Image
             </h1>
+            {/* Layout picker: how the chosen image is put on the cube */}
+            <div className="flex justify-center space-x-2 mb-8">
+                {(Object.keys(LAYOUT_LABELS) as LayoutChoice[]).map((choice) => (
+                    <button
+                        key={choice}
+                        onClick={() => {
+                            setLayout(choice);
+                            setFaceImages([]); // Start the six pictures over
+                        }}
+                        className={`px-4 py-2 rounded ${
+                            layout === choice ? "bg-blue-600" : "bg-gray-600"
+                        }`}
+                    >
+                        {LAYOUT_LABELS[choice]}
+                    </button>
+                ))}
+            </div>
+            {/* Theme editor: face colors and an optional image per face */}
+            <ThemeEditor images={allImages} />
+            {/* Six-picture prompt: which face the next click is for */}
+            {layout === "six" && (
+                <p className="text-center text-lg mb-8">
+                    Choose the picture for the {THEME_FACE_NAMES[faceImages.length]} face ({faceImages.length + 1} of {THEME_FACE_NAMES.length})
+                </p>
+            )}
             {/* Grid layout for image cards */}
             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-6">
                 {/* Upload button card */}
@@ -1,10 +1,304 @@
 "use client";
-import React from "react";
+import React, { useEffect, useState } from "react";
 import { useRouter } from "next/navigation"; // Import useRouter
+import {
+    DEFAULT_GAMEPAD_MAP,
+    DEFAULT_KEY_MAP,
+    loadBindings,
+} from "../rubiks/control";
+import { parseAlgorithm } from "../rubiks/notation";
+import {
+    DEFAULT_TURN_ANIMATION,
+    loadTurnAnimation,
+    TurnAnimation,
+} from "../rubiks/moveQueue";
+import { EasingName } from "../rubiks/easing";
+
+/** Turn speeds offered in the settings, as the duration of one turn in milliseconds. */
+const TURN_SPEEDS: [string, number][] = [
+    ["Slow", 800],
+    ["Normal", 500],
+    ["Fast", 250],
+    ["Very fast", 120],
+    ["Instant", 0],
+];
+
+/** Easing curves offered in the settings, with their labels. */
+const EASING_LABELS: Record<EasingName, string> = {
+    linear: "Linear",
+    easeOut: "Ease out",
+    spring: "Spring",
+};
+
+/**
+ * Props for the BindingEditor component.
+ * @typedef {object} BindingEditorProps
+ * @property {string} title - The heading of the editor.
+ * @property {string} storageKey - The localStorage key the bindings are saved under.
+ * @property {Readonly<Record<string, string>>} defaults - The bindings used when nothing is saved.
+ * @property {string} inputLabel - What an input is called in messages (e.g. "key").
+ * @property {(input: string) => string} normalizeInput - Cleans up a typed input (e.g. lower-cases keys).
+ * @property {(input: string) => boolean} isValidInput - Checks a typed input before saving.
+ */
+type BindingEditorProps = {
+    title: string;
+    storageKey: string;
+    defaults: Readonly<Record<string, string>>;
+    inputLabel: string;
+    normalizeInput: (input: string) => string;
+    isValidInput: (input: string) => boolean;
+};
+
+/**
+ * Checks that a string is exactly one move in standard notation.
+ * @param {string} move - The move to check.
+ * @returns {boolean} True if the string parses to a single move.
+ */
+const isSingleMove = (move: string) => {
+    try {
+        return parseAlgorithm(move).length === 1;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Editor for a map of inputs (keys or gamepad buttons) to moves in standard notation,
+ * persisted in localStorage and read by the cube controls when a cube is created.
+ *
+ * @component
+ * @param {BindingEditorProps} props - The editor settings.
+ * @returns {React.ReactElement} The rendered editor.
+ */
+function BindingEditor({
+    title,
+    storageKey,
+    defaults,
+    inputLabel,
+    normalizeInput,
+    isValidInput,
+}: BindingEditorProps) {
+    // Rows of the editor, as [input, move] pairs.
+    const [rows, setRows] = useState<[string, string][]>([]);
+
+    // Load the saved bindings (or the default ones) when the editor mounts.
+    useEffect(() => {
+        setRows(Object.entries(loadBindings(storageKey, defaults)));
+    }, [storageKey, defaults]);
+
+    /**
+     * Updates one cell of the editor.
+     * @param {number} index - The row to update.
+     * @param {0 | 1} column - 0 for the input, 1 for the move.
+     * @param {string} value - The new value.
+     */
+    const handleRowChange = (index: number, column: 0 | 1, value: string) => {
+        setRows((current) =>
+            current.map((row, i) => {
+                if (i !== index) return row;
+                const next: [string, string] = [...row];
+                next[column] = column === 0 ? normalizeInput(value) : value;
+                return next;
+            })
+        );
+    };
+
+    /**
+     * Validates the bindings and saves them to localStorage.
+     * Every row needs a valid input and exactly one move in standard notation.
+     */
+    const handleSave = () => {
+        const bindings: Record<string, string> = {};
+        for (const [input, move] of rows) {
+            if (!input && !move) continue; // Skip empty rows
+            if (!isValidInput(input) || !isSingleMove(move)) {
+                alert(`Invalid ${inputLabel} binding: "${input}" → "${move}"`);
+                return;
+            }
+            bindings[input] = move.trim();
+        }
+        localStorage.setItem(storageKey, JSON.stringify(bindings));
+        alert(`${title} layout saved`);
+    };
+
+    /**
+     * Restores the default bindings.
+     */
+    const handleReset = () => {
+        localStorage.removeItem(storageKey);
+        setRows(Object.entries(defaults));
+    };
+
+    return (
+        <>
+            {/* One row per input, mapped to a move in standard notation */}
+            <h2 className="text-xl font-bold mt-6 mb-2">{title}</h2>
+            <div className="grid grid-cols-4 gap-2 max-h-64 overflow-auto text-sm">
+                {rows.map(([input, move], i) => (
+                    <div key={i} className="flex items-center space-x-1">
+                        <input
+                            value={input}
+                            maxLength={2}
+                            onChange={(e) =>
+                                handleRowChange(i, 0, e.target.value)
+                            }
+                            className="w-8 px-1 bg-gray-700 rounded text-center font-mono"
+                        />
+                        <span>→</span>
+                        <input
+                            value={move}
+                            onChange={(e) =>
+                                handleRowChange(i, 1, e.target.value)
+                            }
+                            className="w-12 px-1 bg-gray-700 rounded text-center font-mono"
+                        />
+                        <button
+                            onClick={() =>
+                                setRows((current) =>
+                                    current.filter((_, j) => j !== i)
+                                )
+                            }
+                            className="px-1 text-red-400 hover:text-red-500"
+                        >
+                            ×
+                        </button>
+                    </div>
+                ))}
+            </div>
+            <div className="flex justify-center space-x-4 mt-4">
+                <button
+                    onClick={() => setRows((current) => [...current, ["", ""]])}
+                    className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded"
+                >
+                    Add {inputLabel}
+                </button>
+                <button
+                    onClick={handleSave}
+                    className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded"
+                >
+                    Save {title}
+                </button>
+                <button
+                    onClick={handleReset}
+                    className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded"
+                >
+                    Reset {title}
+                </button>
+            </div>
+        </>
+    );
+}
+
+/**
+ * Editor for the speed and easing of turn animations, saved to localStorage as soon as they change
+ * and read by the cube when it is created.
+ *
+ * @component
+ * @returns {React.ReactElement} The rendered editor.
+ */
+function TurnAnimationEditor() {
+    const [animation, setAnimation] = useState<TurnAnimation>(
+        DEFAULT_TURN_ANIMATION
+    );
+
+    // Load the saved turn animation when the editor mounts.
+    useEffect(() => {
+        setAnimation(loadTurnAnimation());
+    }, []);
+
+    /**
+     * Updates part of the turn animation and saves it.
+     * @param {Partial<TurnAnimation>} change - The fields to change.
+     */
+    const handleChange = (change: Partial<TurnAnimation>) => {
+        const next = { ...animation, ...change };
+        setAnimation(next);
+        localStorage.setItem("rubiksTurnAnimation", JSON.stringify(next));
+    };
+
+    return (
+        <>
+            <h2 className="text-xl font-bold mt-6 mb-2">Turns</h2>
+            <div className="flex justify-center space-x-4 text-sm">
+                <label className="flex items-center space-x-2">
+                    <span>Speed</span>
+                    <select
+                        value={animation.duration}
+                        onChange={(e) =>
+                            handleChange({ duration: Number(e.target.value) })
+                        }
+                        className="px-2 py-1 bg-gray-700 rounded"
+                    >
+                        {TURN_SPEEDS.map(([label, duration]) => (
+                            <option key={duration} value={duration}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex items-center space-x-2">
+                    <span>Easing</span>
+                    <select
+                        value={animation.easing}
+                        onChange={(e) =>
+                            handleChange({
+                                easing: e.target.value as EasingName,
+                            })
+                        }
+                        className="px-2 py-1 bg-gray-700 rounded"
+                    >
+                        {Object.entries(EASING_LABELS).map(([name, label]) => (
+                            <option key={name} value={name}>
+                                {label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+        </>
+    );
+}
+
+/**
+ * Toggle for the WCA-style 15-second inspection before each timed solve, saved to localStorage
+ * as soon as it changes and read by the cube when it is created.
+ *
+ * @component
+ * @returns {React.ReactElement} The rendered toggle.
+ */
+function InspectionEditor() {
+    const [inspection, setInspection] = useState(true);
+
+    // Load the saved setting when the editor mounts; inspection is on unless turned off.
+    useEffect(() => {
+        setInspection(localStorage.getItem("rubiksInspection") !== "false");
+    }, []);
+
+    /**
+     * Turns inspection on or off and saves the setting.
+     * @param {boolean} enabled - Whether solves start with an inspection.
+     */
+    const handleChange = (enabled: boolean) => {
+        setInspection(enabled);
+        localStorage.setItem("rubiksInspection", String(enabled));
+    };
+
+    return (
+        <label className="flex justify-center items-center space-x-2 mt-4 text-sm">
+            <input
+                type="checkbox"
+                checked={inspection}
+                onChange={(e) => handleChange(e.target.checked)}
+            />
+            <span>15-second inspection (+2 after 15 s, DNF after 17 s)</span>
+        </label>
+    );
+}
 
 /**
  * Settings page component.
- * Provides options to clear data stored in localStorage, such as uploaded images and leaderboard scores.
+ * Provides options to clear data stored in localStorage, such as uploaded images and leaderboard scores,
+ * to set the turn speed and the inspection, and to edit the keyboard and gamepad layouts used to turn the cube.
  */
 export default function SettingsPage() {
     const router = useRouter(); // Initialize router
@@ -64,6 +358,28 @@ export default function SettingsPage() {
                         Clear Leaderboard
                     </button>
                 </div>
+                {/* Turn speed and easing, used by animated moves and by the snap after a drag */}
+                <TurnAnimationEditor />
+                {/* Inspection before each timed solve */}
+                <InspectionEditor />
+                {/* Keyboard layout editor: keys are KeyboardEvent.key values in lower case */}
+                <BindingEditor
+                    title="Keyboard"
+                    storageKey="rubiksKeyMap"
+                    defaults={DEFAULT_KEY_MAP}
+                    inputLabel="key"
+                    normalizeInput={(input) => input.toLowerCase()}
+                    isValidInput={(input) => input.length === 1}
+                />
+                {/* Gamepad layout editor: inputs are button indices of the standard gamepad layout */}
+                <BindingEditor
+                    title="Gamepad"
+                    storageKey="rubiksGamepadMap"
+                    defaults={DEFAULT_GAMEPAD_MAP}
+                    inputLabel="button"
+                    normalizeInput={(input) => input.replace(/\D/g, "")}
+                    isValidInput={(input) => /^\d{1,2}$/.test(input)}
+                />
             </div>
         </div>
     );
@@ -0,0 +1,519 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+    AverageName,
+    AVERAGES,
+    formatStat,
+    getBestProgression,
+    getHistogram,
+    getRollingAverages,
+    getSolveStats,
+    getSolveValue,
+    HistogramBin,
+    loadSolves,
+    SolveRecord,
+} from "../rubiks/solveHistory";
+import { formatResult } from "../rubiks/solveTimer";
+import {
+    getPhaseAverages,
+    getPhaseDurations,
+    PHASE_LABELS,
+    PHASES,
+} from "../rubiks/splits";
+
+/** Size of every chart, in SVG units; the charts scale to the width of the page. */
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 240;
+/** Space around the plot area for the axis labels, in SVG units. */
+const CHART_PADDING = 48;
+/** Number of bars of the histogram. */
+const HISTOGRAM_BINS = 12;
+/** Number of latest solves listed with their phase splits. */
+const RECENT_SOLVES = 12;
+
+/**
+ * A line drawn on a chart.
+ * @typedef {object} ChartSeries
+ * @property {string} label - The name shown in the legend.
+ * @property {string} color - The color of the line.
+ * @property {(number | null)[]} values - One value per solve in milliseconds; null leaves a gap, `Infinity` marks a DNF.
+ * @property {boolean} [dots] - Whether to draw each value as a dot instead of a line.
+ * @property {boolean} [step] - Whether the line holds each value until the next one (for records).
+ */
+type ChartSeries = {
+    label: string;
+    color: string;
+    values: (number | null)[];
+    dots?: boolean;
+    step?: boolean;
+};
+
+/**
+ * Builds the SVG path of a line, broken wherever a value is missing.
+ * @param {(number | null)[]} values - The values of the line.
+ * @param {(i: number) => number} x - Maps a solve index to an x coordinate.
+ * @param {(value: number) => number} y - Maps a value to a y coordinate.
+ * @param {boolean} step - Whether to hold each value until the next one.
+ * @returns {string} The path data.
+ */
+const buildPath = (
+    values: (number | null)[],
+    x: (i: number) => number,
+    y: (value: number) => number,
+    step: boolean
+) => {
+    let path = "";
+    let previous: number | null = null;
+    values.forEach((value, i) => {
+        if (value === null || value === Infinity) {
+            previous = null;
+            return;
+        }
+        if (previous === null) path += `M${x(i)},${y(value)}`;
+        else if (step) path += `H${x(i)}V${y(value)}`;
+        else path += `L${x(i)},${y(value)}`;
+        previous = value;
+    });
+    return path;
+};
+
+/**
+ * Chart of values per solve: the solve number across, the time up.
+ * DNFs are marked in red along the top edge.
+ *
+ * @component
+ * @param {{ series: ChartSeries[] }} props - The lines to draw; all have one value per solve.
+ * @returns {React.ReactElement} The rendered chart.
+ */
+function LineChart({ series }: { series: ChartSeries[] }) {
+    const count = Math.max(...series.map((line) => line.values.length));
+    const finite = series
+        .flatMap((line) => line.values)
+        .filter(
+            (value): value is number => value !== null && value !== Infinity
+        );
+    if (finite.length === 0) {
+        return <p className="text-gray-400">No finished solves yet.</p>;
+    }
+    // Leave a little room above and below the values
+    const margin = (Math.max(...finite) - Math.min(...finite)) * 0.05 || 1000;
+    const low = Math.max(0, Math.min(...finite) - margin);
+    const high = Math.max(...finite) + margin;
+    const x = (i: number) =>
+        CHART_PADDING +
+        (count > 1 ? i / (count - 1) : 0.5) * (CHART_WIDTH - 2 * CHART_PADDING);
+    const y = (value: number) =>
+        CHART_HEIGHT -
+        CHART_PADDING -
+        ((value - low) / (high - low)) * (CHART_HEIGHT - 2 * CHART_PADDING);
+
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full">
+            {/* Axes, with the time range on the left and the solve numbers below */}
+            <g stroke="#6b7280" fontSize={11} fill="#d1d5db">
+                <line
+                    x1={CHART_PADDING}
+                    y1={CHART_PADDING}
+                    x2={CHART_PADDING}
+                    y2={CHART_HEIGHT - CHART_PADDING}
+                />
+                <line
+                    x1={CHART_PADDING}
+                    y1={CHART_HEIGHT - CHART_PADDING}
+                    x2={CHART_WIDTH - CHART_PADDING}
+                    y2={CHART_HEIGHT - CHART_PADDING}
+                />
+                {[low, (low + high) / 2, high].map((value) => (
+                    <text
+                        key={value}
+                        x={CHART_PADDING - 4}
+                        y={y(value) + 4}
+                        textAnchor="end"
+                        stroke="none"
+                    >
+                        {formatStat(value).replace(/^00:/, "")}
+                    </text>
+                ))}
+                <text
+                    x={x(0)}
+                    y={CHART_HEIGHT - CHART_PADDING + 16}
+                    textAnchor="middle"
+                    stroke="none"
+                >
+                    1
+                </text>
+                {count > 1 && (
+                    <text
+                        x={x(count - 1)}
+                        y={CHART_HEIGHT - CHART_PADDING + 16}
+                        textAnchor="middle"
+                        stroke="none"
+                    >
+                        {count}
+                    </text>
+                )}
+            </g>
+            {series.map((line) =>
+                line.dots ? (
+                    <g key={line.label}>
+                        {line.values.map(
+                            (value, i) =>
+                                value !== null && (
+                                    <circle
+                                        key={i}
+                                        cx={x(i)}
+                                        cy={
+                                            value === Infinity
+                                                ? CHART_PADDING
+                                                : y(value)
+                                        }
+                                        r={2.5}
+                                        fill={
+                                            value === Infinity
+                                                ? "#ef4444"
+                                                : line.color
+                                        }
+                                    />
+                                )
+                        )}
+                    </g>
+                ) : (
+                    <path
+                        key={line.label}
+                        d={buildPath(line.values, x, y, !!line.step)}
+                        fill="none"
+                        stroke={line.color}
+                        strokeWidth={2}
+                    />
+                )
+            )}
+            {/* Legend, along the top */}
+            {series.map((line, i) => (
+                <text
+                    key={line.label}
+                    x={CHART_PADDING + i * 120}
+                    y={CHART_PADDING / 2}
+                    fill={line.color}
+                    fontSize={12}
+                >
+                    ■ {line.label}
+                </text>
+            ))}
+        </svg>
+    );
+}
+
+/**
+ * Bar chart of how the finished solves are spread over time ranges.
+ *
+ * @component
+ * @param {{ bins: HistogramBin[] }} props - The bars, fastest first.
+ * @returns {React.ReactElement} The rendered chart.
+ */
+function Histogram({ bins }: { bins: HistogramBin[] }) {
+    if (bins.length === 0) {
+        return <p className="text-gray-400">No finished solves yet.</p>;
+    }
+    const most = Math.max(...bins.map((bin) => bin.count));
+    const width = (CHART_WIDTH - 2 * CHART_PADDING) / bins.length;
+    const plotHeight = CHART_HEIGHT - 2 * CHART_PADDING;
+
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full">
+            {bins.map((bin, i) => {
+                const height = (bin.count / most) * plotHeight;
+                const left = CHART_PADDING + i * width;
+                return (
+                    <g key={i} fontSize={10} fill="#d1d5db">
+                        <rect
+                            x={left + 1}
+                            y={CHART_HEIGHT - CHART_PADDING - height}
+                            width={width - 2}
+                            height={height}
+                            fill="#3b82f6"
+                        >
+                            <title>
+                                {`${formatStat(bin.from)} – ${formatStat(
+                                    bin.to
+                                )}: ${bin.count}`}
+                            </title>
+                        </rect>
+                        {bin.count > 0 && (
+                            <text
+                                x={left + width / 2}
+                                y={CHART_HEIGHT - CHART_PADDING - height - 4}
+                                textAnchor="middle"
+                            >
+                                {bin.count}
+                            </text>
+                        )}
+                        {/* Label every other bar with the time it starts at */}
+                        {i % 2 === 0 && (
+                            <text
+                                x={left}
+                                y={CHART_HEIGHT - CHART_PADDING + 16}
+                                textAnchor="middle"
+                            >
+                                {formatStat(bin.from).replace(/^00:/, "")}
+                            </text>
+                        )}
+                    </g>
+                );
+            })}
+            <line
+                x1={CHART_PADDING}
+                y1={CHART_HEIGHT - CHART_PADDING}
+                x2={CHART_WIDTH - CHART_PADDING}
+                y2={CHART_HEIGHT - CHART_PADDING}
+                stroke="#6b7280"
+            />
+        </svg>
+    );
+}
+
+/**
+ * Renders the statistics page.
+ * Charts the solve history stored in localStorage for one puzzle, for every session or one of them:
+ * the times with a rolling average, their distribution, how the personal bests improved,
+ * and the time spent in each phase of the solve.
+ * Everything is drawn client-side as SVG.
+ *
+ * @component
+ * @returns {React.ReactElement} The rendered statistics page.
+ */
+export default function StatsPage() {
+    const router = useRouter();
+    // Every timed solve, loaded from localStorage.
+    const [solves, setSolves] = useState<SolveRecord[]>([]);
+    // The puzzle to chart, as stored in the history (e.g. "3" or "2x2x3").
+    const [puzzle, setPuzzle] = useState("3");
+    // The session to chart, or 0 for every session.
+    const [session, setSession] = useState(0);
+    // The average drawn over the times and tracked in the PB progression.
+    const [average, setAverage] = useState<AverageName>("ao5");
+
+    // Load the solve history when the page mounts, starting on the most recent puzzle.
+    useEffect(() => {
+        const saved = loadSolves();
+        setSolves(saved);
+        if (saved.length > 0) setPuzzle(saved[saved.length - 1].puzzle);
+    }, []);
+
+    const puzzles = Array.from(new Set(solves.map((solve) => solve.puzzle)));
+    const puzzleSolves = solves.filter((solve) => solve.puzzle === puzzle);
+    const sessions = Array.from(
+        new Set(puzzleSolves.map((solve) => solve.session))
+    );
+    const shown = puzzleSolves.filter(
+        (solve) => session === 0 || solve.session === session
+    );
+    const values = shown.map(getSolveValue);
+    const kind = AVERAGES.find(({ name }) => name === average)!;
+    const rolling = getRollingAverages(values, kind);
+    const stats = getSolveStats(shown);
+    const phaseAverages = getPhaseAverages(
+        shown
+            .filter((solve) => solve.penalty !== "DNF")
+            .map((solve) => solve.splits)
+    );
+
+    return (
+        <div className="min-h-screen bg-gradient-to-r from-black to-blue-950 text-white p-8">
+            {/* Back button positioned at the top-left */}
+            <div className="absolute top-4 left-4 z-10">
+                <button
+                    onClick={() => router.push("/")} // Navigate back to home page
+                    className="px-3 py-1 bg-gray-500 hover:bg-gray-600 text-white rounded"
+                >
+                    Back
+                </button>
+            </div>
+            <h1 className="text-4xl font-bold text-center mb-6">Statistics</h1>
+            {/* What to chart: the puzzle, the session and the rolling average */}
+            <div className="flex justify-center space-x-4 mb-6 text-sm">
+                <select
+                    value={puzzle}
+                    onChange={(e) => {
+                        setPuzzle(e.target.value);
+                        setSession(0);
+                    }}
+                    className="px-2 py-1 bg-gray-700 rounded"
+                >
+                    {puzzles.map((value) => (
+                        <option key={value} value={value}>
+                            {value.includes("x") ? value : `${value}x${value}`}
+                        </option>
+                    ))}
+                </select>
+                <select
+                    value={session}
+                    onChange={(e) => setSession(Number(e.target.value))}
+                    className="px-2 py-1 bg-gray-700 rounded"
+                >
+                    <option value={0}>All sessions</option>
+                    {sessions.map((value) => (
+                        <option key={value} value={value}>
+                            Session {value}
+                        </option>
+                    ))}
+                </select>
+                <select
+                    value={average}
+                    onChange={(e) => setAverage(e.target.value as AverageName)}
+                    className="px-2 py-1 bg-gray-700 rounded"
+                >
+                    {AVERAGES.map(({ name }) => (
+                        <option key={name} value={name}>
+                            {name}
+                        </option>
+                    ))}
+                </select>
+            </div>
+            {shown.length === 0 ? (
+                <p className="text-center text-gray-400">
+                    No timed solves yet. Solve a scrambled cube to start your
+                    history.
+                </p>
+            ) : (
+                <div className="max-w-3xl mx-auto space-y-6">
+                    {/* Summary of the charted solves */}
+                    <div className="bg-gray-800 rounded-lg p-4 flex flex-wrap justify-around text-center">
+                        {(
+                            [
+                                ["Solves", String(stats.count)],
+                                ["DNF", String(stats.dnf)],
+                                ["Best", formatStat(stats.single.best)],
+                                [
+                                    `Best ${average}`,
+                                    formatStat(stats.averages[average].best),
+                                ],
+                                ["Mean", formatStat(stats.mean)],
+                                ["σ", formatStat(stats.deviation)],
+                            ] as [string, string][]
+                        ).map(([label, value]) => (
+                            <div key={label} className="px-2">
+                                <div className="text-gray-400 text-sm">
+                                    {label}
+                                </div>
+                                <div className="font-mono">{value}</div>
+                            </div>
+                        ))}
+                    </div>
+                    <section className="bg-gray-800 rounded-lg p-4">
+                        <h2 className="text-xl font-bold mb-2">Times</h2>
+                        <LineChart
+                            series={[
+                                {
+                                    label: "Single",
+                                    color: "#93c5fd",
+                                    values,
+                                    dots: true,
+                                },
+                                {
+                                    label: average,
+                                    color: "#facc15",
+                                    values: rolling,
+                                },
+                            ]}
+                        />
+                    </section>
+                    <section className="bg-gray-800 rounded-lg p-4">
+                        <h2 className="text-xl font-bold mb-2">Distribution</h2>
+                        <Histogram
+                            bins={getHistogram(values, HISTOGRAM_BINS)}
+                        />
+                    </section>
+                    <section className="bg-gray-800 rounded-lg p-4">
+                        <h2 className="text-xl font-bold mb-2">
+                            Personal bests
+                        </h2>
+                        <LineChart
+                            series={[
+                                {
+                                    label: "Single",
+                                    color: "#93c5fd",
+                                    values: getBestProgression(values),
+                                    step: true,
+                                },
+                                {
+                                    label: average,
+                                    color: "#facc15",
+                                    values: getBestProgression(rolling),
+                                    step: true,
+                                },
+                            ]}
+                        />
+                    </section>
+                    {/* Time per phase (3x3x3 only): the mean over the charted solves, then the latest solves */}
+                    <section className="bg-gray-800 rounded-lg p-4">
+                        <h2 className="text-xl font-bold mb-2">Phases</h2>
+                        <table className="w-full text-sm font-mono text-center">
+                            <thead>
+                                <tr>
+                                    <th className="px-1">Date</th>
+                                    <th className="px-1">Time</th>
+                                    {PHASES.map((phase) => (
+                                        <th key={phase} className="px-1">
+                                            {PHASE_LABELS[phase]}
+                                        </th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                <tr className="border-t border-gray-600 text-yellow-300">
+                                    <td className="px-1">Mean</td>
+                                    <td className="px-1">
+                                        {formatStat(stats.mean)}
+                                    </td>
+                                    {PHASES.map((phase) => (
+                                        <td key={phase} className="px-1">
+                                            {formatStat(phaseAverages[phase])}
+                                        </td>
+                                    ))}
+                                </tr>
+                                {shown
+                                    .slice(-RECENT_SOLVES)
+                                    .reverse()
+                                    .map((solve) => {
+                                        const durations = getPhaseDurations(
+                                            solve.splits ?? {}
+                                        );
+                                        return (
+                                            <tr
+                                                key={solve.date}
+                                                className="border-t border-gray-600"
+                                            >
+                                                <td className="px-1">
+                                                    {new Date(
+                                                        solve.date
+                                                    ).toLocaleDateString()}
+                                                </td>
+                                                <td className="px-1">
+                                                    {formatResult(
+                                                        solve.time,
+                                                        solve.penalty
+                                                    )}
+                                                </td>
+                                                {PHASES.map((phase) => (
+                                                    <td
+                                                        key={phase}
+                                                        className="px-1"
+                                                    >
+                                                        {formatStat(
+                                                            durations[phase] ??
+                                                                null
+                                                        )}
+                                                    </td>
+                                                ))}
+                                            </tr>
+                                        );
+                                    })}
+                            </tbody>
+                        </table>
+                    </section>
+                </div>
+            )}
+        </div>
+    );
+}